@@ -4,9 +4,19 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { HelmetProvider } from "react-helmet-async";
+import { lazy, Suspense } from "react";
 import Index from "./pages/Index";
 import About from "./pages/About";
+import TimelineCompare from "./pages/TimelineCompare";
+import TimelineMilestone from "./pages/TimelineMilestone";
+import Customers from "./pages/Customers";
+import ShareYourStory from "./pages/ShareYourStory";
 import NotFound from "./pages/NotFound";
+import { LocaleRoute } from "./components/LocaleRoute";
+
+// Admin tools pull in charting code; keep them out of the public bundle
+const AdminAnalytics = lazy(() => import("./pages/AdminAnalytics"));
+const AdminTestimonials = lazy(() => import("./pages/AdminTestimonials"));
 
 const queryClient = new QueryClient();
 
@@ -18,8 +28,35 @@ const App = () => (
         <Sonner />
         <BrowserRouter>
           <Routes>
-            <Route path="/" element={<About />} />
-            <Route path="/about" element={<About />} />
+            <Route element={<LocaleRoute />}>
+              <Route path="/" element={<About />} />
+              <Route path="/about" element={<About />} />
+              <Route path="/:locale/about" element={<About />} />
+              <Route path="/about/timeline/:year" element={<TimelineMilestone />} />
+              <Route path="/:locale/about/timeline/:year" element={<TimelineMilestone />} />
+              <Route path="/about/compare/:range?" element={<TimelineCompare />} />
+              <Route path="/:locale/about/compare/:range?" element={<TimelineCompare />} />
+              <Route path="/customers" element={<Customers />} />
+              <Route path="/:locale/customers" element={<Customers />} />
+              <Route path="/share-your-story" element={<ShareYourStory />} />
+              <Route path="/:locale/share-your-story" element={<ShareYourStory />} />
+            </Route>
+            <Route
+              path="/admin/analytics"
+              element={
+                <Suspense fallback={null}>
+                  <AdminAnalytics />
+                </Suspense>
+              }
+            />
+            <Route
+              path="/admin/testimonials"
+              element={
+                <Suspense fallback={null}>
+                  <AdminTestimonials />
+                </Suspense>
+              }
+            />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
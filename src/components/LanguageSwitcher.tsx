@@ -0,0 +1,50 @@
+/**
+ * LanguageSwitcher Component
+ *
+ * Select that moves the current page to another locale's route,
+ * keeping the in-page hash (e.g. #timeline-2023).
+ */
+
+import React from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Globe } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SUPPORTED_LOCALES, localeMeta, switchLocalePath, isLocale } from '@/i18n/config';
+import { useI18n } from '@/hooks/useI18n';
+import { cn } from '@/lib/utils';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className }) => {
+  const { locale, t, dir } = useI18n();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const handleChange = (value: string) => {
+    if (!isLocale(value) || value === locale) return;
+    navigate(`${switchLocalePath(location.pathname, value)}${location.hash}`);
+  };
+
+  return (
+    <Select value={locale} onValueChange={handleChange} dir={dir}>
+      <SelectTrigger
+        className={cn("w-auto gap-2 glass-card border-border/30 focus-ring", className)}
+        aria-label={t.languageSwitcher.label}
+      >
+        <Globe className="w-4 h-4 text-accent" aria-hidden="true" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_LOCALES.map((code) => (
+          <SelectItem key={code} value={code} lang={code}>
+            {localeMeta[code].nativeName}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default LanguageSwitcher;
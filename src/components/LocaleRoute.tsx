@@ -0,0 +1,37 @@
+import { Navigate, Outlet, useLocation, useParams } from "react-router-dom";
+import { I18nProvider } from "@/i18n/I18nProvider";
+import { ConsentManager } from "@/components/consent/ConsentManager";
+import { DEFAULT_LOCALE, isLocale } from "@/i18n/config";
+import NotFound from "@/pages/NotFound";
+
+/**
+ * Layout route that resolves the optional :locale segment.
+ * Unprefixed routes use the default locale; unknown locales render NotFound.
+ * The default locale's own prefix (/en/about) redirects to the unprefixed
+ * route, so each page has a single canonical URL.
+ * Also mounts the (localized) consent banner for every page below it.
+ */
+const LocaleRoute = () => {
+  const params = useParams();
+  const { pathname, search, hash } = useLocation();
+  const locale = params.locale ?? DEFAULT_LOCALE;
+
+  if (!isLocale(locale)) {
+    return <NotFound />;
+  }
+
+  if (params.locale === DEFAULT_LOCALE) {
+    const unprefixed = pathname.slice(`/${DEFAULT_LOCALE}`.length) || "/";
+    return <Navigate to={`${unprefixed}${search}${hash}`} replace />;
+  }
+
+  return (
+    <I18nProvider locale={locale}>
+      <ConsentManager>
+        <Outlet />
+      </ConsentManager>
+    </I18nProvider>
+  );
+};
+
+export { LocaleRoute };
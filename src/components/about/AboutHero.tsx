@@ -6,13 +6,17 @@
  * - Animated headline with stagger reveal
  * - Call-to-action buttons
  * - Scroll indicator
+ * - Language switcher
  */
 
 import React, { useEffect, useRef } from 'react';
 import { gsap } from 'gsap';
 import { ChevronDown, Sparkles } from 'lucide-react';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
+import { useI18n } from '@/hooks/useI18n';
 import { Button } from '@/components/ui/button';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { Highlighted } from '@/components/about/Highlighted';
 import { cn } from '@/lib/utils';
 
 export const AboutHero: React.FC = () => {
@@ -21,6 +25,7 @@ export const AboutHero: React.FC = () => {
   const subtitleRef = useRef<HTMLParagraphElement>(null);
   const ctaRef = useRef<HTMLDivElement>(null);
   const reducedMotion = useReducedMotion();
+  const { t } = useI18n();
 
   useEffect(() => {
     if (reducedMotion) return;
@@ -97,6 +102,11 @@ export const AboutHero: React.FC = () => {
         aria-hidden="true"
       />
 
+      {/* Language Switcher */}
+      <div className="absolute top-6 end-6 z-20">
+        <LanguageSwitcher />
+      </div>
+
       {/* Content */}
       <div className="relative z-10 text-center px-6 max-w-5xl mx-auto">
         {/* Badge */}
@@ -107,7 +117,7 @@ export const AboutHero: React.FC = () => {
           )}
         >
           <Sparkles className="w-4 h-4" />
-          <span>Discover Our Story</span>
+          <span>{t.hero.badge}</span>
         </div>
 
         {/* Headline */}
@@ -120,8 +130,7 @@ export const AboutHero: React.FC = () => {
             !reducedMotion && "opacity-0"
           )}
         >
-          Building the Future,{' '}
-          <span className="gradient-text">Together</span>
+          <Highlighted text={t.hero.headline} />
         </h1>
 
         {/* Subtitle */}
@@ -133,8 +142,7 @@ export const AboutHero: React.FC = () => {
             !reducedMotion && "opacity-0"
           )}
         >
-          We're more than a company—we're a movement of innovators, dreamers, 
-          and doers united by a singular mission to transform how the world works.
+          {t.hero.subtitle}
         </p>
 
         {/* CTA Buttons */}
@@ -150,14 +158,14 @@ export const AboutHero: React.FC = () => {
             className="bg-accent text-accent-foreground hover:bg-accent/90 min-w-[200px] focus-ring"
             onClick={scrollToContent}
           >
-            Explore Our Journey
+            {t.hero.explore}
           </Button>
           <Button
             variant="outline"
             size="lg"
             className="min-w-[200px] focus-ring"
           >
-            Join Our Team
+            {t.hero.join}
           </Button>
         </div>
       </div>
@@ -170,9 +178,9 @@ export const AboutHero: React.FC = () => {
           "flex flex-col items-center gap-2 text-muted-foreground",
           "hover:text-foreground transition-colors cursor-pointer focus-ring rounded-lg p-2"
         )}
-        aria-label="Scroll to content"
+        aria-label={t.hero.scrollLabel}
       >
-        <span className="text-sm uppercase tracking-widest">Scroll</span>
+        <span className="text-sm uppercase tracking-widest">{t.hero.scroll}</span>
         <ChevronDown className="w-6 h-6 animate-bounce" />
       </button>
     </section>
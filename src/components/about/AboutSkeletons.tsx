@@ -0,0 +1,112 @@
+/**
+ * About Page Loading Skeletons
+ *
+ * Placeholders shown while About content is fetched. Each mirrors the
+ * footprint of its section so the page does not jump when data arrives.
+ */
+
+import React from 'react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useI18n } from '@/hooks/useI18n';
+
+const SectionHeaderSkeleton: React.FC = () => (
+  <div className="mb-16 flex flex-col items-center gap-4">
+    <Skeleton className="h-12 lg:h-16 w-3/4 max-w-xl" />
+    <Skeleton className="h-6 w-2/3 max-w-2xl" />
+  </div>
+);
+
+export const StorySkeleton: React.FC = () => {
+  const { t } = useI18n();
+
+  return (
+    <section className="section-container" aria-busy="true" aria-label={t.loading.story}>
+      <SectionHeaderSkeleton />
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Skeleton className="h-20 w-full" />
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-28 w-full" />
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export const HistorySkeleton: React.FC = () => {
+  const { t } = useI18n();
+
+  return (
+    <section className="section-container" aria-busy="true" aria-label={t.loading.history}>
+      <SectionHeaderSkeleton />
+      <div className="max-w-4xl mx-auto space-y-24">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <div key={i} className="ps-8 lg:ps-16 border-s-2 border-accent/20 space-y-4">
+            <Skeleton className="h-4 w-16" />
+            <Skeleton className="h-10 w-1/2" />
+            <Skeleton className="h-[2px] w-24" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export const MVVGSkeleton: React.FC = () => {
+  const { t } = useI18n();
+
+  return (
+    <section className="section-container" aria-busy="true" aria-label={t.loading.mvvg}>
+      <SectionHeaderSkeleton />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 lg:gap-8">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <div key={i} className="glass-card p-6 lg:p-8 space-y-4">
+            <Skeleton className="w-16 h-16 rounded-xl" />
+            <Skeleton className="h-8 w-1/2" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export const TimelineSkeleton: React.FC = () => {
+  const { t } = useI18n();
+
+  return (
+    <section className="section-container" aria-busy="true" aria-label={t.loading.timeline}>
+      <SectionHeaderSkeleton />
+      <div className="space-y-24 lg:space-y-32">
+        {Array.from({ length: 2 }).map((_, i) => (
+          <div key={i} className="grid gap-8 lg:gap-12 lg:grid-cols-[1fr,1.2fr]">
+            <Skeleton className="aspect-[4/3] max-h-[350px] rounded-2xl" />
+            <div className="flex flex-col justify-center space-y-6">
+              <Skeleton className="h-24 w-full max-w-lg" />
+              <div className="flex gap-4">
+                {Array.from({ length: 3 }).map((_, j) => (
+                  <Skeleton key={j} className="h-20 w-[100px] rounded-xl" />
+                ))}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export const TestimonialSkeleton: React.FC = () => {
+  const { t } = useI18n();
+
+  return (
+    <section className="section-container" aria-busy="true" aria-label={t.loading.testimonials}>
+      <SectionHeaderSkeleton />
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 px-4 lg:px-16">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="aspect-[3/4] rounded-2xl" />
+        ))}
+      </div>
+    </section>
+  );
+};
@@ -2,26 +2,51 @@
  * CinematicHistory Component
  * 
  * Elegant scroll-based company history section with:
- * - Text-focused narrative with scroll-triggered animations
+ * - Multi-layer parallax scene per era (HistoryParallaxScene), scrubbed
+ *   with ScrollTrigger; static composite under reduced motion
+ * - Narrative text with scroll-triggered animations; blurbs either
+ *   blur in word-by-word, or are typed out (TypewriterText) when
+ *   VITE_HISTORY_NARRATION=typewriter, see `narration`
+ * - Per-era pull quotes, media callouts and links from the data layer
  * - GSAP ScrollTrigger for smooth text reveals
  * - Paragraph-style storytelling (no year-by-year navigation)
  * - Full accessibility support
+ * - Mirrored rail, badge and slide-in direction for RTL locales
  */
 
 import React, { useEffect, useRef } from 'react';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
-import { companyHistory } from '@/data/aboutData';
+import type { HistoryEntry } from '@/data/aboutData';
+import { Highlighted } from '@/components/about/Highlighted';
+import { HistoryParallaxScene } from '@/components/about/HistoryParallaxScene';
+import { TypewriterText } from '@/components/about/TypewriterText';
+import { HistoryEntryExtras } from '@/components/about/HistoryEntryExtras';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
+import { useI18n } from '@/hooks/useI18n';
 import { cn } from '@/lib/utils';
 
 // Register GSAP plugins
 gsap.registerPlugin(ScrollTrigger);
 
-export const CinematicHistory: React.FC = () => {
+/** How era blurbs are revealed */
+export type HistoryNarration = 'words' | 'typewriter';
+
+/** Narration chosen for this deployment */
+const DEFAULT_NARRATION: HistoryNarration =
+  import.meta.env.VITE_HISTORY_NARRATION === 'typewriter' ? 'typewriter' : 'words';
+
+interface CinematicHistoryProps {
+  entries: HistoryEntry[];
+  /** Defaults to VITE_HISTORY_NARRATION, or words when unset */
+  narration?: HistoryNarration;
+}
+
+export const CinematicHistory: React.FC<CinematicHistoryProps> = ({ entries, narration = DEFAULT_NARRATION }) => {
   const sectionRef = useRef<HTMLElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const reducedMotion = useReducedMotion();
+  const { t, isRtl } = useI18n();
 
   useEffect(() => {
     if (reducedMotion || !contentRef.current) return;
@@ -64,7 +89,8 @@ export const CinematicHistory: React.FC = () => {
             yearBadge,
             {
               opacity: 0,
-              x: -50,
+              // Slide in from the rail side
+              x: isRtl ? 50 : -50,
               scale: 0.8,
             },
             {
@@ -102,6 +128,27 @@ export const CinematicHistory: React.FC = () => {
         }
       });
 
+      // Parallax layers: each travels by its own data-speed while its scene crosses the viewport
+      contentRef.current?.querySelectorAll<HTMLElement>('.parallax-scene').forEach((scene) => {
+        scene.querySelectorAll<HTMLElement>('.parallax-layer').forEach((layer) => {
+          const speed = Number(layer.dataset.speed) || 0;
+          gsap.fromTo(
+            layer,
+            { yPercent: -speed },
+            {
+              yPercent: speed,
+              ease: 'none',
+              scrollTrigger: {
+                trigger: scene,
+                start: 'top bottom',
+                end: 'bottom top',
+                scrub: true,
+              },
+            }
+          );
+        });
+      });
+
       // Animate the section title
       const title = sectionRef.current?.querySelector('.section-title');
       if (title) {
@@ -124,12 +171,12 @@ export const CinematicHistory: React.FC = () => {
     }, sectionRef);
 
     return () => ctx.revert();
-  }, [reducedMotion]);
+  }, [reducedMotion, entries, isRtl, narration]);
 
   // Split text into words for animation
   const splitIntoWords = (text: string) => {
     return text.split(' ').map((word, i) => (
-      <span key={i} className="word inline-block mr-[0.25em]">
+      <span key={i} className="word inline-block me-[0.25em]">
         {word}
       </span>
     ));
@@ -147,27 +194,26 @@ export const CinematicHistory: React.FC = () => {
           id="history-title"
           className="text-4xl lg:text-6xl font-display font-bold mb-6"
         >
-          Our <span className="gradient-text">Journey</span>
+          <Highlighted text={t.history.title} />
         </h2>
         <p className="text-xl text-muted-foreground max-w-3xl mx-auto leading-relaxed">
-          Every great company has a story worth telling. Here is ours — a narrative of ambition, 
-          resilience, and the relentless pursuit of excellence.
+          {t.history.subtitle}
         </p>
       </div>
 
       {/* Story Content */}
       <div ref={contentRef} className="max-w-4xl mx-auto space-y-24">
-        {companyHistory.map((entry, index) => (
+        {entries.map((entry) => (
           <article
             key={entry.year}
             className={cn(
               "history-paragraph relative",
-              "pl-8 lg:pl-16 border-l-2 border-accent/20"
+              "ps-8 lg:ps-16 border-s-2 border-accent/20"
             )}
           >
             {/* Year Badge */}
             <div 
-              className="year-badge absolute -left-4 lg:-left-6 top-0 
+              className="year-badge absolute -start-4 lg:-start-6 top-0 
                          w-8 h-8 lg:w-12 lg:h-12 rounded-full 
                          bg-accent flex items-center justify-center
                          shadow-lg shadow-accent/30"
@@ -200,24 +246,29 @@ export const CinematicHistory: React.FC = () => {
 
               {/* Decorative Line */}
               <div 
-                className="decorative-line h-[2px] w-24 origin-left"
+                className="decorative-line h-[2px] w-24 origin-left rtl:origin-right"
                 style={{ backgroundColor: `hsl(${entry.accentColor})` }}
               />
 
+              {/* Parallax Scene */}
+              <HistoryParallaxScene entry={entry} />
+
               {/* Story Text */}
-              <p className="text-lg lg:text-xl text-muted-foreground leading-relaxed">
-                {splitIntoWords(entry.blurb)}
-              </p>
-
-              {/* Optional: Pull Quote or Highlight */}
-              {index === 2 && (
-                <blockquote 
-                  className="mt-8 pl-6 border-l-4 italic text-xl text-foreground/80"
-                  style={{ borderColor: `hsl(${entry.accentColor})` }}
-                >
-                  "The moment we realized our potential was limitless."
-                </blockquote>
+              {narration === 'typewriter' ? (
+                <TypewriterText
+                  text={entry.blurb}
+                  reducedMotion={reducedMotion}
+                  accentColor={entry.accentColor}
+                  className="text-lg lg:text-xl text-muted-foreground leading-relaxed"
+                />
+              ) : (
+                <p className="text-lg lg:text-xl text-muted-foreground leading-relaxed">
+                  {splitIntoWords(entry.blurb)}
+                </p>
               )}
+
+              {/* Pull Quotes, Media Callouts & Links */}
+              <HistoryEntryExtras entry={entry} />
             </div>
           </article>
         ))}
@@ -225,7 +276,7 @@ export const CinematicHistory: React.FC = () => {
         {/* Closing Statement */}
         <div className="history-paragraph text-center py-16">
           <p className="text-2xl lg:text-3xl font-display text-foreground mb-4">
-            {splitIntoWords("And this is just the beginning...")}
+            {splitIntoWords(t.history.closing)}
           </p>
           <div 
             className="decorative-line h-[3px] w-32 mx-auto bg-accent origin-center"
@@ -236,11 +287,17 @@ export const CinematicHistory: React.FC = () => {
       {/* Noscript Fallback */}
       <noscript>
         <div className="max-w-4xl mx-auto space-y-12 mt-12">
-          {companyHistory.map((entry) => (
+          {entries.map((entry) => (
             <article key={entry.year} className="space-y-4">
               <span className="text-sm font-medium text-accent">{entry.year}</span>
               <h3 className="text-2xl font-bold">{entry.title}</h3>
+              <img
+                src={entry.imageUrl}
+                alt={t.history.sceneAlt(entry.year, entry.title)}
+                className="w-full aspect-[16/9] object-cover rounded-2xl"
+              />
               <p className="text-lg text-muted-foreground">{entry.blurb}</p>
+              <HistoryEntryExtras entry={entry} />
             </article>
           ))}
         </div>
@@ -6,40 +6,56 @@
  * - Floating accent orbs in background
  * - Quote callout with special styling
  * - Decorative elements
+ * - Copy supplied as rich-text blocks from the data layer
+ * - Line reveals slide in from the reading-start side (RTL aware)
  */
 
 import React, { useEffect, useRef } from 'react';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import type { StoryBlock } from '@/data/aboutData';
+import { RichTextContent, RichTextWords } from '@/components/about/RichText';
+import { Highlighted } from '@/components/about/Highlighted';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
+import { useI18n } from '@/hooks/useI18n';
 import { cn } from '@/lib/utils';
 
 // Register GSAP plugins
 gsap.registerPlugin(ScrollTrigger);
 
-// Company story content
-const storyContent = {
-  intro: "Every great journey begins with a single step, a spark of inspiration that ignites a flame destined to illuminate the world.",
-  
-  mainParagraph: `Our story is not merely a chronicle of business milestones—it is a testament to the power of belief, the courage to challenge conventions, and the relentless pursuit of excellence that defines who we are. In 2019, from a small garage workshop filled with whiteboards covered in ambitious diagrams and coffee cups that never seemed empty, three visionaries dared to imagine a different future. They saw a world where technology wasn't just a tool, but a bridge connecting human potential to limitless possibilities.
+type BodyParagraph = Extract<StoryBlock, { type: 'paragraph' }>;
 
-The early days were marked by eighteen-hour coding sessions, countless iterations, and the kind of passionate debates that only true believers engage in. Every rejection from investors became fuel for innovation. Every technical challenge became an opportunity to pioneer new solutions. The team grew not through job postings, but through shared conviction—people who believed in the mission found their way to us, drawn by an invisible force that recognized kindred spirits.
+type BlockGroup =
+  | { kind: 'body'; paragraphs: BodyParagraph[] }
+  | { kind: 'single'; block: StoryBlock };
 
-When the world faced unprecedented challenges in 2020, we didn't retreat—we evolved. Remote collaboration became our laboratory for innovation, and the distance between team members became a canvas for creativity. We emerged from that crucible stronger, more resilient, and more certain than ever that our purpose was not just to build products, but to transform how humanity works, creates, and thrives together.`,
+/**
+ * Merge consecutive body paragraphs so they reveal line-by-line together
+ */
+const groupBlocks = (blocks: StoryBlock[]): BlockGroup[] =>
+  blocks.reduce<BlockGroup[]>((groups, block) => {
+    const last = groups[groups.length - 1];
+    if (block.type === 'paragraph' && block.variant === 'body') {
+      if (last?.kind === 'body') {
+        last.paragraphs.push(block);
+      } else {
+        groups.push({ kind: 'body', paragraphs: [block] });
+      }
+    } else {
+      groups.push({ kind: 'single', block });
+    }
+    return groups;
+  }, []);
 
-  quote: "We don't build technology for technology's sake. We build bridges—between ideas and execution, between potential and achievement, between today and tomorrow.",
-  
-  closingParagraph: `Today, our solutions power enterprises across six continents, but our heart remains the same—that garage energy, that relentless curiosity, that unwavering commitment to our customers' success. We measure our achievements not in revenue alone, but in the millions of moments we've helped create: the startup founder who closed their first major deal, the enterprise team that finally broke through their productivity plateau, the innovator who turned their vision into reality. These are the stories that drive us forward, and we're just getting started.`
-};
+interface CompanyStoryProps {
+  blocks: StoryBlock[];
+}
 
-export const CompanyStory: React.FC = () => {
+export const CompanyStory: React.FC<CompanyStoryProps> = ({ blocks }) => {
   const sectionRef = useRef<HTMLElement>(null);
   const titleRef = useRef<HTMLHeadingElement>(null);
-  const introRef = useRef<HTMLParagraphElement>(null);
-  const mainParagraphRef = useRef<HTMLDivElement>(null);
-  const quoteRef = useRef<HTMLQuoteElement>(null);
-  const closingRef = useRef<HTMLParagraphElement>(null);
   const reducedMotion = useReducedMotion();
+  const { t, isRtl } = useI18n();
 
   useEffect(() => {
     if (reducedMotion || !sectionRef.current) return;
@@ -65,9 +81,9 @@ export const CompanyStory: React.FC = () => {
         );
       }
 
-      // Animate intro with wave effect
-      if (introRef.current) {
-        const words = introRef.current.querySelectorAll('.word');
+      // Animate lead paragraphs with wave effect
+      sectionRef.current?.querySelectorAll('.story-lead').forEach((lead) => {
+        const words = lead.querySelectorAll('.word');
         gsap.fromTo(
           words,
           { opacity: 0, y: 20, filter: 'blur(8px)' },
@@ -79,20 +95,20 @@ export const CompanyStory: React.FC = () => {
             stagger: 0.05,
             ease: 'power2.out',
             scrollTrigger: {
-              trigger: introRef.current,
+              trigger: lead,
               start: 'top 80%',
               toggleActions: 'play none none reverse',
             },
           }
         );
-      }
+      });
 
-      // Animate main paragraph - line by line reveal
-      if (mainParagraphRef.current) {
-        const lines = mainParagraphRef.current.querySelectorAll('.paragraph-line');
+      // Animate body paragraphs - line by line reveal
+      sectionRef.current?.querySelectorAll('.story-body').forEach((body) => {
+        const lines = body.querySelectorAll('.paragraph-line');
         gsap.fromTo(
           lines,
-          { opacity: 0, x: -30, filter: 'blur(4px)' },
+          { opacity: 0, x: isRtl ? 30 : -30, filter: 'blur(4px)' },
           {
             opacity: 1,
             x: 0,
@@ -101,19 +117,19 @@ export const CompanyStory: React.FC = () => {
             stagger: 0.15,
             ease: 'power2.out',
             scrollTrigger: {
-              trigger: mainParagraphRef.current,
+              trigger: body,
               start: 'top 75%',
               end: 'bottom 50%',
               toggleActions: 'play none none reverse',
             },
           }
         );
-      }
+      });
 
-      // Animate quote with special effect
-      if (quoteRef.current) {
+      // Animate quotes with special effect
+      sectionRef.current?.querySelectorAll('.story-quote').forEach((quote) => {
         gsap.fromTo(
-          quoteRef.current,
+          quote,
           { opacity: 0, scale: 0.95, y: 40 },
           {
             opacity: 1,
@@ -122,7 +138,7 @@ export const CompanyStory: React.FC = () => {
             duration: 1,
             ease: 'power3.out',
             scrollTrigger: {
-              trigger: quoteRef.current,
+              trigger: quote,
               start: 'top 80%',
               toggleActions: 'play none none reverse',
             },
@@ -130,7 +146,7 @@ export const CompanyStory: React.FC = () => {
         );
 
         // Animate quote marks
-        const quoteMarks = quoteRef.current.querySelectorAll('.quote-mark');
+        const quoteMarks = quote.querySelectorAll('.quote-mark');
         gsap.fromTo(
           quoteMarks,
           { opacity: 0, scale: 0.5 },
@@ -141,17 +157,17 @@ export const CompanyStory: React.FC = () => {
             delay: 0.3,
             ease: 'back.out(1.7)',
             scrollTrigger: {
-              trigger: quoteRef.current,
+              trigger: quote,
               start: 'top 80%',
               toggleActions: 'play none none reverse',
             },
           }
         );
-      }
+      });
 
-      // Animate closing paragraph
-      if (closingRef.current) {
-        const words = closingRef.current.querySelectorAll('.word');
+      // Animate closing paragraphs
+      sectionRef.current?.querySelectorAll('.story-closing').forEach((closing) => {
+        const words = closing.querySelectorAll('.word');
         gsap.fromTo(
           words,
           { opacity: 0, y: 15, filter: 'blur(4px)' },
@@ -163,13 +179,13 @@ export const CompanyStory: React.FC = () => {
             stagger: 0.02,
             ease: 'power2.out',
             scrollTrigger: {
-              trigger: closingRef.current,
+              trigger: closing,
               start: 'top 80%',
               toggleActions: 'play none none reverse',
             },
           }
         );
-      }
+      });
 
       // Animate decorative orbs
       const orbs = sectionRef.current?.querySelectorAll('.story-orb');
@@ -188,25 +204,98 @@ export const CompanyStory: React.FC = () => {
     }, sectionRef);
 
     return () => ctx.revert();
-  }, [reducedMotion]);
+  }, [reducedMotion, blocks, isRtl]);
 
-  // Split text into words for animation
-  const splitIntoWords = (text: string) => {
-    return text.split(' ').map((word, i) => (
-      <span key={i} className="word inline-block mr-[0.25em]">
-        {word}
-      </span>
-    ));
-  };
+  // Render one group of story blocks
+  const renderGroup = (group: BlockGroup, i: number) => {
+    if (group.kind === 'body') {
+      return (
+        <div
+          key={i}
+          className={cn(
+            "story-body text-lg lg:text-xl text-muted-foreground leading-relaxed mb-20",
+            !reducedMotion && "[&_.paragraph-line]:opacity-0"
+          )}
+        >
+          {group.paragraphs.map((paragraph, j) => (
+            <p key={j} className="paragraph-line mb-6">
+              <RichTextContent content={paragraph.content} />
+            </p>
+          ))}
+        </div>
+      );
+    }
+
+    const { block } = group;
+
+    if (block.type === 'quote') {
+      return (
+        <blockquote
+          key={i}
+          className={cn(
+            "story-quote relative glass-card p-8 lg:p-12 my-20 text-center",
+            !reducedMotion && "opacity-0"
+          )}
+        >
+          {/* Quote Marks */}
+          <span 
+            className="quote-mark absolute top-4 start-4 text-8xl font-serif text-accent opacity-20 select-none"
+            aria-hidden="true"
+          >
+            "
+          </span>
+          <span 
+            className="quote-mark absolute bottom-4 end-4 text-8xl font-serif text-accent opacity-20 select-none rotate-180"
+            aria-hidden="true"
+          >
+            "
+          </span>
+          
+          <p className="text-xl lg:text-2xl font-display italic text-foreground/90 relative z-10">
+            <RichTextContent content={block.content} />
+          </p>
+          {block.attribution && (
+            <footer className="mt-6 text-sm text-accent uppercase tracking-wider">
+              — {block.attribution}
+            </footer>
+          )}
+        </blockquote>
+      );
+    }
+
+    if (block.variant === 'lead') {
+      return (
+        <React.Fragment key={i}>
+          <p
+            className={cn(
+              "story-lead text-2xl lg:text-3xl font-display text-foreground/90 leading-relaxed text-center mb-16",
+              !reducedMotion && "[&_.word]:opacity-0"
+            )}
+          >
+            <RichTextWords content={block.content} />
+          </p>
+
+          {/* Decorative Divider */}
+          <div className="flex items-center justify-center gap-4 mb-16">
+            <div className="h-px w-16 bg-gradient-to-r from-transparent to-accent/50" />
+            <div className="w-2 h-2 rounded-full bg-accent/50" />
+            <div className="h-px w-16 bg-gradient-to-l from-transparent to-accent/50" />
+          </div>
+        </React.Fragment>
+      );
+    }
 
-  // Split paragraph into lines for animation
-  const splitIntoParagraphLines = (text: string) => {
-    const sentences = text.split('. ').filter(Boolean);
-    return sentences.map((sentence, i) => (
-      <span key={i} className="paragraph-line block mb-6">
-        {sentence}{i < sentences.length - 1 ? '.' : ''}
-      </span>
-    ));
+    return (
+      <p
+        key={i}
+        className={cn(
+          "story-closing text-lg lg:text-xl text-muted-foreground leading-relaxed text-center",
+          !reducedMotion && "[&_.word]:opacity-0"
+        )}
+      >
+        <RichTextWords content={block.content} />
+      </p>
+    );
   };
 
   return (
@@ -238,7 +327,7 @@ export const CompanyStory: React.FC = () => {
         {/* Section Header */}
         <div className="text-center mb-16 lg:mb-24">
           <span className="inline-flex items-center gap-2 glass-card px-4 py-2 text-sm text-accent mb-6">
-            ✦ Our Story
+            {t.story.badge}
           </span>
           <h2
             ref={titleRef}
@@ -248,95 +337,41 @@ export const CompanyStory: React.FC = () => {
               !reducedMotion && "opacity-0"
             )}
           >
-            The Heart of{' '}
-            <span className="gradient-text">Innovation</span>
+            <Highlighted text={t.story.title} />
           </h2>
         </div>
 
         {/* Story Content */}
         <div className="max-w-4xl mx-auto">
-          {/* Intro */}
-          <p
-            ref={introRef}
-            className={cn(
-              "text-2xl lg:text-3xl font-display text-foreground/90 leading-relaxed text-center mb-16",
-              !reducedMotion && "[&_.word]:opacity-0"
-            )}
-          >
-            {splitIntoWords(storyContent.intro)}
-          </p>
-
-          {/* Decorative Divider */}
-          <div className="flex items-center justify-center gap-4 mb-16">
-            <div className="h-px w-16 bg-gradient-to-r from-transparent to-accent/50" />
-            <div className="w-2 h-2 rounded-full bg-accent/50" />
-            <div className="h-px w-16 bg-gradient-to-l from-transparent to-accent/50" />
-          </div>
-
-          {/* Main Paragraph */}
-          <div
-            ref={mainParagraphRef}
-            className={cn(
-              "text-lg lg:text-xl text-muted-foreground leading-relaxed mb-20",
-              !reducedMotion && "[&_.paragraph-line]:opacity-0"
-            )}
-          >
-            {splitIntoParagraphLines(storyContent.mainParagraph)}
-          </div>
-
-          {/* Quote Callout */}
-          <blockquote
-            ref={quoteRef}
-            className={cn(
-              "relative glass-card p-8 lg:p-12 my-20 text-center",
-              !reducedMotion && "opacity-0"
-            )}
-          >
-            {/* Quote Marks */}
-            <span 
-              className="quote-mark absolute top-4 left-4 text-8xl font-serif text-accent opacity-20 select-none"
-              aria-hidden="true"
-            >
-              "
-            </span>
-            <span 
-              className="quote-mark absolute bottom-4 right-4 text-8xl font-serif text-accent opacity-20 select-none rotate-180"
-              aria-hidden="true"
-            >
-              "
-            </span>
-            
-            <p className="text-xl lg:text-2xl font-display italic text-foreground/90 relative z-10">
-              {storyContent.quote}
-            </p>
-            <footer className="mt-6 text-sm text-accent uppercase tracking-wider">
-              — Our Founding Principle
-            </footer>
-          </blockquote>
-
-          {/* Closing Paragraph */}
-          <p
-            ref={closingRef}
-            className={cn(
-              "text-lg lg:text-xl text-muted-foreground leading-relaxed text-center",
-              !reducedMotion && "[&_.word]:opacity-0"
-            )}
-          >
-            {splitIntoWords(storyContent.closingParagraph)}
-          </p>
+          {groupBlocks(blocks).map(renderGroup)}
         </div>
       </div>
 
       {/* Noscript Fallback */}
       <noscript>
         <div className="section-container">
-          <h2 className="text-4xl font-bold text-center mb-8">The Heart of Innovation</h2>
-          <p className="text-xl text-center mb-8">{storyContent.intro}</p>
-          <p className="text-lg text-muted-foreground mb-8">{storyContent.mainParagraph}</p>
-          <blockquote className="glass-card p-8 my-8 text-center italic">
-            "{storyContent.quote}"
-          </blockquote>
-          <p className="text-lg text-muted-foreground text-center">{storyContent.closingParagraph}</p>
+          <h2 className="text-4xl font-bold text-center mb-8">
+            {t.story.title.prefix}{t.story.title.highlight}{t.story.title.suffix}
+          </h2>
+          {blocks.map((block, i) =>
+            block.type === 'quote' ? (
+              <blockquote key={i} className="glass-card p-8 my-8 text-center italic">
+                "<RichTextContent content={block.content} />"
+                {block.attribution && <footer className="mt-4 not-italic">— {block.attribution}</footer>}
+              </blockquote>
+            ) : (
+              <p
+                key={i}
+                className={cn(
+                  "mb-8",
+                  block.variant === 'lead' ? "text-xl text-center" : "text-lg text-muted-foreground",
+                  block.variant === 'closing' && "text-center"
+                )}
+              >
+                <RichTextContent content={block.content} />
+              </p>
+            )
+          )}
         </div>
       </noscript>
     </section>
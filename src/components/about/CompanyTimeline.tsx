@@ -2,36 +2,106 @@
  * CompanyTimeline Component
  * 
  * Scroll-driven timeline (2021-2025) with:
- * - Vertical progress indicator on the left
- * - Real-time year tracking as you scroll
- * - Gallery image click to change hero image
+ * - Vertical layout: stacked year cards and a progress indicator docked to
+ *   the inline end (right, or left in RTL)
+ * - Horizontal layout (VITE_TIMELINE_LAYOUT=horizontal): the cards pin and
+ *   vertical scroll drives a horizontal track that snaps to each year, with
+ *   a horizontal scrubber (TimelineScrubber). Falls back to the vertical
+ *   layout below the lg breakpoint and under reduced motion
+ * - Active year from the scroll-spy engine (useScrollSpy): card geometry with
+ *   hysteresis, shared with the indicator through ScrollSpyContext
+ *   (reported as timeline_year_reached)
+ * - Gallery thumbnails open a full-screen lightbox (TimelineLightbox) whose
+ *   current photo also becomes the card's hero image
+ * - Photo deep links like #timeline-2023/photo/2 (photo 1 is the hero image)
+ * - Looping video/GIF layer for years with media (TimelineMedia)
+ * - Numeric KPIs that count up when their card becomes active, with
+ *   year-over-year delta badges (KpiBadge)
+ * - "Growth at a glance" trend charts that follow the active year
+ *   (KpiTrendChart, loaded on demand so recharts stays out of the main bundle)
+ * - Links to each year's milestone page (/about/timeline/{year}) and to the
+ *   side-by-side year comparison (/about/compare/{from}...{to})
+ * - Keyboard navigation (arrow keys, j / k, Home / End) that scrolls to a
+ *   year, focuses its card and updates the #timeline-{year} hash; roving
+ *   focus in the indicator and a tappable year scrubber on small screens
  * - Medium-sized images with hover animations
  */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { Suspense, lazy, useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
-import { timelineData, type TimelineYear } from '@/data/aboutData';
+import { Link } from 'react-router-dom';
+import { ArrowLeftRight, ArrowRight, Expand } from 'lucide-react';
+import { toGalleryImage, type TimelineYear } from '@/data/aboutData';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
+import { useMediaQuery } from '@/hooks/useMediaQuery';
+import { useScrollSpy, useScrollSpyContext, useScrollSpyItem } from '@/hooks/useScrollSpy';
+import { ScrollSpyContext } from '@/components/scroll-spy/context';
+import { useI18n } from '@/hooks/useI18n';
+import { useInert } from '@/hooks/useInert';
+import { track } from '@/lib/analytics';
+import { Highlighted } from '@/components/about/Highlighted';
+import { TimelineMedia } from '@/components/about/TimelineMedia';
+import { TimelineLightbox } from '@/components/about/TimelineLightbox';
+import { KpiBadge } from '@/components/about/KpiBadge';
+import { TimelineScrubber } from '@/components/about/TimelineScrubber';
+import { MobileYearScrubber } from '@/components/about/MobileYearScrubber';
+import { Skeleton } from '@/components/ui/skeleton';
+import { timelineKpiDeltas, type KpiDelta } from '@/lib/kpis';
+import { PHOTO_HASH, timelineComparePath, timelineYearPath } from '@/lib/timelineRoutes';
+import { stepYearIndex, yearStepForKey } from '@/lib/timelineKeys';
 import { cn } from '@/lib/utils';
 
 // Register GSAP plugins
 gsap.registerPlugin(ScrollTrigger);
 
+// recharts is large; fetch the charts only when a timeline renders
+const KpiTrendChart = lazy(() => import('@/components/about/KpiTrendChart'));
+
+/** Gallery thumbnails shown before collapsing the rest into a "+N" tile */
+const VISIBLE_THUMBNAILS = 3;
+
+const YEAR_HASH = /^#timeline-(\d{4})$/;
+
+export type TimelineLayout = 'vertical' | 'horizontal';
+
+/** Layout chosen for this deployment */
+const DEFAULT_LAYOUT: TimelineLayout =
+  import.meta.env.VITE_TIMELINE_LAYOUT === 'horizontal' ? 'horizontal' : 'vertical';
+
 interface TimelineCardProps {
   data: TimelineYear;
-  index: number;
   reducedMotion: boolean;
   isActive: boolean;
+  /** Panel of the pinned horizontal track rather than a stacked card */
+  horizontal: boolean;
+  /** Year-over-year deltas, aligned with data.kpis */
+  kpiDeltas: Array<KpiDelta | null>;
 }
 
 /**
  * Individual Timeline Year Card
  */
-const TimelineCard: React.FC<TimelineCardProps> = ({ data, index, reducedMotion, isActive }) => {
-  const cardRef = useRef<HTMLDivElement>(null);
+const TimelineCard: React.FC<TimelineCardProps> = ({ data, reducedMotion, isActive, horizontal, kpiDeltas }) => {
+  const cardRef = useRef<HTMLDivElement | null>(null);
+  const spyRef = useScrollSpyItem(String(data.year));
   const [isHovered, setIsHovered] = useState(false);
   const [activeImage, setActiveImage] = useState(data.heroImage);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const { locale, t } = useI18n();
+
+  // The hero image is photo 1 of the lightbox, followed by the gallery
+  const photos = useMemo(
+    () => [{ src: data.heroImage }, ...data.gallery.map(toGalleryImage)],
+    [data.heroImage, data.gallery]
+  );
+  const thumbnails = photos.slice(1, VISIBLE_THUMBNAILS + 1);
+  const hiddenCount = photos.length - 1 - thumbnails.length;
+
+  const setCardRef = useCallback((element: HTMLDivElement | null) => {
+    cardRef.current = element;
+    spyRef?.(element);
+  }, [spyRef]);
 
   // Reset active image when card becomes active
   useEffect(() => {
@@ -41,7 +111,8 @@ const TimelineCard: React.FC<TimelineCardProps> = ({ data, index, reducedMotion,
   }, [isActive, data.heroImage]);
 
   useEffect(() => {
-    if (reducedMotion || !cardRef.current) return;
+    // Horizontal panels share one vertical position, so they have no scroll entrance
+    if (reducedMotion || horizontal || !cardRef.current) return;
 
     const ctx = gsap.context(() => {
       // Animate card entrance
@@ -87,20 +158,52 @@ const TimelineCard: React.FC<TimelineCardProps> = ({ data, index, reducedMotion,
     }, cardRef);
 
     return () => ctx.revert();
-  }, [reducedMotion]);
+  }, [reducedMotion, horizontal]);
 
-  const handleGalleryClick = useCallback((imageSrc: string) => {
-    setActiveImage(imageSrc);
-  }, []);
+  // Open the lightbox from a #timeline-{year}/photo/{n} deep link
+  useEffect(() => {
+    const openFromHash = () => {
+      const match = PHOTO_HASH.exec(window.location.hash);
+      if (!match || Number(match[1]) !== data.year) return;
+      const index = Math.min(Math.max(Number(match[2]), 1), photos.length) - 1;
+      cardRef.current?.scrollIntoView({ block: 'center', behavior: reducedMotion ? 'auto' : 'smooth' });
+      setLightboxIndex(index);
+    };
+
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, [data.year, photos.length, reducedMotion]);
+
+  const handleLightboxIndexChange = useCallback((index: number) => {
+    setActiveImage(photos[index].src);
+  }, [photos]);
+
+  const openLightbox = (index: number) => {
+    setActiveImage(photos[index].src);
+    setLightboxIndex(index);
+  };
+
+  // Media takes the hero slot until a gallery image is picked
+  const showMedia = Boolean(data.mediaUrl && data.mediaType) && activeImage === data.heroImage;
+  const imageClassName = cn(
+    "transition-all duration-700",
+    isHovered ? "scale-110 brightness-110" : "scale-100 brightness-100"
+  );
 
   return (
     <div
-      ref={cardRef}
+      ref={setCardRef}
       id={`timeline-${data.year}`}
+      data-timeline-year={data.year}
+      // Keyboard navigation moves focus into the card it scrolls to
+      tabIndex={-1}
+      aria-current={isActive ? 'step' : undefined}
       className={cn(
-        "timeline-card relative",
+        "timeline-card relative rounded-2xl focus-ring",
         "grid gap-8 lg:gap-12 lg:grid-cols-[1fr,1.2fr]",
         "transition-all duration-500",
+        horizontal && "w-[min(80cqw,72rem)] flex-shrink-0 items-center",
         isActive && "scale-[1.02]"
       )}
     >
@@ -113,20 +216,29 @@ const TimelineCard: React.FC<TimelineCardProps> = ({ data, index, reducedMotion,
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
       >
-        <img
-          src={activeImage}
-          alt={`Company milestone ${data.year}`}
-          loading="lazy"
-          className={cn(
-            "w-full h-full object-cover transition-all duration-700",
-            isHovered ? "scale-110 brightness-110" : "scale-100 brightness-100"
-          )}
-        />
+        {showMedia ? (
+          <TimelineMedia
+            src={data.mediaUrl}
+            type={data.mediaType}
+            poster={data.mediaPoster ?? data.heroImage}
+            year={data.year}
+            alt={t.timeline.milestoneAlt(data.year)}
+            reducedMotion={reducedMotion}
+            className={imageClassName}
+          />
+        ) : (
+          <img
+            src={activeImage}
+            alt={t.timeline.milestoneAlt(data.year)}
+            loading="lazy"
+            className={cn("w-full h-full object-cover", imageClassName)}
+          />
+        )}
         
         {/* Hover Overlay */}
         <div 
           className={cn(
-            "absolute inset-0 bg-gradient-to-t from-background/90 via-background/20 to-transparent",
+            "absolute inset-0 pointer-events-none bg-gradient-to-t from-background/90 via-background/20 to-transparent",
             "transition-opacity duration-500",
             isHovered ? "opacity-100" : "opacity-60"
           )}
@@ -135,7 +247,7 @@ const TimelineCard: React.FC<TimelineCardProps> = ({ data, index, reducedMotion,
         {/* Year Badge */}
         <div 
           className={cn(
-            "absolute bottom-4 left-4 glass-card px-5 py-3",
+            "absolute bottom-4 start-4 glass-card px-5 py-3 pointer-events-none",
             "transition-all duration-500",
             isHovered && "scale-110 shadow-2xl",
             isActive && "ring-2 ring-accent"
@@ -145,6 +257,22 @@ const TimelineCard: React.FC<TimelineCardProps> = ({ data, index, reducedMotion,
             {data.year}
           </span>
         </div>
+
+        {/* Open Lightbox */}
+        {!showMedia && (
+          <button
+            type="button"
+            onClick={() => openLightbox(Math.max(0, photos.findIndex((photo) => photo.src === activeImage)))}
+            className={cn(
+              "absolute top-4 end-4 glass-card p-2 rounded-full",
+              "transition-opacity duration-300 focus-ring",
+              isHovered ? "opacity-100" : "opacity-70"
+            )}
+            aria-label={t.timeline.lightbox.open(data.year)}
+          >
+            <Expand className="w-5 h-5" />
+          </button>
+        )}
       </div>
 
       {/* Content */}
@@ -157,30 +285,31 @@ const TimelineCard: React.FC<TimelineCardProps> = ({ data, index, reducedMotion,
         {/* KPI Badges */}
         <div className="flex flex-wrap gap-4">
           {data.kpis.map((kpi, i) => (
-            <div
-              key={i}
-              className={cn(
-                "kpi-badge glass-card px-5 py-4 flex flex-col items-center",
-                "min-w-[100px] transition-all duration-300",
-                "hover:scale-105 hover:shadow-lg hover:shadow-accent/20"
-              )}
-            >
-              <span className="text-2xl lg:text-3xl font-bold text-accent">
-                {kpi.value}
-              </span>
-              <span className="text-xs text-muted-foreground uppercase tracking-wider mt-1">
-                {kpi.label}
-              </span>
-            </div>
+            <KpiBadge
+              key={kpi.label}
+              kpi={kpi}
+              delta={kpiDeltas[i] ?? null}
+              isActive={isActive}
+              reducedMotion={reducedMotion}
+            />
           ))}
         </div>
 
-        {/* Gallery Thumbnails - Clickable */}
+        {/* Milestone Page */}
+        <Link
+          to={timelineYearPath(data.year, locale)}
+          className="inline-flex items-center gap-2 text-accent underline-offset-4 hover:underline focus-ring rounded-sm w-fit"
+        >
+          {t.timeline.milestoneLink(data.year)}
+          <ArrowRight className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+        </Link>
+
+        {/* Gallery Thumbnails - open the lightbox */}
         {data.gallery.length > 0 && (
           <div className="flex gap-3 overflow-x-auto pb-2">
             {/* Hero image as first thumbnail */}
             <button
-              onClick={() => handleGalleryClick(data.heroImage)}
+              onClick={() => openLightbox(0)}
               className={cn(
                 "w-16 h-16 rounded-lg flex-shrink-0 overflow-hidden",
                 "transition-all duration-300 cursor-pointer",
@@ -189,60 +318,102 @@ const TimelineCard: React.FC<TimelineCardProps> = ({ data, index, reducedMotion,
                   ? "ring-2 ring-accent opacity-100" 
                   : "opacity-60 hover:opacity-100"
               )}
-              aria-label={`View main ${data.year} image`}
+              aria-label={t.timeline.viewMainImage(data.year)}
             >
               <img
                 src={data.heroImage}
-                alt={`${data.year} main`}
+                alt={t.timeline.mainImageAlt(data.year)}
                 className="w-full h-full object-cover"
               />
             </button>
             
-            {data.gallery.slice(0, 3).map((img, i) => (
+            {thumbnails.map((img, i) => (
               <button
-                key={i}
-                onClick={() => handleGalleryClick(img)}
+                key={img.src}
+                onClick={() => openLightbox(i + 1)}
                 className={cn(
                   "w-16 h-16 rounded-lg flex-shrink-0 overflow-hidden",
                   "transition-all duration-300 cursor-pointer",
                   "hover:scale-110 focus-ring",
-                  activeImage === img 
+                  activeImage === img.src 
                     ? "ring-2 ring-accent opacity-100" 
                     : "opacity-60 hover:opacity-100"
                 )}
-                aria-label={`View ${data.year} gallery image ${i + 1}`}
+                aria-label={t.timeline.viewGalleryImage(data.year, i + 1)}
               >
                 <img
-                  src={img}
-                  alt={`${data.year} gallery ${i + 1}`}
+                  src={img.src}
+                  alt={img.caption ?? t.timeline.galleryImageAlt(data.year, i + 1)}
                   loading="lazy"
                   className="w-full h-full object-cover"
                 />
               </button>
             ))}
+
+            {hiddenCount > 0 && (
+              <button
+                onClick={() => openLightbox(thumbnails.length + 1)}
+                className={cn(
+                  "w-16 h-16 rounded-lg flex-shrink-0 glass-card",
+                  "flex items-center justify-center text-sm font-bold text-accent",
+                  "transition-all duration-300 hover:scale-110 focus-ring"
+                )}
+                aria-label={t.timeline.lightbox.morePhotos(hiddenCount)}
+              >
+                +{hiddenCount}
+              </button>
+            )}
           </div>
         )}
       </div>
+
+      <TimelineLightbox
+        year={data.year}
+        images={photos}
+        openIndex={lightboxIndex}
+        onIndexChange={handleLightboxIndexChange}
+        onClose={() => setLightboxIndex(null)}
+      />
     </div>
   );
 };
 
 /**
- * Vertical Year Indicator Component - Fixed on RIGHT side
+ * Vertical Year Indicator Component - Fixed on the inline-end side
+ *
+ * The dots share one tab stop (the active year); arrow keys, j / k and
+ * Home / End move focus between them and scroll the timeline along.
  */
 const VerticalYearIndicator: React.FC<{ 
-  activeYear: number;
-  progress: number;
-  isVisible: boolean;
-}> = ({ activeYear, progress, isVisible }) => {
-  const years = timelineData.map(d => d.year);
+  years: number[];
+  /** focusCard is false while focus stays on the indicator */
+  onSelectYear: (year: number, focusCard: boolean) => void;
+}> = ({ years, onSelectYear }) => {
+  const { t, isRtl } = useI18n();
+  const spy = useScrollSpyContext();
+  const dots = useRef(new Map<number, HTMLAnchorElement>());
+  const activeYear = spy?.activeId ? Number(spy.activeId) : years[0];
+  const progress = (spy?.overallProgress ?? 0) * 100;
+  const isVisible = spy?.inView ?? false;
+  const indicatorRef = useInert<HTMLDivElement>(!isVisible);
+
+  const handleKeyDown = (event: React.KeyboardEvent, index: number) => {
+    const step = yearStepForKey(event, isRtl);
+    if (!step) return;
+    event.preventDefault();
+    const year = years[stepYearIndex(step, index, years.length)];
+    dots.current.get(year)?.focus();
+    onSelectYear(year, false);
+  };
   
   return (
     <div 
+      ref={indicatorRef}
+      aria-hidden={!isVisible}
       className={cn(
-        "hidden lg:flex fixed right-8 xl:right-12 top-1/2 -translate-y-1/2 z-50",
+        "hidden lg:flex fixed end-8 xl:end-12 top-1/2 -translate-y-1/2 z-50",
         "transition-all duration-500",
-        isVisible ? "opacity-100 translate-x-0" : "opacity-0 translate-x-10 pointer-events-none"
+        isVisible ? "opacity-100 translate-x-0" : "opacity-0 translate-x-10 rtl:-translate-x-10 pointer-events-none"
       )}
     >
       {/* Glass Background */}
@@ -258,7 +429,7 @@ const VerticalYearIndicator: React.FC<{
           />
           
           {/* Year Dots */}
-          <div className="relative flex flex-col gap-10">
+          <nav aria-label={t.timeline.yearNavLabel} className="relative flex flex-col gap-10">
             {years.map((year, index) => {
               const isActive = year === activeYear;
               const isPast = years.indexOf(activeYear) >= index;
@@ -266,9 +437,20 @@ const VerticalYearIndicator: React.FC<{
               return (
                 <a
                   key={year}
+                  ref={(element) => {
+                    if (element) dots.current.set(year, element);
+                    else dots.current.delete(year);
+                  }}
                   href={`#timeline-${year}`}
-                  className="flex items-center gap-4 group relative"
-                  aria-label={`Jump to year ${year}`}
+                  tabIndex={isActive ? 0 : -1}
+                  onClick={(event) => {
+                    event.preventDefault();
+                    onSelectYear(year, true);
+                  }}
+                  onKeyDown={(event) => handleKeyDown(event, index)}
+                  className="flex items-center gap-4 group relative rounded-full focus-ring"
+                  aria-label={t.timeline.jumpToYear(year)}
+                  aria-current={isActive ? 'step' : undefined}
                 >
                   {/* Dot */}
                   <div 
@@ -312,18 +494,18 @@ const VerticalYearIndicator: React.FC<{
                   
                   {/* Active Indicator Arrow */}
                   {isActive && (
-                    <div className="absolute -left-3 top-1/2 -translate-y-1/2">
+                    <div className="absolute -start-3 top-1/2 -translate-y-1/2 rtl:rotate-180">
                       <div className="w-0 h-0 border-t-[6px] border-t-transparent border-b-[6px] border-b-transparent border-r-[8px] border-r-accent animate-pulse" />
                     </div>
                   )}
                 </a>
               );
             })}
-          </div>
+          </nav>
           
           {/* Current Year Display */}
           <div className="mt-6 pt-4 border-t border-border/30 text-center">
-            <span className="text-xs text-muted-foreground uppercase tracking-wider">Now</span>
+            <span className="text-xs text-muted-foreground uppercase tracking-wider">{t.timeline.now}</span>
             <div className="text-2xl font-display font-bold gradient-text">{activeYear}</div>
           </div>
         </div>
@@ -335,13 +517,36 @@ const VerticalYearIndicator: React.FC<{
 /**
  * Main CompanyTimeline Component
  */
-export const CompanyTimeline: React.FC = () => {
+interface CompanyTimelineProps {
+  years: TimelineYear[];
+  /** Defaults to VITE_TIMELINE_LAYOUT, or vertical when unset */
+  layout?: TimelineLayout;
+}
+
+export const CompanyTimeline: React.FC<CompanyTimelineProps> = ({ years: timelineData, layout = DEFAULT_LAYOUT }) => {
   const sectionRef = useRef<HTMLElement>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
-  const [activeYear, setActiveYear] = useState(timelineData[0].year);
-  const [scrollProgress, setScrollProgress] = useState(0);
-  const [isIndicatorVisible, setIsIndicatorVisible] = useState(false);
+  const pinRef = useRef<HTMLDivElement>(null);
+  const trackTrigger = useRef<ScrollTrigger | null>(null);
   const reducedMotion = useReducedMotion();
+  const isWide = useMediaQuery('(min-width: 1024px)');
+  const isHorizontal = layout === 'horizontal' && isWide && !reducedMotion;
+  // Vertical layout: the spy follows the cards; horizontal: the pinned track drives the year
+  const spy = useScrollSpy({ offset: 0.5, hysteresis: 64, enabled: !isHorizontal });
+  const [trackState, setTrackState] = useState({ year: timelineData[0].year, progress: 0, visible: false });
+  const activeYear = isHorizontal ? trackState.year : spy.activeId ? Number(spy.activeId) : timelineData[0].year;
+  const scrollProgress = isHorizontal ? trackState.progress : spy.overallProgress * 100;
+  const isIndicatorVisible = isHorizontal ? trackState.visible : spy.inView;
+  const { locale, t, formatKpi, isRtl } = useI18n();
+  const kpiDeltas = useMemo(() => timelineKpiDeltas(timelineData), [timelineData]);
+  const reachedYears = useRef(new Set<number>());
+
+  // Report each year once, and only after the timeline is actually on screen
+  useEffect(() => {
+    if (!isIndicatorVisible || reachedYears.current.has(activeYear)) return;
+    reachedYears.current.add(activeYear);
+    track({ type: 'timeline_year_reached', year: activeYear });
+  }, [activeYear, isIndicatorVisible]);
 
   useEffect(() => {
     if (!sectionRef.current) return;
@@ -367,136 +572,257 @@ export const CompanyTimeline: React.FC = () => {
         );
       }
 
-      // Track scroll progress and active year
-      if (timelineRef.current) {
-        ScrollTrigger.create({
-          trigger: timelineRef.current,
-          start: 'top 80%',
-          end: 'bottom 20%',
-          onEnter: () => setIsIndicatorVisible(true),
-          onLeave: () => setIsIndicatorVisible(false),
-          onEnterBack: () => setIsIndicatorVisible(true),
-          onLeaveBack: () => setIsIndicatorVisible(false),
-          onUpdate: (self) => {
-            const progress = self.progress * 100;
-            setScrollProgress(progress);
-            
-            // Calculate which year should be active based on scroll position
-            const yearIndex = Math.min(
-              Math.floor(self.progress * timelineData.length),
-              timelineData.length - 1
-            );
-            setActiveYear(timelineData[yearIndex].year);
-          },
-        });
+      // Horizontal layout: pin the track and scrub it sideways, snapping to each year
+      if (isHorizontal && timelineRef.current && pinRef.current) {
+        const trackElement = timelineRef.current;
+        const pinElement = pinRef.current;
+        const lastIndex = timelineData.length - 1;
+        const distance = () => Math.max(0, trackElement.scrollWidth - pinElement.clientWidth);
 
-        // Individual year tracking for more precise detection
-        timelineData.forEach((data) => {
-          const cardElement = document.getElementById(`timeline-${data.year}`);
-          if (cardElement) {
-            ScrollTrigger.create({
-              trigger: cardElement,
-              start: 'top 50%',
-              end: 'bottom 50%',
-              onEnter: () => setActiveYear(data.year),
-              onEnterBack: () => setActiveYear(data.year),
-            });
-          }
+        const tween = gsap.to(trackElement, {
+          x: () => distance() * (isRtl ? 1 : -1),
+          ease: 'none',
+          scrollTrigger: {
+            trigger: pinElement,
+            pin: true,
+            start: 'top top',
+            end: () => `+=${distance()}`,
+            scrub: 0.5,
+            invalidateOnRefresh: true,
+            snap: lastIndex > 0
+              ? { snapTo: 1 / lastIndex, duration: { min: 0.2, max: 0.6 }, ease: 'power1.inOut' }
+              : undefined,
+            onToggle: (self) => setTrackState((prev) => ({ ...prev, visible: self.isActive })),
+            onUpdate: (self) => {
+              setTrackState((prev) => ({
+                ...prev,
+                progress: self.progress * 100,
+                year: timelineData[Math.round(self.progress * lastIndex)].year,
+              }));
+            },
+          },
         });
+        trackTrigger.current = tween.scrollTrigger ?? null;
       }
     }, sectionRef);
 
-    return () => ctx.revert();
-  }, [reducedMotion]);
+    return () => {
+      trackTrigger.current = null;
+      ctx.revert();
+    };
+  }, [reducedMotion, timelineData, isHorizontal, isRtl]);
+
+  // Scroll the page to where a share of the horizontal track is in view
+  const seekTrack = useCallback((progress: number, smooth = false) => {
+    const trigger = trackTrigger.current;
+    if (!trigger) return;
+    window.scrollTo({
+      top: trigger.start + (trigger.end - trigger.start) * (progress / 100),
+      behavior: smooth ? 'smooth' : 'auto',
+    });
+  }, []);
+
+  const seekYear = useCallback((year: number) => {
+    const index = timelineData.findIndex((data) => data.year === year);
+    if (index < 0) return;
+    seekTrack(timelineData.length > 1 ? (index / (timelineData.length - 1)) * 100 : 0, true);
+  }, [timelineData, seekTrack]);
+
+  /**
+   * Bring a year into view, move focus into its card and mirror it in the URL hash
+   */
+  const goToYear = useCallback((year: number, focusCard = true) => {
+    const card = sectionRef.current?.querySelector<HTMLElement>(`[data-timeline-year="${year}"]`);
+    if (!card) return;
+
+    if (isHorizontal) {
+      seekYear(year);
+    } else {
+      card.scrollIntoView({ block: 'center', behavior: reducedMotion ? 'auto' : 'smooth' });
+    }
+    if (focusCard) card.focus({ preventScroll: true });
+    // replaceState does not fire hashchange, so the hash listeners stay out of the way
+    window.history.replaceState(window.history.state, '', `#timeline-${year}`);
+  }, [isHorizontal, reducedMotion, seekYear]);
+
+  // Keyboard shortcuts while focus is in the timeline or its year indicators
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented) return;
+      const step = yearStepForKey(event, isRtl);
+      const target = event.target instanceof HTMLElement ? event.target : null;
+      if (!step || !target) return;
+
+      // The indicators render inside the section, so this covers them too
+      if (!sectionRef.current?.contains(target)) return;
+      // Leave keys to form fields and widgets that use them
+      if (target.closest('input, textarea, select, [contenteditable="true"], [role="slider"]')) return;
+
+      const years = timelineData.map((data) => data.year);
+      const focusedYear = Number(target.closest('[data-timeline-year]')?.getAttribute('data-timeline-year'));
+      const current = years.includes(focusedYear) ? focusedYear : activeYear;
+      const year = years[stepYearIndex(step, years.indexOf(current), years.length)];
+
+      event.preventDefault();
+      goToYear(year);
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [timelineData, activeYear, isRtl, goToYear]);
+
+  // Year anchors (#timeline-2023): the cards render after the content query, too late for the
+  // browser's own jump, and a translated track has to seek instead of scrolling to the card
+  const handledInitialHash = useRef(false);
+  useEffect(() => {
+    const goToHashYear = () => {
+      const match = YEAR_HASH.exec(window.location.hash);
+      if (match) goToYear(Number(match[1]), false);
+    };
+
+    if (!handledInitialHash.current) {
+      handledInitialHash.current = true;
+      goToHashYear();
+    }
+    window.addEventListener('hashchange', goToHashYear);
+    return () => window.removeEventListener('hashchange', goToHashYear);
+  }, [goToYear]);
 
   return (
-    <section 
-      ref={sectionRef}
-      className="section-container relative"
-      aria-labelledby="timeline-title"
-    >
-      {/* Vertical Year Indicator - Right Side */}
-      <VerticalYearIndicator 
-        activeYear={activeYear} 
-        progress={scrollProgress} 
-        isVisible={isIndicatorVisible}
-      />
+    <ScrollSpyContext.Provider value={spy}>
+      <section 
+        ref={sectionRef}
+        className="section-container relative"
+        aria-labelledby="timeline-title"
+        aria-describedby="timeline-keyboard-hint"
+      >
+        {isHorizontal ? (
+          <TimelineScrubber
+            years={timelineData.map(d => d.year)}
+            activeYear={activeYear}
+            progress={scrollProgress}
+            isVisible={isIndicatorVisible}
+            onSeek={seekTrack}
+            onSelectYear={goToYear}
+          />
+        ) : (
+          /* Vertical Year Indicator - Inline-end side */
+          <VerticalYearIndicator years={timelineData.map(d => d.year)} onSelectYear={goToYear} />
+        )}
 
-      {/* Section Header */}
-      <div className="section-title mb-16 text-center">
-        <h2 
-          id="timeline-title"
-          className="text-4xl lg:text-6xl font-display font-bold mb-4"
-        >
-          The <span className="gradient-text">Company Way</span>
-        </h2>
-        <p className="text-xl text-muted-foreground max-w-2xl mx-auto mb-8">
-          Five years of growth, innovation, and transformation. Scroll to explore our journey.
-        </p>
-        
-        {/* Mobile Progress Bar */}
-        <div className="lg:hidden max-w-md mx-auto">
-          <div className="h-1 bg-muted rounded-full overflow-hidden">
-            <div 
-              className="h-full bg-accent transition-all duration-300"
-              style={{ width: `${scrollProgress}%` }}
-            />
-          </div>
-          <div className="flex justify-between mt-2 text-sm text-muted-foreground">
-            <span>{timelineData[0].year}</span>
-            <span className="font-bold text-accent">{activeYear}</span>
-            <span>{timelineData[timelineData.length - 1].year}</span>
-          </div>
+        {/* Mobile Year Scrubber */}
+        <MobileYearScrubber
+          years={timelineData.map(d => d.year)}
+          activeYear={activeYear}
+          progress={scrollProgress}
+          isVisible={isIndicatorVisible}
+          onSelectYear={goToYear}
+        />
+
+        {/* Section Header */}
+        <div className="section-title mb-16 text-center">
+          <h2 
+            id="timeline-title"
+            className="text-4xl lg:text-6xl font-display font-bold mb-4"
+          >
+            <Highlighted text={t.timeline.title} />
+          </h2>
+          <p className="text-xl text-muted-foreground max-w-2xl mx-auto mb-8">
+            {t.timeline.subtitle}
+          </p>
+          <Link
+            to={timelineComparePath(timelineData[0].year, timelineData[timelineData.length - 1].year, locale)}
+            className="inline-flex items-center gap-2 mb-8 text-accent underline-offset-4 hover:underline focus-ring rounded-sm"
+          >
+            <ArrowLeftRight className="w-4 h-4" aria-hidden="true" />
+            {t.compare.entry}
+          </Link>
+          
+          <p id="timeline-keyboard-hint" className="hidden lg:block text-sm text-muted-foreground">
+            {t.timeline.keyboardHint}
+          </p>
         </div>
-      </div>
 
-      {/* Timeline Cards - removed left padding since indicator is now on right */}
-      <div ref={timelineRef} className="space-y-24 lg:space-y-32">
-        {timelineData.map((data, index) => (
-          <TimelineCard
-            key={data.year}
-            data={data}
-            index={index}
+        {/* Growth at a glance */}
+        <Suspense fallback={<Skeleton className="h-[320px] rounded-2xl mb-24 max-w-5xl mx-auto" />}>
+          <KpiTrendChart
+            years={timelineData}
+            activeYear={activeYear}
             reducedMotion={reducedMotion}
-            isActive={data.year === activeYear}
+            className="mb-24 max-w-5xl mx-auto"
           />
-        ))}
-      </div>
+        </Suspense>
 
-      {/* End Marker */}
-      <div className="mt-24 text-center">
-        <div className="inline-flex items-center gap-4 glass-card px-8 py-4">
-          <span className="text-2xl font-display font-bold gradient-text">
-            The Future Awaits
-          </span>
+        {isHorizontal ? (
+          /* Pinned viewport; the track is padded so the first and last panels can center */
+          <div ref={pinRef} className="h-screen overflow-hidden flex items-center [container-type:inline-size]">
+            <div
+              ref={timelineRef}
+              className="flex w-max gap-16 px-[max(10cqw,calc(50cqw_-_36rem))] will-change-transform"
+            >
+              {timelineData.map((data, index) => (
+                <TimelineCard
+                  key={data.year}
+                  data={data}
+                  reducedMotion={reducedMotion}
+                  isActive={data.year === activeYear}
+                  horizontal
+                  kpiDeltas={kpiDeltas[index]}
+                />
+              ))}
+            </div>
+          </div>
+        ) : (
+          /* Timeline Cards - no start padding since the indicator sits on the inline end */
+          <div ref={timelineRef} className="space-y-24 lg:space-y-32">
+            {timelineData.map((data, index) => (
+              <TimelineCard
+                key={data.year}
+                data={data}
+                reducedMotion={reducedMotion}
+                isActive={data.year === activeYear}
+                horizontal={false}
+                kpiDeltas={kpiDeltas[index]}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* End Marker */}
+        <div className="mt-24 text-center">
+          <div className="inline-flex items-center gap-4 glass-card px-8 py-4">
+            <span className="text-2xl font-display font-bold gradient-text">
+              {t.timeline.futureAwaits}
+            </span>
+          </div>
         </div>
-      </div>
 
-      {/* Noscript Fallback */}
-      <noscript>
-        <div className="space-y-16 mt-12">
-          {timelineData.map((data) => (
-            <div key={data.year} className="space-y-4">
-              <img
-                src={data.heroImage}
-                alt={`${data.year} milestone`}
-                className="w-full max-w-xl rounded-lg"
-              />
-              <h3 className="text-3xl font-bold">{data.year}</h3>
-              <p className="text-lg text-muted-foreground">{data.summary}</p>
-              <div className="flex gap-4">
-                {data.kpis.map((kpi, i) => (
-                  <div key={i} className="text-center">
-                    <div className="text-xl font-bold text-accent">{kpi.value}</div>
-                    <div className="text-sm text-muted-foreground">{kpi.label}</div>
-                  </div>
-                ))}
+        {/* Noscript Fallback */}
+        <noscript>
+          <div className="space-y-16 mt-12">
+            {timelineData.map((data) => (
+              <div key={data.year} className="space-y-4">
+                <img
+                  src={data.heroImage}
+                  alt={t.timeline.milestoneAlt(data.year)}
+                  className="w-full max-w-xl rounded-lg"
+                />
+                <h3 className="text-3xl font-bold">{data.year}</h3>
+                <p className="text-lg text-muted-foreground">{data.summary}</p>
+                <div className="flex gap-4">
+                  {data.kpis.map((kpi) => (
+                    <div key={kpi.label} className="text-center">
+                      <div className="text-xl font-bold text-accent">{formatKpi(kpi)}</div>
+                      <div className="text-sm text-muted-foreground">{kpi.label}</div>
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
-          ))}
-        </div>
-      </noscript>
-    </section>
+            ))}
+          </div>
+        </noscript>
+      </section>
+    </ScrollSpyContext.Provider>
   );
 };
 
@@ -0,0 +1,82 @@
+/**
+ * ContentValidationOverlay Component
+ *
+ * Development-only panel listing every content schema violation:
+ * - Grouped by collection (history, mvvg, timeline, testimonials)
+ * - Collapsible so it never blocks the page being debugged
+ * - Renders nothing in production builds or when content is valid
+ */
+
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, X } from 'lucide-react';
+import type { ContentIssue } from '@/data/aboutSchema';
+import { cn } from '@/lib/utils';
+
+interface ContentValidationOverlayProps {
+  issues: ContentIssue[];
+}
+
+export const ContentValidationOverlay: React.FC<ContentValidationOverlayProps> = ({ issues }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  if (!import.meta.env.DEV || issues.length === 0 || isDismissed) return null;
+
+  // Group issues by collection for scanning
+  const grouped = issues.reduce<Record<string, ContentIssue[]>>((acc, issue) => {
+    (acc[issue.collection] ||= []).push(issue);
+    return acc;
+  }, {});
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-4 left-4 right-4 z-[100] max-w-2xl mx-auto rounded-xl border border-destructive/60 bg-background/95 backdrop-blur-xl shadow-2xl"
+    >
+      {/* Header */}
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-destructive/30">
+        <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0" />
+        <p className="flex-1 text-sm font-semibold text-foreground">
+          {issues.length} content issue{issues.length === 1 ? '' : 's'} in About page data
+        </p>
+        <button
+          onClick={() => setIsCollapsed(prev => !prev)}
+          className="p-1 rounded text-muted-foreground hover:text-foreground focus-ring"
+          aria-expanded={!isCollapsed}
+          aria-label={isCollapsed ? 'Show content issues' : 'Hide content issues'}
+        >
+          <ChevronDown className={cn("w-4 h-4 transition-transform", isCollapsed && "rotate-180")} />
+        </button>
+        <button
+          onClick={() => setIsDismissed(true)}
+          className="p-1 rounded text-muted-foreground hover:text-foreground focus-ring"
+          aria-label="Dismiss content issues"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Issue List */}
+      {!isCollapsed && (
+        <div className="max-h-[40vh] overflow-y-auto px-4 py-3 space-y-4">
+          {Object.entries(grouped).map(([collection, collectionIssues]) => (
+            <div key={collection}>
+              <p className="text-xs uppercase tracking-wider text-destructive mb-2">{collection}</p>
+              <ul className="space-y-1">
+                {collectionIssues.map((issue, i) => (
+                  <li key={i} className="text-sm text-muted-foreground">
+                    <code className="font-mono text-foreground">{issue.path}</code>
+                    {' — '}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContentValidationOverlay;
@@ -0,0 +1,18 @@
+/**
+ * Highlighted Component
+ *
+ * Renders a translated title with its gradient-highlighted phrase.
+ */
+
+import React from 'react';
+import type { HighlightedText } from '@/i18n/messages';
+
+export const Highlighted: React.FC<{ text: HighlightedText }> = ({ text }) => (
+  <>
+    {text.prefix}
+    <span className="gradient-text">{text.highlight}</span>
+    {text.suffix}
+  </>
+);
+
+export default Highlighted;
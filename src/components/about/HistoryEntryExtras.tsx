@@ -0,0 +1,110 @@
+/**
+ * HistoryEntryExtras Component
+ *
+ * Optional per-era content declared on a HistoryEntry:
+ * - Pull quotes with speaker and role
+ * - Media callouts (press coverage, announcements)
+ * - Related links
+ *
+ * Static markup, so CinematicHistory renders it in both the animated
+ * section and the noscript fallback. Renders nothing when an entry
+ * declares none of them.
+ */
+
+import React from 'react';
+import { ArrowRight, Newspaper } from 'lucide-react';
+import type { HistoryEntry } from '@/data/aboutData';
+import { useI18n } from '@/hooks/useI18n';
+
+const externalProps = (href: string) =>
+  /^https?:\/\//.test(href) ? { target: '_blank', rel: 'noopener noreferrer' } : {};
+
+interface HistoryEntryExtrasProps {
+  entry: HistoryEntry;
+}
+
+export const HistoryEntryExtras: React.FC<HistoryEntryExtrasProps> = ({ entry }) => {
+  const { t } = useI18n();
+  const { pullQuotes = [], mediaCallouts = [], links = [] } = entry;
+  const accent = `hsl(${entry.accentColor})`;
+
+  if (pullQuotes.length + mediaCallouts.length + links.length === 0) return null;
+
+  return (
+    <div className="mt-8 space-y-6">
+      {/* Pull Quotes */}
+      {pullQuotes.map((quote, i) => (
+        <figure key={i} className="ps-6 border-s-4" style={{ borderColor: accent }}>
+          <blockquote className="italic text-xl text-foreground/80">"{quote.text}"</blockquote>
+          {quote.speaker && (
+            <figcaption className="mt-2 text-sm text-muted-foreground">
+              — <span className="font-medium text-foreground">{quote.speaker}</span>
+              {quote.role && <>, {quote.role}</>}
+            </figcaption>
+          )}
+        </figure>
+      ))}
+
+      {/* Media Callouts */}
+      {mediaCallouts.length > 0 && (
+        <ul className="grid gap-3 sm:grid-cols-2">
+          {mediaCallouts.map((callout, i) => {
+            const content = (
+              <>
+                {callout.logoUrl ? (
+                  <img src={callout.logoUrl} alt="" loading="lazy" className="w-8 h-8 rounded object-contain flex-shrink-0" />
+                ) : (
+                  <Newspaper className="w-6 h-6 flex-shrink-0" style={{ color: accent }} aria-hidden="true" />
+                )}
+                <span className="min-w-0">
+                  <span className="block text-xs uppercase tracking-wider text-muted-foreground">
+                    <span className="sr-only">{t.history.mediaCallout}: </span>
+                    {callout.outlet}
+                  </span>
+                  <span className="block font-medium text-foreground">{callout.headline}</span>
+                </span>
+              </>
+            );
+
+            return (
+              <li key={i}>
+                {callout.href ? (
+                  <a
+                    href={callout.href}
+                    className="glass-card flex items-center gap-3 p-4 hover:border-accent/40 transition-colors focus-ring"
+                    {...externalProps(callout.href)}
+                  >
+                    {content}
+                  </a>
+                ) : (
+                  <div className="glass-card flex items-center gap-3 p-4">{content}</div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* Related Links */}
+      {links.length > 0 && (
+        <ul className="flex flex-wrap gap-x-6 gap-y-2">
+          {links.map((link) => (
+            <li key={link.href}>
+              <a
+                href={link.href}
+                className="inline-flex items-center gap-1 font-medium underline-offset-4 hover:underline focus-ring rounded-sm"
+                style={{ color: accent }}
+                {...externalProps(link.href)}
+              >
+                {link.label}
+                <ArrowRight className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryEntryExtras;
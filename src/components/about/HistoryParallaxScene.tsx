@@ -0,0 +1,72 @@
+/**
+ * HistoryParallaxScene Component
+ *
+ * Layered image composite for one CinematicHistory era:
+ * - Layer 1 (imageUrl): full-bleed backdrop, slowest
+ * - Layer 2 (imageLayer2, optional): framed mid-ground photo
+ * - Layer 3 (imageLayer3, optional): small foreground photo, fastest
+ *
+ * Each `.parallax-layer` carries its travel in `data-speed` (yPercent);
+ * CinematicHistory scrubs them with ScrollTrigger. Without animation
+ * (reduced motion, no JS) the layers form a static composite.
+ */
+
+import React from 'react';
+import type { HistoryEntry } from '@/data/aboutData';
+import { useI18n } from '@/hooks/useI18n';
+
+/** yPercent travel per layer, from back to front */
+const PARALLAX_SPEEDS = { backdrop: 8, midground: 18, foreground: 32 } as const;
+
+interface HistoryParallaxSceneProps {
+  entry: HistoryEntry;
+}
+
+export const HistoryParallaxScene: React.FC<HistoryParallaxSceneProps> = ({ entry }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="parallax-scene relative aspect-[16/9] rounded-2xl overflow-hidden bg-muted">
+      {/* Layer 1: Backdrop (oversized so scrubbing never reveals an edge) */}
+      <div className="parallax-layer absolute -inset-y-[10%] inset-x-0" data-speed={PARALLAX_SPEEDS.backdrop}>
+        <img
+          src={entry.imageUrl}
+          alt={t.history.sceneAlt(entry.year, entry.title)}
+          loading="lazy"
+          className="w-full h-full object-cover"
+        />
+      </div>
+
+      {/* Era tint */}
+      <div
+        className="absolute inset-0 pointer-events-none"
+        style={{
+          background: `linear-gradient(to top, hsl(${entry.accentColor} / 0.35), transparent 60%)`,
+        }}
+      />
+
+      {/* Layer 2: Mid-ground */}
+      {entry.imageLayer2 && (
+        <div
+          className="parallax-layer absolute bottom-[8%] end-[5%] w-[42%] aspect-[4/3] rounded-xl overflow-hidden shadow-2xl ring-1 ring-white/10"
+          data-speed={PARALLAX_SPEEDS.midground}
+        >
+          <img src={entry.imageLayer2} alt="" aria-hidden="true" loading="lazy" className="w-full h-full object-cover" />
+        </div>
+      )}
+
+      {/* Layer 3: Foreground */}
+      {entry.imageLayer3 && (
+        <div
+          className="parallax-layer absolute top-[10%] start-[5%] w-[24%] aspect-square rounded-xl overflow-hidden shadow-2xl ring-2"
+          style={{ ['--tw-ring-color' as string]: `hsl(${entry.accentColor} / 0.6)` }}
+          data-speed={PARALLAX_SPEEDS.foreground}
+        >
+          <img src={entry.imageLayer3} alt="" aria-hidden="true" loading="lazy" className="w-full h-full object-cover" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryParallaxScene;
@@ -0,0 +1,86 @@
+/**
+ * KpiBadge Component
+ *
+ * One `.kpi-badge` of a timeline card:
+ * - Counts up from zero each time its card becomes active (skipped under
+ *   reduced motion); screen readers only get the final value
+ * - Year-over-year delta pill, e.g. "+225% vs 2022"
+ */
+
+import React, { useEffect, useState } from 'react';
+import { gsap } from 'gsap';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import type { Kpi } from '@/data/aboutData';
+import type { KpiDelta } from '@/lib/kpis';
+import { useI18n } from '@/hooks/useI18n';
+import { cn } from '@/lib/utils';
+
+interface KpiBadgeProps {
+  kpi: Kpi;
+  delta: KpiDelta | null;
+  isActive: boolean;
+  reducedMotion: boolean;
+}
+
+export const KpiBadge: React.FC<KpiBadgeProps> = ({ kpi, delta, isActive, reducedMotion }) => {
+  // Value shown mid count-up; null shows the final value
+  const [countedValue, setCountedValue] = useState<number | null>(null);
+  const { t, formatKpi, formatChange } = useI18n();
+
+  useEffect(() => {
+    if (!isActive || reducedMotion) return;
+
+    const counter = { value: 0 };
+    const tween = gsap.to(counter, {
+      value: kpi.value,
+      duration: 1.4,
+      ease: 'power2.out',
+      onUpdate: () => setCountedValue(counter.value),
+      onComplete: () => setCountedValue(null),
+    });
+
+    return () => {
+      tween.kill();
+      setCountedValue(null);
+    };
+  }, [isActive, reducedMotion, kpi.value]);
+
+  const change = delta && formatChange(delta.change);
+
+  return (
+    <div
+      className={cn(
+        "kpi-badge glass-card px-5 py-4 flex flex-col items-center",
+        "min-w-[100px] transition-all duration-300",
+        "hover:scale-105 hover:shadow-lg hover:shadow-accent/20"
+      )}
+    >
+      <span className="sr-only">{formatKpi(kpi)}</span>
+      <span aria-hidden="true" className="text-2xl lg:text-3xl font-bold text-accent tabular-nums">
+        {countedValue === null ? formatKpi(kpi) : formatKpi(kpi, countedValue)}
+      </span>
+      <span className="text-xs text-muted-foreground uppercase tracking-wider mt-1">
+        {kpi.label}
+      </span>
+
+      {delta && change && (
+        <span
+          className={cn(
+            "mt-2 inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium tabular-nums",
+            delta.change >= 0 ? "bg-accent/15 text-accent" : "bg-destructive/15 text-destructive"
+          )}
+        >
+          <span className="sr-only">{t.timeline.kpiDeltaLabel(kpi.label, change, delta.fromYear)}</span>
+          {delta.change >= 0 ? (
+            <TrendingUp className="w-3 h-3 rtl:-scale-x-100" aria-hidden="true" />
+          ) : (
+            <TrendingDown className="w-3 h-3 rtl:-scale-x-100" aria-hidden="true" />
+          )}
+          <span aria-hidden="true">{t.timeline.kpiDelta(change, delta.fromYear)}</span>
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default KpiBadge;
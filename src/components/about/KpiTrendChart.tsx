@@ -0,0 +1,147 @@
+/**
+ * KpiTrendChart Component
+ *
+ * "Growth at a glance" panel for CompanyTimeline:
+ * - One small line chart per KPI series that spans several years
+ * - The active year is marked with a reference line and an enlarged point
+ * - Points are links to their #timeline-{year} card
+ * - Loaded lazily by CompanyTimeline; re-measures scroll triggers once shown
+ */
+
+import React, { useEffect, useMemo } from 'react';
+import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import type { TimelineYear } from '@/data/aboutData';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { timelineKpiSeries, type KpiSeries } from '@/lib/kpis';
+import { useI18n } from '@/hooks/useI18n';
+import { cn } from '@/lib/utils';
+
+const chartConfig = {
+  value: { color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+interface PointProps {
+  cx?: number;
+  cy?: number;
+  payload?: { year: number; value: number | null };
+}
+
+const SeriesChart: React.FC<{
+  series: KpiSeries;
+  activeYear: number;
+  reducedMotion: boolean;
+}> = ({ series, activeYear, reducedMotion }) => {
+  const { t, formatKpi, isRtl } = useI18n();
+  // Axis ticks drop the "+" / "~" qualifier, it only applies to the value itself
+  const formatTick = (value: number) => formatKpi({ ...series.kpi, qualifier: undefined }, value);
+
+  const renderPoint = ({ cx, cy, payload }: PointProps) => {
+    if (cx === undefined || cy === undefined || !payload || payload.value === null) {
+      return <g key={`empty-${payload?.year}`} />;
+    }
+    const isActive = payload.year === activeYear;
+    const value = formatKpi(series.kpi, payload.value);
+
+    return (
+      <a
+        key={payload.year}
+        href={`#timeline-${payload.year}`}
+        aria-label={t.timeline.growth.point(series.label, value, payload.year)}
+        className="group outline-none"
+      >
+        {/* Larger invisible hit area */}
+        <circle cx={cx} cy={cy} r={12} fill="transparent" />
+        <circle
+          cx={cx}
+          cy={cy}
+          r={isActive ? 7 : 4}
+          className={cn(
+            "transition-all duration-300 stroke-background stroke-2",
+            "group-hover:fill-accent group-focus-visible:stroke-ring group-focus-visible:stroke-[3]",
+            isActive ? "fill-accent" : "fill-accent/60"
+          )}
+        />
+      </a>
+    );
+  };
+
+  return (
+    <figure className="space-y-3">
+      <figcaption className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+        {series.label}
+      </figcaption>
+      <ChartContainer config={chartConfig} className="h-[180px] w-full aspect-auto">
+        <LineChart data={series.points} margin={{ top: 12, left: 4, right: 12, bottom: 0 }}>
+          <CartesianGrid vertical={false} strokeDasharray="3 3" />
+          <XAxis dataKey="year" tickLine={false} axisLine={false} reversed={isRtl} />
+          <YAxis
+            tickLine={false}
+            axisLine={false}
+            width={56}
+            orientation={isRtl ? 'right' : 'left'}
+            tickFormatter={formatTick}
+          />
+          <ReferenceLine x={activeYear} className="stroke-accent/40" strokeDasharray="4 4" />
+          <ChartTooltip
+            cursor={false}
+            content={
+              <ChartTooltipContent
+                hideIndicator
+                labelFormatter={(_, payload) => payload[0]?.payload.year}
+                formatter={(value) => formatKpi(series.kpi, Number(value))}
+              />
+            }
+          />
+          <Line
+            dataKey="value"
+            type="monotone"
+            stroke="var(--color-value)"
+            strokeWidth={2}
+            dot={renderPoint}
+            activeDot={false}
+            connectNulls
+            isAnimationActive={!reducedMotion}
+          />
+        </LineChart>
+      </ChartContainer>
+    </figure>
+  );
+};
+
+interface KpiTrendChartProps {
+  years: TimelineYear[];
+  activeYear: number;
+  reducedMotion: boolean;
+  className?: string;
+}
+
+export const KpiTrendChart: React.FC<KpiTrendChartProps> = ({ years, activeYear, reducedMotion, className }) => {
+  const { t } = useI18n();
+  const series = useMemo(() => timelineKpiSeries(years), [years]);
+
+  // The panel replaces a placeholder of a different height after the timeline's triggers were measured
+  useEffect(() => {
+    ScrollTrigger.refresh();
+  }, []);
+
+  if (series.length === 0) return null;
+
+  return (
+    <section className={cn("glass-card p-6 lg:p-8", className)} aria-labelledby="timeline-growth-title">
+      <div className="mb-6">
+        <h3 id="timeline-growth-title" className="text-2xl font-display font-bold">
+          {t.timeline.growth.title}
+        </h3>
+        <p className="text-muted-foreground mt-1">{t.timeline.growth.subtitle}</p>
+      </div>
+      <div className="grid gap-8 md:grid-cols-2">
+        {series.map((item) => (
+          <SeriesChart key={item.label} series={item} activeYear={activeYear} reducedMotion={reducedMotion} />
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default KpiTrendChart;
@@ -7,15 +7,18 @@
  * - GSAP micro-flip effects on reveal
  * - Icon pop and gradient glow on hover/tap
  * - Accessible expand/collapse functionality
- * - Analytics tracking via window.aboutMvvClicks
+ * - Analytics: card_expanded events
  */
 
 import React, { useState, useCallback } from 'react';
 import { gsap } from 'gsap';
 import { ChevronDown, Target, Eye, Gem, Rocket } from 'lucide-react';
-import { mvvgData, trackMvvClick, type MVVGItem } from '@/data/aboutData';
+import type { MVVGItem } from '@/data/aboutData';
+import { track } from '@/lib/analytics';
 import { useIntersectionObserver } from '@/hooks/useIntersectionObserver';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
+import { useI18n } from '@/hooks/useI18n';
+import { Highlighted } from '@/components/about/Highlighted';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
@@ -39,6 +42,7 @@ interface MVVGCardProps {
 const MVVGCard: React.FC<MVVGCardProps> = ({ item, index, reducedMotion }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const cardRef = React.useRef<HTMLDivElement>(null);
+  const { t } = useI18n();
   
   // Intersection observer for scroll reveal
   const { ref: observerRef, isIntersecting } = useIntersectionObserver<HTMLDivElement>({
@@ -71,9 +75,11 @@ const MVVGCard: React.FC<MVVGCardProps> = ({ item, index, reducedMotion }) => {
 
   const handleToggle = useCallback(() => {
     setIsExpanded(prev => !prev);
-    // Track analytics
-    trackMvvClick(item.id, item.title);
-  }, [item.id, item.title]);
+    // Track analytics (expansions only)
+    if (!isExpanded) {
+      track({ type: 'card_expanded', id: item.id, label: item.title });
+    }
+  }, [isExpanded, item.id, item.title]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' || e.key === ' ') {
@@ -162,10 +168,10 @@ const MVVGCard: React.FC<MVVGCardProps> = ({ item, index, reducedMotion }) => {
           "transition-all duration-300"
         )}
       >
-        {isExpanded ? 'Read less' : 'Read more'}
+        {isExpanded ? t.mvvg.readLess : t.mvvg.readMore}
         <ChevronDown 
           className={cn(
-            "w-4 h-4 ml-2 transition-transform duration-300",
+            "w-4 h-4 ms-2 transition-transform duration-300",
             isExpanded && "rotate-180"
           )} 
         />
@@ -186,8 +192,13 @@ const MVVGCard: React.FC<MVVGCardProps> = ({ item, index, reducedMotion }) => {
 /**
  * Main MVVGSection Component
  */
-export const MVVGSection: React.FC = () => {
+interface MVVGSectionProps {
+  items: MVVGItem[];
+}
+
+export const MVVGSection: React.FC<MVVGSectionProps> = ({ items }) => {
   const reducedMotion = useReducedMotion();
+  const { t } = useI18n();
   
   const { ref: headerRef, isIntersecting: headerVisible } = useIntersectionObserver<HTMLDivElement>({
     threshold: 0.3,
@@ -212,16 +223,16 @@ export const MVVGSection: React.FC = () => {
           id="mvvg-title"
           className="text-4xl lg:text-6xl font-display font-bold mb-4"
         >
-          What <span className="gradient-text">Drives</span> Us
+          <Highlighted text={t.mvvg.title} />
         </h2>
         <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
-          The principles and ambitions that guide every decision we make.
+          {t.mvvg.subtitle}
         </p>
       </div>
 
       {/* MVVG Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 lg:gap-8">
-        {mvvgData.map((item, index) => (
+        {items.map((item, index) => (
           <MVVGCard
             key={item.id}
             item={item}
@@ -0,0 +1,103 @@
+/**
+ * MobileYearScrubber Component
+ *
+ * Year navigation below the lg breakpoint, where the vertical indicator is
+ * hidden:
+ * - Bar docked to the bottom of the viewport while the timeline is in view,
+ *   once the consent banner that shares that spot has been dismissed
+ * - Progress through the timeline with a tappable button per year
+ * - Roving focus: one tab stop, arrow keys / Home / End move between years;
+ *   none while hidden (inert)
+ */
+
+import React, { useRef } from 'react';
+import { useConsent } from '@/hooks/useConsent';
+import { useInert } from '@/hooks/useInert';
+import { useI18n } from '@/hooks/useI18n';
+import { stepYearIndex, yearStepForKey } from '@/lib/timelineKeys';
+import { cn } from '@/lib/utils';
+
+interface MobileYearScrubberProps {
+  years: number[];
+  activeYear: number;
+  /** Timeline progress, 0-100 */
+  progress: number;
+  isVisible: boolean;
+  /** focusCard is false while focus stays on the scrubber */
+  onSelectYear: (year: number, focusCard: boolean) => void;
+}
+
+export const MobileYearScrubber: React.FC<MobileYearScrubberProps> = ({
+  years,
+  activeYear,
+  progress,
+  isVisible,
+  onSelectYear,
+}) => {
+  const { t, isRtl } = useI18n();
+  const { decided } = useConsent();
+  const isShown = isVisible && decided;
+  const barRef = useInert<HTMLDivElement>(!isShown);
+  const buttons = useRef(new Map<number, HTMLButtonElement>());
+
+  const handleKeyDown = (event: React.KeyboardEvent, index: number) => {
+    const step = yearStepForKey(event, isRtl);
+    if (!step) return;
+    event.preventDefault();
+    const year = years[stepYearIndex(step, index, years.length)];
+    buttons.current.get(year)?.focus();
+    onSelectYear(year, false);
+  };
+
+  return (
+    <div
+      ref={barRef}
+      aria-hidden={!isShown}
+      className={cn(
+        "lg:hidden fixed bottom-4 inset-x-4 z-50",
+        "transition-all duration-500",
+        isShown ? "opacity-100 translate-y-0" : "opacity-0 translate-y-10 pointer-events-none"
+      )}
+    >
+      <nav
+        aria-label={t.timeline.yearNavLabel}
+        className="glass-card px-4 py-3 rounded-2xl backdrop-blur-xl border border-border/30 space-y-2"
+      >
+        <div className="h-1 bg-muted rounded-full overflow-hidden">
+          <div
+            className="h-full bg-accent transition-all duration-300"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+        <div className="flex justify-between">
+          {years.map((year, index) => {
+            const isActive = year === activeYear;
+            return (
+              <button
+                key={year}
+                ref={(element) => {
+                  if (element) buttons.current.set(year, element);
+                  else buttons.current.delete(year);
+                }}
+                type="button"
+                tabIndex={isActive ? 0 : -1}
+                onClick={() => onSelectYear(year, true)}
+                onKeyDown={(event) => handleKeyDown(event, index)}
+                aria-label={t.timeline.jumpToYear(year)}
+                aria-current={isActive ? 'step' : undefined}
+                className={cn(
+                  "min-w-11 min-h-11 text-sm font-mono rounded-md transition-all duration-300 focus-ring",
+                  isActive ? "text-accent font-bold scale-110" : "text-muted-foreground"
+                )}
+              >
+                {year}
+              </button>
+            );
+          })}
+        </div>
+      </nav>
+    </div>
+  );
+};
+
+export default MobileYearScrubber;
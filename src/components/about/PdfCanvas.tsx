@@ -0,0 +1,112 @@
+/**
+ * PdfCanvas Component
+ *
+ * Renders one page of a PDF with pdf.js. Loaded on demand by PdfViewer so
+ * the pdf.js library and worker are only downloaded on first open.
+ * - Zoom 1 fits the page to the container width
+ * - Crisp on high-DPI screens (renders at devicePixelRatio)
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { GlobalWorkerOptions, getDocument, type PDFDocumentProxy, type RenderTask } from 'pdfjs-dist';
+import workerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+GlobalWorkerOptions.workerSrc = workerSrc;
+
+export interface PdfCanvasProps {
+  url: string;
+  /** 1-based page number */
+  page: number;
+  /** Multiplier on top of fit-to-width */
+  zoom: number;
+  /** Accessible name for the rendered page */
+  label: string;
+  onLoad: (numPages: number) => void;
+  onError: (error: unknown) => void;
+}
+
+export const PdfCanvas: React.FC<PdfCanvasProps> = ({ url, page, zoom, label, onLoad, onError }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+
+  // Latest callbacks, so a new handler identity does not reload the document
+  const callbacks = useRef({ onLoad, onError });
+  callbacks.current = { onLoad, onError };
+
+  // Load (and later destroy) the document
+  useEffect(() => {
+    const task = getDocument({ url });
+    let cancelled = false;
+
+    task.promise.then(
+      (document) => {
+        if (cancelled) return;
+        setPdf(document);
+        callbacks.current.onLoad(document.numPages);
+      },
+      (error) => {
+        if (!cancelled) callbacks.current.onError(error);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      setPdf(null);
+      task.destroy();
+    };
+  }, [url]);
+
+  // Track the available width for fit-to-width
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Render the current page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!pdf || !canvas || containerWidth === 0) return;
+
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    pdf.getPage(page).then((pdfPage) => {
+      if (cancelled) return;
+      const baseViewport = pdfPage.getViewport({ scale: 1 });
+      const viewport = pdfPage.getViewport({ scale: (containerWidth / baseViewport.width) * zoom });
+      const outputScale = window.devicePixelRatio || 1;
+
+      canvas.width = Math.floor(viewport.width * outputScale);
+      canvas.height = Math.floor(viewport.height * outputScale);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+      renderTask = pdfPage.render({
+        canvasContext: canvas.getContext('2d'),
+        viewport,
+        transform: outputScale === 1 ? undefined : [outputScale, 0, 0, outputScale, 0, 0],
+      });
+      renderTask.promise.catch((error) => {
+        if (error?.name !== 'RenderingCancelledException') callbacks.current.onError(error);
+      });
+    }, (error) => callbacks.current.onError(error));
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, page, zoom, containerWidth]);
+
+  return (
+    <div ref={containerRef} className="w-full">
+      <canvas ref={canvasRef} role="img" aria-label={label} className="mx-auto block bg-white shadow-lg" />
+    </div>
+  );
+};
+
+export default PdfCanvas;
@@ -0,0 +1,242 @@
+/**
+ * PdfViewer Component
+ *
+ * In-page reader for testimonial letters:
+ * - Dialog on desktop, bottom Drawer on mobile
+ * - Paging, zoom (fit-to-width based) and download
+ * - "Open in new tab" escape hatch
+ * - pdf.js is fetched on first open only (see PdfCanvas)
+ * - Shows an "open in new tab" link if rendering fails
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, ExternalLink, Loader2, Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import type { Testimonial } from '@/data/aboutData';
+import type { PdfCanvasProps } from '@/components/about/PdfCanvas';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useI18n } from '@/hooks/useI18n';
+
+const ZOOM_MIN = 0.5;
+const ZOOM_MAX = 3;
+const ZOOM_STEP = 0.25;
+
+// Shared across viewers so the rendering chunk is requested once
+let pdfCanvasModule: Promise<typeof import('@/components/about/PdfCanvas')> | null = null;
+const loadPdfCanvas = () => (pdfCanvasModule ??= import('@/components/about/PdfCanvas'));
+
+type ViewerStatus = 'loading' | 'ready' | 'error';
+
+interface PdfViewerProps {
+  /** Testimonial whose letter is shown; null closes the viewer */
+  testimonial: Testimonial | null;
+  onClose: () => void;
+}
+
+export const PdfViewer: React.FC<PdfViewerProps> = ({ testimonial, onClose }) => {
+  const isMobile = useIsMobile();
+  const { t, dir, formatNumber } = useI18n();
+  const [Canvas, setCanvas] = useState<React.ComponentType<PdfCanvasProps> | null>(null);
+  const [status, setStatus] = useState<ViewerStatus>('loading');
+  const [numPages, setNumPages] = useState(0);
+  const [page, setPage] = useState(1);
+  const [zoom, setZoom] = useState(1);
+
+  // Keep showing the last letter while the close animation runs
+  const [shown, setShown] = useState<Testimonial | null>(testimonial);
+  useEffect(() => {
+    if (testimonial) setShown(testimonial);
+  }, [testimonial]);
+
+  const url = shown?.media.type === 'pdf' ? shown.media.url : undefined;
+  const copy = t.testimonials.pdfViewer;
+
+  /**
+   * Offer the PDF as a link rather than opening it: failures arrive
+   * asynchronously, outside the click, where popup blockers stop window.open
+   */
+  const handleError = useCallback((error: unknown) => {
+    console.warn('[PdfViewer] Could not render the letter:', error);
+    setStatus('error');
+  }, []);
+
+  // Reset for each letter; load the renderer on first open
+  useEffect(() => {
+    if (!url) return;
+    setStatus('loading');
+    setNumPages(0);
+    setPage(1);
+    setZoom(1);
+
+    let cancelled = false;
+    loadPdfCanvas().then(
+      (module) => {
+        if (!cancelled) setCanvas(() => module.PdfCanvas);
+      },
+      (error) => {
+        pdfCanvasModule = null;
+        if (!cancelled) handleError(error);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [url, handleError]);
+
+  const handleLoad = useCallback((pages: number) => {
+    setNumPages(pages);
+    setStatus('ready');
+  }, []);
+
+  const changeZoom = (delta: number) =>
+    setZoom((prev) => Math.min(ZOOM_MAX, Math.max(ZOOM_MIN, prev + delta)));
+
+  const title = shown ? copy.title(shown.name, shown.company) : '';
+  const pageLabel = copy.page(page, Math.max(numPages, 1));
+
+  const toolbar = (
+    <div className="flex flex-wrap items-center justify-between gap-2 border-b border-border px-4 pb-3">
+      {/* Paging */}
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setPage((prev) => prev - 1)}
+          disabled={status !== 'ready' || page <= 1}
+          aria-label={copy.previousPage}
+        >
+          <ChevronLeft className="h-4 w-4 rtl:rotate-180" />
+        </Button>
+        <span className="min-w-[7rem] text-center text-sm tabular-nums" aria-live="polite">
+          {status === 'ready' ? pageLabel : '—'}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setPage((prev) => prev + 1)}
+          disabled={status !== 'ready' || page >= numPages}
+          aria-label={copy.nextPage}
+        >
+          <ChevronRight className="h-4 w-4 rtl:rotate-180" />
+        </Button>
+      </div>
+
+      {/* Zoom */}
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => changeZoom(-ZOOM_STEP)}
+          disabled={status !== 'ready' || zoom <= ZOOM_MIN}
+          aria-label={copy.zoomOut}
+        >
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <span className="w-14 text-center text-sm tabular-nums">
+          {formatNumber(zoom, { style: 'percent' })}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => changeZoom(ZOOM_STEP)}
+          disabled={status !== 'ready' || zoom >= ZOOM_MAX}
+          aria-label={copy.zoomIn}
+        >
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setZoom(1)}
+          disabled={status !== 'ready' || zoom === 1}
+          aria-label={copy.resetZoom}
+        >
+          <Maximize2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Escape hatches */}
+      <div className="flex items-center gap-1">
+        <Button variant="ghost" size="icon" asChild>
+          <a href={url} download aria-label={copy.download}>
+            <Download className="h-4 w-4" />
+          </a>
+        </Button>
+        <Button variant="ghost" size="icon" asChild>
+          <a href={url} target="_blank" rel="noopener noreferrer" aria-label={copy.openInNewTab}>
+            <ExternalLink className="h-4 w-4" />
+          </a>
+        </Button>
+      </div>
+    </div>
+  );
+
+  const body = (
+    <div className="relative flex-1 overflow-auto bg-muted/40 p-4" dir="ltr">
+      {status === 'loading' && (
+        <div className="absolute inset-0 flex items-center justify-center gap-2 text-sm text-muted-foreground" dir={dir}>
+          <Loader2 className="h-5 w-5 animate-spin" />
+          {copy.loading}
+        </div>
+      )}
+      {status === 'error' ? (
+        <div className="flex h-full flex-col items-center justify-center gap-4 text-center" dir={dir}>
+          <p className="max-w-sm text-sm text-muted-foreground">{copy.error}</p>
+          <Button asChild>
+            <a href={url} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="me-2 h-4 w-4" />
+              {copy.openInNewTab}
+            </a>
+          </Button>
+        </div>
+      ) : (
+        Canvas && url && (
+          <Canvas
+            url={url}
+            page={page}
+            zoom={zoom}
+            label={`${title} – ${pageLabel}`}
+            onLoad={handleLoad}
+            onError={handleError}
+          />
+        )
+      )}
+    </div>
+  );
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) onClose();
+  };
+
+  if (isMobile) {
+    return (
+      <Drawer open={Boolean(testimonial)} onOpenChange={handleOpenChange}>
+        <DrawerContent dir={dir} className="h-[92vh]">
+          <DrawerHeader>
+            <DrawerTitle>{title}</DrawerTitle>
+            <DrawerDescription className="sr-only">{shown?.excerpt}</DrawerDescription>
+          </DrawerHeader>
+          {toolbar}
+          {body}
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={Boolean(testimonial)} onOpenChange={handleOpenChange}>
+      <DialogContent dir={dir} className="flex h-[90vh] max-w-4xl flex-col gap-0 p-0 pt-6">
+        <DialogHeader className="px-6 pb-4">
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription className="sr-only">{shown?.excerpt}</DialogDescription>
+        </DialogHeader>
+        {toolbar}
+        {body}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PdfViewer;
@@ -0,0 +1,69 @@
+/**
+ * RichText Renderer
+ *
+ * Renders structured rich-text runs (plain, emphasis, links) from the data layer:
+ * - RichTextContent: inline runs as-is
+ * - RichTextWords: one `.word` span per word for stagger animations,
+ *   keeping formatting and punctuation attached across run boundaries
+ */
+
+import React from 'react';
+import type { RichText, RichTextSpan } from '@/data/aboutData';
+
+const toSpan = (run: string | RichTextSpan): RichTextSpan =>
+  typeof run === 'string' ? { text: run } : run;
+
+/**
+ * Wrap text in the emphasis and link elements declared by its run
+ */
+const renderFormatted = (span: RichTextSpan, children: React.ReactNode, key: React.Key) => {
+  let node = children;
+  if (span.emphasis === 'em') node = <em>{node}</em>;
+  if (span.emphasis === 'strong') node = <strong className="font-semibold text-foreground">{node}</strong>;
+  if (span.href) {
+    const isExternal = /^https?:\/\//.test(span.href);
+    node = (
+      <a
+        href={span.href}
+        className="text-accent underline-offset-4 hover:underline focus-ring rounded-sm"
+        {...(isExternal && { target: '_blank', rel: 'noopener noreferrer' })}
+      >
+        {node}
+      </a>
+    );
+  }
+  return <React.Fragment key={key}>{node}</React.Fragment>;
+};
+
+export const RichTextContent: React.FC<{ content: RichText }> = ({ content }) => (
+  <>{content.map((run, i) => renderFormatted(toSpan(run), toSpan(run).text, i))}</>
+);
+
+/**
+ * Group runs into words: whitespace starts a new word, anything else
+ * (e.g. a comma right after a link) stays attached to the current one
+ */
+const toWords = (content: RichText): Array<Array<{ span: RichTextSpan; text: string }>> => {
+  const words: Array<Array<{ span: RichTextSpan; text: string }>> = [[]];
+  content.map(toSpan).forEach((span) => {
+    span.text.split(/(\s+)/).forEach((part) => {
+      if (!part) return;
+      if (/^\s+$/.test(part)) {
+        if (words[words.length - 1].length > 0) words.push([]);
+        return;
+      }
+      words[words.length - 1].push({ span, text: part });
+    });
+  });
+  return words.filter((word) => word.length > 0);
+};
+
+export const RichTextWords: React.FC<{ content: RichText }> = ({ content }) => (
+  <>
+    {toWords(content).map((fragments, i) => (
+      <span key={i} className="word inline-block me-[0.25em]">
+        {fragments.map((fragment, j) => renderFormatted(fragment.span, fragment.text, j))}
+      </span>
+    ))}
+  </>
+);
@@ -0,0 +1,204 @@
+/**
+ * TestimonialMediaPlayer Component
+ *
+ * In-page player for testimonials that are not PDF letters:
+ * - Video with native WebVTT captions, labelled with their own language
+ * - Audio with the same captions shown as live text below the controls,
+ *   since browsers do not render captions for audio
+ * - Collapsible transcript and a link to the media file
+ * - Quote-only testimonials show the full quote
+ * - Dialog on desktop, bottom Drawer on mobile (as PdfViewer)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ExternalLink } from 'lucide-react';
+import type { Testimonial } from '@/data/aboutData';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useI18n } from '@/hooks/useI18n';
+import { isLocale, localeMeta } from '@/i18n/config';
+import { cn } from '@/lib/utils';
+
+interface TestimonialMediaPlayerProps {
+  /** Video, audio or quote-only testimonial; null closes the player */
+  testimonial: Testimonial | null;
+  onClose: () => void;
+}
+
+/**
+ * Text of the cues showing on a captions track, updated as it plays
+ */
+const useActiveCueText = (trackElement: HTMLTrackElement | null) => {
+  const [text, setText] = useState('');
+
+  useEffect(() => {
+    const textTrack = trackElement?.track;
+    if (!textTrack) return;
+
+    // Hidden tracks still fire cuechange; the text is rendered by the player
+    textTrack.mode = 'hidden';
+    const handleCueChange = () => {
+      const cues = Array.from(textTrack.activeCues ?? []) as VTTCue[];
+      setText(cues.map((cue) => cue.text).join('\n'));
+    };
+
+    textTrack.addEventListener('cuechange', handleCueChange);
+    return () => {
+      textTrack.removeEventListener('cuechange', handleCueChange);
+      setText('');
+    };
+  }, [trackElement]);
+
+  return text;
+};
+
+export const TestimonialMediaPlayer: React.FC<TestimonialMediaPlayerProps> = ({ testimonial, onClose }) => {
+  const isMobile = useIsMobile();
+  const { t, dir } = useI18n();
+  const [audioTrack, setAudioTrack] = useState<HTMLTrackElement | null>(null);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const audioCaption = useActiveCueText(audioTrack);
+  const copy = t.testimonials.player;
+
+  // Keep showing the last testimonial while the close animation runs
+  const [shown, setShown] = useState<Testimonial | null>(testimonial);
+  useEffect(() => {
+    if (testimonial) setShown(testimonial);
+    setShowTranscript(false);
+  }, [testimonial]);
+
+  const media = shown?.media;
+  const title = shown ? copy.title(shown.name, shown.company) : '';
+  const transcript = media && media.type !== 'pdf' && media.type !== 'quote' ? media.transcript : undefined;
+
+  const captionsTrack = (
+    url: string | undefined,
+    lang: string | undefined,
+    ref?: (element: HTMLTrackElement | null) => void
+  ) =>
+    url && (
+      <track
+        ref={ref}
+        kind="captions"
+        src={url}
+        srcLang={lang}
+        label={isLocale(lang) ? localeMeta[lang].nativeName : lang}
+        default
+      />
+    );
+
+  const body = shown && media && (
+    <div className="flex-1 overflow-auto px-6 pb-6 space-y-4">
+      {media.type === 'video' && (
+        <video
+          key={media.url}
+          controls
+          playsInline
+          preload="metadata"
+          poster={media.poster ?? shown.coverImage}
+          className="w-full rounded-lg bg-black aspect-video"
+        >
+          <source src={media.url} />
+          {captionsTrack(media.captionsUrl, media.captionsLang)}
+          {copy.unsupported}
+        </video>
+      )}
+
+      {media.type === 'audio' && (
+        <div className="space-y-3">
+          <img
+            src={shown.coverImage}
+            alt={t.testimonials.coverAlt(shown.name, shown.title, shown.company)}
+            className="w-full max-h-64 rounded-lg object-cover"
+          />
+          <audio key={media.url} controls preload="metadata" className="w-full">
+            <source src={media.url} />
+            {captionsTrack(media.captionsUrl, media.captionsLang, setAudioTrack)}
+            {copy.unsupported}
+          </audio>
+          {media.captionsUrl && (
+            // Screen readers already hear the recording; the transcript covers the text
+            <p
+              aria-hidden="true"
+              className="min-h-[3rem] rounded-lg bg-muted/60 px-4 py-2 text-center whitespace-pre-line"
+            >
+              {audioCaption}
+            </p>
+          )}
+        </div>
+      )}
+
+      {media.type === 'quote' && (
+        <blockquote className="text-lg leading-relaxed text-foreground/90 border-s-2 border-accent ps-4">
+          "{shown.fullQuote}"
+        </blockquote>
+      )}
+
+      {transcript && (
+        <Collapsible open={showTranscript} onOpenChange={setShowTranscript}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" className="px-0 focus-ring">
+              <ChevronDown
+                className={cn("me-2 h-4 w-4 transition-transform", showTranscript && "rotate-180")}
+                aria-hidden="true"
+              />
+              {showTranscript ? copy.hideTranscript : copy.showTranscript}
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <section aria-label={copy.transcript} className="rounded-lg bg-muted/40 p-4 text-sm leading-relaxed whitespace-pre-line">
+              {transcript}
+            </section>
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+
+      {media.type !== 'quote' && media.type !== 'pdf' && (
+        <a
+          href={media.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center gap-2 text-sm text-accent underline-offset-4 hover:underline focus-ring rounded-sm"
+        >
+          <ExternalLink className="h-4 w-4" aria-hidden="true" />
+          {copy.openMedia}
+        </a>
+      )}
+    </div>
+  );
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) onClose();
+  };
+
+  if (isMobile) {
+    return (
+      <Drawer open={Boolean(testimonial)} onOpenChange={handleOpenChange}>
+        <DrawerContent dir={dir} className="max-h-[92vh]">
+          <DrawerHeader>
+            <DrawerTitle>{title}</DrawerTitle>
+            <DrawerDescription className="sr-only">{shown?.excerpt}</DrawerDescription>
+          </DrawerHeader>
+          {body}
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={Boolean(testimonial)} onOpenChange={handleOpenChange}>
+      <DialogContent dir={dir} className="flex max-h-[90vh] max-w-3xl flex-col gap-0 p-0 pt-6">
+        <DialogHeader className="px-6 pb-4">
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription className="sr-only">{shown?.excerpt}</DialogDescription>
+        </DialogHeader>
+        {body}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TestimonialMediaPlayer;
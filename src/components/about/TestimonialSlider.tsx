@@ -3,19 +3,28 @@
  * 
  * Testimonial carousel with:
  * - Left/right navigation buttons
- * - Hover overlay showing only "Read PDF" button
- * - PDF opens in new external tab
+ * - Hover overlay with the action that fits the testimonial's media:
+ *   read the PDF, watch the video, listen, or read the quote
+ * - Letters, recordings and quotes open in-page (TestimonialViewer)
  * - Realistic hover animations
  * - Full accessibility support
+ * - Mirrored navigation and slide direction for RTL locales
+ * - Link to the filterable testimonial wall (/customers)
  */
 
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Swiper, SwiperSlide, SwiperClass } from 'swiper/react';
 import { Navigation, Pagination, Autoplay, Keyboard, A11y } from 'swiper/modules';
-import { FileText, ChevronLeft, ChevronRight, ExternalLink } from 'lucide-react';
-import { testimonialData, trackPdfOpen, type Testimonial } from '@/data/aboutData';
+import { Link } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, ArrowRight } from 'lucide-react';
+import type { Testimonial } from '@/data/aboutData';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
+import { useI18n } from '@/hooks/useI18n';
+import { Highlighted } from '@/components/about/Highlighted';
+import { TestimonialActionIcon, TestimonialViewer } from '@/components/about/TestimonialViewer';
 import { Button } from '@/components/ui/button';
+import { trackTestimonialOpened } from '@/lib/testimonials';
+import { localizedPath } from '@/i18n/config';
 import { cn } from '@/lib/utils';
 
 // Import Swiper styles
@@ -25,21 +34,24 @@ import 'swiper/css/pagination';
 
 interface TestimonialCardProps {
   testimonial: Testimonial;
+  onOpen: (testimonial: Testimonial) => void;
 }
 
 /**
  * Individual Testimonial Card with hover overlay
  */
-const TestimonialCard: React.FC<TestimonialCardProps> = ({ testimonial }) => {
+const TestimonialCard: React.FC<TestimonialCardProps> = ({ testimonial, onOpen }) => {
   const [isHovered, setIsHovered] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
+  const { t } = useI18n();
 
-  const handleOpenPdf = useCallback(() => {
+  const mediaType = testimonial.media.type;
+
+  const handleOpen = useCallback(() => {
     // Track analytics
-    trackPdfOpen(testimonial.id, testimonial.name);
-    // Open in new external tab
-    window.open(testimonial.pdfUrl, '_blank', 'noopener,noreferrer');
-  }, [testimonial]);
+    trackTestimonialOpened(testimonial);
+    onOpen(testimonial);
+  }, [testimonial, onOpen]);
 
   return (
     <div
@@ -55,7 +67,7 @@ const TestimonialCard: React.FC<TestimonialCardProps> = ({ testimonial }) => {
       {/* Cover Image */}
       <img
         src={testimonial.coverImage}
-        alt={`${testimonial.name}, ${testimonial.title} at ${testimonial.company}`}
+        alt={t.testimonials.coverAlt(testimonial.name, testimonial.title, testimonial.company)}
         loading="lazy"
         className={cn(
           "w-full h-full object-cover transition-all duration-700 ease-out",
@@ -87,7 +99,7 @@ const TestimonialCard: React.FC<TestimonialCardProps> = ({ testimonial }) => {
         <p className="text-sm font-medium text-accent">{testimonial.company}</p>
       </div>
 
-      {/* Hover Overlay - Read PDF Button */}
+      {/* Hover Overlay - Media Action Button */}
       <div
         className={cn(
           "absolute inset-0 flex flex-col items-center justify-center p-6",
@@ -119,11 +131,11 @@ const TestimonialCard: React.FC<TestimonialCardProps> = ({ testimonial }) => {
           "{testimonial.excerpt}"
         </p>
 
-        {/* Read PDF Button */}
+        {/* Media Action Button */}
         <Button
           variant="default"
           size="lg"
-          onClick={handleOpenPdf}
+          onClick={handleOpen}
           className={cn(
             "bg-accent text-accent-foreground hover:bg-accent/90",
             "shadow-lg shadow-accent/30 hover:shadow-xl hover:shadow-accent/50",
@@ -131,21 +143,20 @@ const TestimonialCard: React.FC<TestimonialCardProps> = ({ testimonial }) => {
             "hover:scale-110 active:scale-95",
             isHovered ? "translate-y-0 opacity-100" : "translate-y-8 opacity-0"
           )}
-          aria-label={`Read PDF letter from ${testimonial.name} at ${testimonial.company}`}
+          aria-label={t.testimonials.actionLabels[mediaType](testimonial.name, testimonial.company)}
         >
-          <FileText className="w-5 h-5 mr-2" />
-          Read PDF
-          <ExternalLink className="w-4 h-4 ml-2 opacity-60" />
+          <TestimonialActionIcon media={mediaType} className="w-5 h-5 me-2" />
+          {t.testimonials.actions[mediaType]}
         </Button>
       </div>
 
       {/* Focus indicator for accessibility */}
       <button
         className="absolute inset-0 w-full h-full opacity-0 focus:outline-none focus-visible:ring-4 focus-visible:ring-accent focus-visible:ring-offset-2 rounded-2xl"
-        onClick={handleOpenPdf}
+        onClick={handleOpen}
         onFocus={() => setIsHovered(true)}
         onBlur={() => setIsHovered(false)}
-        aria-label={`View testimonial from ${testimonial.name}`}
+        aria-label={t.testimonials.viewTestimonial(testimonial.name)}
       />
     </div>
   );
@@ -154,10 +165,13 @@ const TestimonialCard: React.FC<TestimonialCardProps> = ({ testimonial }) => {
 /**
  * Fallback Grid if Swiper fails
  */
-const FallbackGrid: React.FC = () => (
+const FallbackGrid: React.FC<{
+  testimonials: Testimonial[];
+  onOpen: (testimonial: Testimonial) => void;
+}> = ({ testimonials, onOpen }) => (
   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-    {testimonialData.map((testimonial) => (
-      <TestimonialCard key={testimonial.id} testimonial={testimonial} />
+    {testimonials.map((testimonial) => (
+      <TestimonialCard key={testimonial.id} testimonial={testimonial} onOpen={onOpen} />
     ))}
   </div>
 );
@@ -165,10 +179,17 @@ const FallbackGrid: React.FC = () => (
 /**
  * Main TestimonialSlider Component
  */
-export const TestimonialSlider: React.FC = () => {
+interface TestimonialSliderProps {
+  testimonials: Testimonial[];
+}
+
+export const TestimonialSlider: React.FC<TestimonialSliderProps> = ({ testimonials }) => {
   const [swiperFailed, setSwiperFailed] = useState(false);
+  const [openTestimonial, setOpenTestimonial] = useState<Testimonial | null>(null);
+  const closeTestimonial = useCallback(() => setOpenTestimonial(null), []);
   const swiperRef = useRef<SwiperClass | null>(null);
   const reducedMotion = useReducedMotion();
+  const { locale, t, dir } = useI18n();
 
   return (
     <section 
@@ -181,24 +202,31 @@ export const TestimonialSlider: React.FC = () => {
           id="testimonials-title"
           className="text-4xl lg:text-6xl font-display font-bold mb-4"
         >
-          Voices of <span className="gradient-text">Trust</span>
+          <Highlighted text={t.testimonials.title} />
         </h2>
-        <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
-          Hear from the leaders and teams who've transformed their organizations with us.
+        <p className="text-xl text-muted-foreground max-w-2xl mx-auto mb-8">
+          {t.testimonials.subtitle}
         </p>
+        <Link
+          to={localizedPath('/customers', locale)}
+          className="inline-flex items-center gap-2 text-accent underline-offset-4 hover:underline focus-ring rounded-sm"
+        >
+          {t.testimonials.viewAll}
+          <ArrowRight className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+        </Link>
       </div>
 
       {/* Swiper or Fallback */}
       {swiperFailed ? (
-        <FallbackGrid />
+        <FallbackGrid testimonials={testimonials} onOpen={setOpenTestimonial} />
       ) : (
         <div className="relative px-4 lg:px-16">
-          {/* Left Navigation Button */}
+          {/* Previous Navigation Button (inline start) */}
           <Button
             variant="outline"
             size="icon"
             className={cn(
-              "swiper-btn-prev absolute left-0 top-1/2 -translate-y-1/2 z-20",
+              "swiper-btn-prev absolute start-0 top-1/2 -translate-y-1/2 z-20",
               "w-12 h-12 lg:w-14 lg:h-14 rounded-full",
               "bg-background/80 backdrop-blur-sm border-accent/30",
               "hover:bg-accent hover:text-accent-foreground hover:border-accent",
@@ -206,17 +234,17 @@ export const TestimonialSlider: React.FC = () => {
               "transition-all duration-300",
               "focus-ring"
             )}
-            aria-label="Previous testimonial"
+            aria-label={t.testimonials.previous}
           >
-            <ChevronLeft className="w-6 h-6" />
+            <ChevronLeft className="w-6 h-6 rtl:rotate-180" />
           </Button>
 
-          {/* Right Navigation Button */}
+          {/* Next Navigation Button (inline end) */}
           <Button
             variant="outline"
             size="icon"
             className={cn(
-              "swiper-btn-next absolute right-0 top-1/2 -translate-y-1/2 z-20",
+              "swiper-btn-next absolute end-0 top-1/2 -translate-y-1/2 z-20",
               "w-12 h-12 lg:w-14 lg:h-14 rounded-full",
               "bg-background/80 backdrop-blur-sm border-accent/30",
               "hover:bg-accent hover:text-accent-foreground hover:border-accent",
@@ -224,13 +252,16 @@ export const TestimonialSlider: React.FC = () => {
               "transition-all duration-300",
               "focus-ring"
             )}
-            aria-label="Next testimonial"
+            aria-label={t.testimonials.next}
           >
-            <ChevronRight className="w-6 h-6" />
+            <ChevronRight className="w-6 h-6 rtl:rotate-180" />
           </Button>
 
           {/* Swiper Carousel */}
+          {/* Keyed by direction: Swiper reads dir only on init */}
           <Swiper
+            key={dir}
+            dir={dir}
             modules={[Navigation, Pagination, Autoplay, Keyboard, A11y]}
             spaceBetween={24}
             slidesPerView={1}
@@ -259,26 +290,29 @@ export const TestimonialSlider: React.FC = () => {
             }}
             onError={() => setSwiperFailed(true)}
             a11y={{
-              prevSlideMessage: 'Previous testimonial',
-              nextSlideMessage: 'Next testimonial',
-              firstSlideMessage: 'This is the first testimonial',
-              lastSlideMessage: 'This is the last testimonial',
+              prevSlideMessage: t.testimonials.previous,
+              nextSlideMessage: t.testimonials.next,
+              firstSlideMessage: t.testimonials.first,
+              lastSlideMessage: t.testimonials.last,
             }}
             className="pb-14"
           >
-            {testimonialData.map((testimonial) => (
+            {testimonials.map((testimonial) => (
               <SwiperSlide key={testimonial.id}>
-                <TestimonialCard testimonial={testimonial} />
+                <TestimonialCard testimonial={testimonial} onOpen={setOpenTestimonial} />
               </SwiperSlide>
             ))}
           </Swiper>
         </div>
       )}
 
+      {/* In-page Letter / Media Viewer */}
+      <TestimonialViewer testimonial={openTestimonial} onClose={closeTestimonial} />
+
       {/* Noscript Fallback */}
       <noscript>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-8">
-          {testimonialData.map((testimonial) => (
+          {testimonials.map((testimonial) => (
             <div key={testimonial.id} className="glass-card p-6">
               <div className="flex items-start gap-4 mb-4">
                 <img
@@ -295,15 +329,17 @@ export const TestimonialSlider: React.FC = () => {
               <blockquote className="italic text-muted-foreground">
                 "{testimonial.fullQuote}"
               </blockquote>
-              <a 
-                href={testimonial.pdfUrl}
-                className="inline-flex items-center mt-4 text-accent hover:underline"
-                target="_blank"
-                rel="noopener noreferrer"
-              >
-                <FileText className="w-4 h-4 mr-2" />
-                Read PDF Letter
-              </a>
+              {testimonial.media.type !== 'quote' && (
+                <a 
+                  href={testimonial.media.url}
+                  className="inline-flex items-center mt-4 text-accent hover:underline"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <TestimonialActionIcon media={testimonial.media.type} className="w-4 h-4 me-2" />
+                  {t.testimonials.mediaLinks[testimonial.media.type]}
+                </a>
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,48 @@
+/**
+ * TestimonialViewer Component
+ *
+ * Opens a testimonial in the viewer that fits its media:
+ * - PDF letters in PdfViewer
+ * - Video, audio and quote-only testimonials in TestimonialMediaPlayer
+ *
+ * Also exports the icon of each media's action, shared by the cards.
+ */
+
+import React from 'react';
+import { FileText, Headphones, Play, Quote } from 'lucide-react';
+import type { Testimonial, TestimonialMedia } from '@/data/aboutData';
+import { PdfViewer } from '@/components/about/PdfViewer';
+import { TestimonialMediaPlayer } from '@/components/about/TestimonialMediaPlayer';
+
+const ACTION_ICONS = {
+  pdf: FileText,
+  video: Play,
+  audio: Headphones,
+  quote: Quote,
+};
+
+export const TestimonialActionIcon: React.FC<{
+  media: TestimonialMedia['type'];
+  className?: string;
+}> = ({ media, className }) => {
+  const Icon = ACTION_ICONS[media];
+  return <Icon className={className} aria-hidden="true" />;
+};
+
+interface TestimonialViewerProps {
+  /** Testimonial to show; null closes the viewer */
+  testimonial: Testimonial | null;
+  onClose: () => void;
+}
+
+export const TestimonialViewer: React.FC<TestimonialViewerProps> = ({ testimonial, onClose }) => (
+  <>
+    <PdfViewer testimonial={testimonial?.media.type === 'pdf' ? testimonial : null} onClose={onClose} />
+    <TestimonialMediaPlayer
+      testimonial={testimonial && testimonial.media.type !== 'pdf' ? testimonial : null}
+      onClose={onClose}
+    />
+  </>
+);
+
+export default TestimonialViewer;
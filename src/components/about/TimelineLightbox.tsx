@@ -0,0 +1,189 @@
+/**
+ * TimelineLightbox Component
+ *
+ * Full-screen gallery for a timeline year built on Dialog + Carousel:
+ * - Every image with its caption and credit, plus a "Photo n of total" counter
+ * - Swipe, arrow keys and prev/next buttons (mirrored in RTL)
+ * - Pinch / ctrl-wheel / double-click zoom via ZoomableImage; swiping is
+ *   paused while zoomed so a drag pans the image instead
+ * - Keeps the URL hash on #timeline-{year}/photo/{n} while open so the
+ *   current photo can be shared as a deep link
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { GalleryImage } from '@/data/aboutData';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from '@/components/ui/carousel';
+import { ZoomableImage } from '@/components/about/ZoomableImage';
+import { useI18n } from '@/hooks/useI18n';
+import { cn } from '@/lib/utils';
+
+interface TimelineLightboxProps {
+  year: number;
+  images: GalleryImage[];
+  /** Index of the photo to open at, null while closed */
+  openIndex: number | null;
+  /** Called whenever the visible photo changes */
+  onIndexChange?: (index: number) => void;
+  onClose: () => void;
+}
+
+const replaceHash = (hash: string) => {
+  window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}${hash}`);
+};
+
+export const TimelineLightbox: React.FC<TimelineLightboxProps> = ({
+  year,
+  images,
+  openIndex,
+  onIndexChange,
+  onClose,
+}) => {
+  const { t, dir } = useI18n();
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(openIndex ?? 0);
+  const carouselRef = useRef<HTMLDivElement>(null);
+  const zoomedRef = useRef(false);
+  const onIndexChangeRef = useRef(onIndexChange);
+  onIndexChangeRef.current = onIndexChange;
+
+  const isOpen = openIndex !== null;
+
+  useEffect(() => {
+    if (isOpen) setCurrent(openIndex);
+  }, [isOpen, openIndex]);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const handleSelect = () => {
+      zoomedRef.current = false;
+      const index = api.selectedScrollSnap();
+      setCurrent(index);
+      onIndexChangeRef.current?.(index);
+    };
+
+    api.on('select', handleSelect);
+    return () => {
+      api.off('select', handleSelect);
+    };
+  }, [api]);
+
+  // Mirror the visible photo into the URL while the lightbox is open
+  useEffect(() => {
+    if (isOpen) replaceHash(`#timeline-${year}/photo/${current + 1}`);
+  }, [isOpen, current, year]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    replaceHash(`#timeline-${year}`);
+    onClose();
+  };
+
+  const handleZoomChange = useCallback((zoomed: boolean) => {
+    zoomedRef.current = zoomed;
+  }, []);
+
+  // Arrow keys while focus is outside the carousel (it handles its own)
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.defaultPrevented) return;
+    const isRtl = dir === 'rtl';
+    if (event.key === 'ArrowLeft') {
+      event.preventDefault();
+      if (isRtl) api?.scrollNext();
+      else api?.scrollPrev();
+    } else if (event.key === 'ArrowRight') {
+      event.preventDefault();
+      if (isRtl) api?.scrollPrev();
+      else api?.scrollNext();
+    }
+  };
+
+  const image = images[current];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent
+        className="max-w-6xl w-[calc(100vw-2rem)] h-[calc(100dvh-2rem)] flex flex-col gap-4 p-4 sm:p-6"
+        onKeyDown={handleKeyDown}
+        onOpenAutoFocus={(event) => {
+          event.preventDefault();
+          carouselRef.current?.focus();
+        }}
+      >
+        <div className="flex items-baseline gap-4 pe-8">
+          <DialogTitle className="font-display">{t.timeline.lightbox.title(year)}</DialogTitle>
+          <span className="text-sm text-muted-foreground tabular-nums" aria-live="polite">
+            {t.timeline.lightbox.photo(current + 1, images.length)}
+          </span>
+        </div>
+        <DialogDescription className="sr-only">{t.timeline.lightbox.zoomHint}</DialogDescription>
+
+        <Carousel
+          ref={carouselRef}
+          tabIndex={0}
+          setApi={setApi}
+          opts={{
+            startIndex: openIndex ?? 0,
+            direction: dir,
+            watchDrag: () => !zoomedRef.current,
+          }}
+          className="relative flex-1 min-h-0 rounded-lg focus-ring [&>div]:h-full"
+        >
+          <CarouselContent className="h-full">
+            {images.map((item, i) => (
+              <CarouselItem key={item.src} className="h-full">
+                <ZoomableImage
+                  // Remount on leave so a zoomed photo is back at 1x when revisited
+                  key={i === current ? 'active' : 'idle'}
+                  src={item.src}
+                  alt={item.caption ?? t.timeline.galleryImageAlt(year, i + 1)}
+                  onZoomChange={i === current ? handleZoomChange : undefined}
+                />
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+
+          {images.length > 1 && (
+            <>
+              <button
+                type="button"
+                onClick={() => api?.scrollPrev()}
+                className={cn(
+                  "absolute start-2 top-1/2 -translate-y-1/2 glass-card p-2 rounded-full",
+                  "transition-opacity hover:opacity-100 opacity-80 focus-ring"
+                )}
+                aria-label={t.timeline.lightbox.previous}
+              >
+                <ChevronLeft className="w-6 h-6 rtl:rotate-180" />
+              </button>
+              <button
+                type="button"
+                onClick={() => api?.scrollNext()}
+                className={cn(
+                  "absolute end-2 top-1/2 -translate-y-1/2 glass-card p-2 rounded-full",
+                  "transition-opacity hover:opacity-100 opacity-80 focus-ring"
+                )}
+                aria-label={t.timeline.lightbox.next}
+              >
+                <ChevronRight className="w-6 h-6 rtl:rotate-180" />
+              </button>
+            </>
+          )}
+        </Carousel>
+
+        {image && (image.caption || image.credit) && (
+          <div className="text-center space-y-1">
+            {image.caption && <p className="text-base text-foreground">{image.caption}</p>}
+            {image.credit && (
+              <p className="text-xs text-muted-foreground">{t.timeline.lightbox.credit(image.credit)}</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TimelineLightbox;
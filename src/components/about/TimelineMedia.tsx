@@ -0,0 +1,117 @@
+/**
+ * TimelineMedia Component
+ *
+ * Motion layer for a timeline year (TimelineYear.mediaUrl / mediaType):
+ * - Video: muted, looping, inline autoplay with a poster frame
+ * - GIF: swapped for its poster while paused (GIFs cannot be paused)
+ * - Play/pause control; pauses automatically while offscreen
+ * - Poster still only under reduced motion
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play } from 'lucide-react';
+import type { TimelineYear } from '@/data/aboutData';
+import { useIntersectionObserver } from '@/hooks/useIntersectionObserver';
+import { useI18n } from '@/hooks/useI18n';
+import { cn } from '@/lib/utils';
+
+interface TimelineMediaProps {
+  src: string;
+  type: NonNullable<TimelineYear['mediaType']>;
+  /** Still frame shown before playback, while paused and under reduced motion */
+  poster: string;
+  year: number;
+  alt: string;
+  reducedMotion: boolean;
+  /** Classes for the media element (e.g. hover zoom) */
+  className?: string;
+}
+
+export const TimelineMedia: React.FC<TimelineMediaProps> = ({
+  src,
+  type,
+  poster,
+  year,
+  alt,
+  reducedMotion,
+  className,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isPausedByUser, setIsPausedByUser] = useState(false);
+  // Autoplay refused by the browser (NotAllowedError, e.g. data saver); a click retries
+  const [isAutoplayBlocked, setIsAutoplayBlocked] = useState(false);
+  const { t } = useI18n();
+  const { ref: containerRef, isIntersecting } = useIntersectionObserver<HTMLDivElement>({
+    threshold: 0.25,
+  });
+
+  const isPaused = isPausedByUser || isAutoplayBlocked;
+  const isPlaying = !reducedMotion && !isPaused && isIntersecting;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (isPlaying) {
+      // The poster remains when playback is refused. AbortError only means a
+      // pause() (e.g. the card scrolled away again) interrupted this play()
+      video.play().catch((error: unknown) => {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+        setIsAutoplayBlocked(true);
+      });
+    } else {
+      video.pause();
+    }
+  }, [isPlaying]);
+
+  const togglePlayback = () => {
+    if (isPaused) {
+      setIsPausedByUser(false);
+      setIsAutoplayBlocked(false);
+    } else {
+      setIsPausedByUser(true);
+    }
+  };
+
+  const mediaClassName = cn('w-full h-full object-cover', className);
+
+  return (
+    <div ref={containerRef} className="absolute inset-0">
+      {reducedMotion ? (
+        <img src={poster} alt={alt} loading="lazy" className={mediaClassName} />
+      ) : type === 'video' ? (
+        <video
+          ref={videoRef}
+          src={src}
+          poster={poster}
+          muted
+          loop
+          playsInline
+          preload="metadata"
+          aria-label={alt}
+          className={mediaClassName}
+        />
+      ) : (
+        <img src={isPlaying ? src : poster} alt={alt} loading="lazy" className={mediaClassName} />
+      )}
+
+      {/* Play / Pause */}
+      {!reducedMotion && (
+        <button
+          type="button"
+          onClick={togglePlayback}
+          className={cn(
+            "absolute top-4 end-4 z-10 w-10 h-10 rounded-full",
+            "flex items-center justify-center",
+            "bg-background/70 backdrop-blur-sm text-foreground",
+            "hover:bg-accent hover:text-accent-foreground transition-colors focus-ring"
+          )}
+          aria-label={isPaused ? t.timeline.playMedia(year) : t.timeline.pauseMedia(year)}
+        >
+          {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TimelineMedia;
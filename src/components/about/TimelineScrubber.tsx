@@ -0,0 +1,87 @@
+/**
+ * TimelineScrubber Component
+ *
+ * Horizontal counterpart of the vertical year indicator, used while the
+ * timeline runs as a pinned horizontal track:
+ * - Slider that scrubs through the track
+ * - Year buttons that jump to a panel, with the active year highlighted
+ * - Inert while faded out, so its controls leave the tab order
+ */
+
+import React from 'react';
+import { Slider } from '@/components/ui/slider';
+import { useI18n } from '@/hooks/useI18n';
+import { useInert } from '@/hooks/useInert';
+import { cn } from '@/lib/utils';
+
+interface TimelineScrubberProps {
+  years: number[];
+  activeYear: number;
+  /** Track progress, 0-100 */
+  progress: number;
+  isVisible: boolean;
+  onSeek: (progress: number) => void;
+  onSelectYear: (year: number) => void;
+}
+
+export const TimelineScrubber: React.FC<TimelineScrubberProps> = ({
+  years,
+  activeYear,
+  progress,
+  isVisible,
+  onSeek,
+  onSelectYear,
+}) => {
+  const { t, dir } = useI18n();
+  const barRef = useInert<HTMLDivElement>(!isVisible);
+
+  return (
+    <div
+      ref={barRef}
+      aria-hidden={!isVisible}
+      className={cn(
+        "hidden lg:block fixed bottom-8 left-1/2 -translate-x-1/2 z-50 w-[min(40rem,90vw)]",
+        "transition-all duration-500",
+        isVisible ? "opacity-100 translate-y-0" : "opacity-0 translate-y-10 pointer-events-none"
+      )}
+    >
+      <div
+        role="group"
+        aria-label={t.timeline.scrubberLabel}
+        className="glass-card px-6 py-4 rounded-2xl backdrop-blur-xl border border-border/30 space-y-3"
+      >
+        <Slider
+          value={[progress]}
+          min={0}
+          max={100}
+          step={0.1}
+          dir={dir}
+          onValueChange={([value]) => onSeek(value)}
+          className="[&_[role=slider]]:border-accent [&>span>span]:bg-accent"
+        />
+        <div className="flex justify-between">
+          {years.map((year) => {
+            const isActive = year === activeYear;
+            return (
+              <button
+                key={year}
+                type="button"
+                onClick={() => onSelectYear(year)}
+                aria-label={t.timeline.jumpToYear(year)}
+                aria-current={isActive ? 'step' : undefined}
+                className={cn(
+                  "text-sm font-mono rounded-sm px-1 transition-all duration-300 focus-ring",
+                  isActive ? "text-accent font-bold scale-110" : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {year}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelineScrubber;
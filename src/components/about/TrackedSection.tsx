@@ -0,0 +1,28 @@
+/**
+ * TrackedSection Component
+ *
+ * Wraps an About page section and instruments it through
+ * useSectionEngagement: a `section_viewed` event on first sight, and
+ * dwell time / scroll depth reported when the page is hidden.
+ */
+
+import React from 'react';
+import { useSectionEngagement } from '@/hooks/useSectionEngagement';
+import type { AboutSection } from '@/lib/analytics';
+
+interface TrackedSectionProps {
+  section: AboutSection;
+  children: React.ReactNode;
+}
+
+export const TrackedSection: React.FC<TrackedSectionProps> = ({ section, children }) => {
+  const ref = useSectionEngagement<HTMLDivElement>(section);
+
+  return (
+    <div ref={ref} data-section={section}>
+      {children}
+    </div>
+  );
+};
+
+export default TrackedSection;
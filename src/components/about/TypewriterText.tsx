@@ -0,0 +1,107 @@
+/**
+ * TypewriterText Component
+ *
+ * Types a paragraph character-by-character, scrubbed by scroll position:
+ * - Progress follows the scrollbar (scrolling back "untypes")
+ * - Layout is reserved up front, so typing never shifts the page
+ * - "Skip" control reveals the full text immediately
+ * - Screen readers get the full text once; the animated copy is hidden
+ * - Full text instantly under reduced motion
+ */
+
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { gsap } from 'gsap';
+import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import { useI18n } from '@/hooks/useI18n';
+import { cn } from '@/lib/utils';
+
+gsap.registerPlugin(ScrollTrigger);
+
+interface TypewriterTextProps {
+  text: string;
+  reducedMotion: boolean;
+  className?: string;
+  /** Caret and skip accent color (HSL triplet) */
+  accentColor?: string;
+}
+
+export const TypewriterText: React.FC<TypewriterTextProps> = ({
+  text,
+  reducedMotion,
+  className,
+  accentColor,
+}) => {
+  const containerRef = useRef<HTMLParagraphElement>(null);
+  const typedRef = useRef<HTMLSpanElement>(null);
+  const restRef = useRef<HTMLSpanElement>(null);
+  const [isSkipped, setIsSkipped] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+  const { t } = useI18n();
+
+  const isAnimated = !reducedMotion && !isSkipped;
+
+  // Layout effect: the hidden remainder must reserve space before first paint
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!isAnimated || !container) return;
+
+    const state = { chars: 0 };
+    const render = () => {
+      const count = Math.round(state.chars);
+      if (typedRef.current) typedRef.current.textContent = text.slice(0, count);
+      if (restRef.current) restRef.current.textContent = text.slice(count);
+      setIsComplete(count >= text.length);
+    };
+
+    const ctx = gsap.context(() => {
+      gsap.to(state, {
+        chars: text.length,
+        ease: 'none',
+        onUpdate: render,
+        scrollTrigger: {
+          trigger: container,
+          start: 'top 85%',
+          end: 'bottom 45%',
+          scrub: 0.5,
+        },
+      });
+    }, container);
+
+    render();
+    return () => ctx.revert();
+  }, [isAnimated, text]);
+
+  if (!isAnimated) {
+    return <p className={className}>{text}</p>;
+  }
+
+  return (
+    <div>
+      <p ref={containerRef} className={cn('relative', className)}>
+        <span className="sr-only">{text}</span>
+        <span aria-hidden="true">
+          <span ref={typedRef} />
+          {!isComplete && (
+            <span
+              className="inline-block w-[2px] h-[1.1em] -mb-[0.15em] mx-[1px] animate-pulse bg-accent"
+              style={accentColor ? { backgroundColor: `hsl(${accentColor})` } : undefined}
+            />
+          )}
+          <span ref={restRef} className="opacity-0" />
+        </span>
+      </p>
+      {!isComplete && (
+        <button
+          type="button"
+          onClick={() => setIsSkipped(true)}
+          className="mt-3 text-sm font-medium text-muted-foreground hover:text-foreground underline-offset-4 hover:underline focus-ring rounded-sm"
+          aria-label={t.history.skipTypingLabel}
+        >
+          {t.history.skipTyping}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TypewriterText;
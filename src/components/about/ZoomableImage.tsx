@@ -0,0 +1,114 @@
+/**
+ * ZoomableImage Component
+ *
+ * Image with pinch-zoom (touch), ctrl/trackpad-wheel zoom and
+ * double-click toggling. Panning is available while zoomed; at 1x all
+ * gestures are left to the surrounding carousel.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const DOUBLE_CLICK_SCALE = 2;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+interface ZoomableImageProps {
+  src: string;
+  alt: string;
+  /** Called when zoom toggles between 1x and zoomed */
+  onZoomChange?: (zoomed: boolean) => void;
+  className?: string;
+}
+
+export const ZoomableImage: React.FC<ZoomableImageProps> = ({ src, alt, onZoomChange, className }) => {
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const pinchStart = useRef<{ distance: number; scale: number } | null>(null);
+
+  const isZoomed = scale > MIN_SCALE;
+
+  useEffect(() => {
+    if (!isZoomed) setOffset({ x: 0, y: 0 });
+    onZoomChange?.(isZoomed);
+  }, [isZoomed, onZoomChange]);
+
+  const applyScale = (next: number) => setScale(clampScale(next));
+
+  // React attaches wheel listeners as passive, which cannot keep the browser from zooming the page too
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      // Trackpad pinch arrives as ctrl+wheel
+      if (!event.ctrlKey) return;
+      event.preventDefault();
+      setScale((current) => clampScale(current * (1 - event.deltaY * 0.01)));
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const pointerDistance = () => {
+    const [a, b] = [...pointers.current.values()];
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (pointers.current.size === 2) {
+      pinchStart.current = { distance: pointerDistance(), scale };
+    }
+    // Own the gesture only when panning a zoomed image (the carousel's drag is off then)
+    if (isZoomed) event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const previous = pointers.current.get(event.pointerId);
+    if (!previous) return;
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+
+    if (pointers.current.size === 2 && pinchStart.current) {
+      applyScale(pinchStart.current.scale * (pointerDistance() / pinchStart.current.distance));
+    } else if (pointers.current.size === 1 && isZoomed) {
+      setOffset((prev) => ({
+        x: prev.x + (event.clientX - previous.x) / scale,
+        y: prev.y + (event.clientY - previous.y) / scale,
+      }));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    pointers.current.delete(event.pointerId);
+    if (pointers.current.size < 2) pinchStart.current = null;
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn('relative h-full w-full overflow-hidden', isZoomed ? 'cursor-move' : 'cursor-zoom-in')}
+      style={{ touchAction: isZoomed ? 'none' : 'pan-y' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => applyScale(isZoomed ? MIN_SCALE : DOUBLE_CLICK_SCALE)}
+    >
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        className={cn('h-full w-full select-none object-contain', className)}
+        style={{ transform: `scale(${scale}) translate(${offset.x}px, ${offset.y}px)` }}
+      />
+    </div>
+  );
+};
+
+export default ZoomableImage;
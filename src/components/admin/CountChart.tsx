@@ -0,0 +1,74 @@
+/**
+ * CountChart Component
+ *
+ * Bar chart plus table for a list of counted keys (card expansions,
+ * testimonial opens, timeline years, CTA clicks).
+ */
+
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { CountRow } from '@/lib/analytics';
+
+interface CountChartProps {
+  title: string;
+  description: string;
+  /** Column heading for the counted key, e.g. "Testimonial" */
+  keyLabel: string;
+  rows: CountRow[];
+}
+
+const chartConfig = {
+  count: { label: 'Events', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+export const CountChart: React.FC<CountChartProps> = ({ title, description, keyLabel, rows }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>{title}</CardTitle>
+      <CardDescription>{description}</CardDescription>
+    </CardHeader>
+    <CardContent className="space-y-6">
+      {rows.length === 0 ? (
+        <p className="py-12 text-center text-sm text-muted-foreground">No events in this range.</p>
+      ) : (
+        <>
+          <ChartContainer config={chartConfig} className="h-[280px] w-full aspect-auto">
+            <BarChart data={rows} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={6} />
+            </BarChart>
+          </ChartContainer>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{keyLabel}</TableHead>
+                <TableHead className="text-right">Count</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell>
+                    <span className="font-medium">{row.label}</span>
+                    {row.label !== row.key && (
+                      <span className="ml-2 text-xs text-muted-foreground">{row.key}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{row.count}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default CountChart;
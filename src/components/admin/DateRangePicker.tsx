@@ -0,0 +1,60 @@
+/**
+ * DateRangePicker Component
+ *
+ * Popover with a two-month range Calendar; an empty range means "all time".
+ */
+
+import React from 'react';
+import { format } from 'date-fns';
+import { CalendarIcon, X } from 'lucide-react';
+import type { DateRange as DayPickerRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { DateRange } from '@/lib/analytics';
+import { cn } from '@/lib/utils';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+const describeRange = ({ from, to }: DateRange): string => {
+  if (!from) return 'All time';
+  if (!to) return `${format(from, 'MMM d, yyyy')} – …`;
+  return `${format(from, 'MMM d, yyyy')} – ${format(to, 'MMM d, yyyy')}`;
+};
+
+export const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onChange }) => (
+  <div className="flex items-center gap-2">
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn('w-[260px] justify-start text-left font-normal', !value.from && 'text-muted-foreground')}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {describeRange(value)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          selected={value as DayPickerRange}
+          onSelect={(range) => onChange(range ?? {})}
+          defaultMonth={value.from}
+          disabled={{ after: new Date() }}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+    {value.from && (
+      <Button variant="ghost" size="icon" onClick={() => onChange({})} aria-label="Clear date range">
+        <X className="h-4 w-4" />
+      </Button>
+    )}
+  </div>
+);
+
+export default DateRangePicker;
@@ -0,0 +1,52 @@
+/**
+ * ConsentBanner Component
+ *
+ * First-visit privacy notice docked to the bottom of the viewport:
+ * - Accept all / reject optional in one click, equally prominent
+ * - "Customize" opens the preferences dialog
+ * - Hidden once the visitor has made a choice
+ */
+
+import React from 'react';
+import { Cookie } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useConsent } from '@/hooks/useConsent';
+import { useI18n } from '@/hooks/useI18n';
+
+export const ConsentBanner: React.FC = () => {
+  const { decided, acceptAll, rejectOptional, openPreferences } = useConsent();
+  const { t } = useI18n();
+
+  if (decided) return null;
+
+  return (
+    <div
+      role="region"
+      aria-label={t.consent.bannerLabel}
+      className="fixed bottom-4 inset-x-4 z-[90] max-w-3xl mx-auto glass-card p-5 lg:p-6 shadow-2xl"
+    >
+      <div className="flex flex-col md:flex-row md:items-center gap-4 md:gap-6">
+        <div className="flex gap-3 flex-1">
+          <Cookie className="w-6 h-6 text-accent flex-shrink-0 mt-0.5" aria-hidden="true" />
+          <div>
+            <h2 className="font-display font-semibold text-foreground mb-1">{t.consent.title}</h2>
+            <p className="text-sm text-muted-foreground leading-relaxed">{t.consent.description}</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap md:flex-col gap-2 md:min-w-[10rem]">
+          <Button onClick={acceptAll} className="flex-1">
+            {t.consent.acceptAll}
+          </Button>
+          <Button onClick={rejectOptional} variant="outline" className="flex-1">
+            {t.consent.rejectOptional}
+          </Button>
+          <Button onClick={openPreferences} variant="ghost" className="flex-1">
+            {t.consent.customize}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentBanner;
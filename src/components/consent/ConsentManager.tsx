@@ -0,0 +1,31 @@
+/**
+ * ConsentManager Component
+ *
+ * Mounts the consent banner and preferences dialog and lets any
+ * descendant reopen the dialog through useConsent().openPreferences.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { ConsentUIContext } from './context';
+import { ConsentBanner } from './ConsentBanner';
+import { ConsentPreferencesDialog } from './ConsentPreferencesDialog';
+
+interface ConsentManagerProps {
+  children: React.ReactNode;
+}
+
+export const ConsentManager: React.FC<ConsentManagerProps> = ({ children }) => {
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+  const openPreferences = useCallback(() => setPreferencesOpen(true), []);
+  const value = useMemo(() => ({ openPreferences }), [openPreferences]);
+
+  return (
+    <ConsentUIContext.Provider value={value}>
+      {children}
+      {!preferencesOpen && <ConsentBanner />}
+      <ConsentPreferencesDialog open={preferencesOpen} onOpenChange={setPreferencesOpen} />
+    </ConsentUIContext.Provider>
+  );
+};
+
+export default ConsentManager;
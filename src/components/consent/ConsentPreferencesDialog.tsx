@@ -0,0 +1,102 @@
+/**
+ * ConsentPreferencesDialog Component
+ *
+ * Per-category consent switches (necessary, analytics, marketing).
+ * Edits a draft of the stored choice; nothing changes until saved.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useConsent } from '@/hooks/useConsent';
+import { useI18n } from '@/hooks/useI18n';
+import { CONSENT_CATEGORIES, type ConsentPreferences } from '@/lib/consent';
+
+interface ConsentPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ConsentPreferencesDialog: React.FC<ConsentPreferencesDialogProps> = ({
+  open,
+  onOpenChange,
+}) => {
+  const { preferences, save, acceptAll } = useConsent();
+  const { t, dir } = useI18n();
+  const [draft, setDraft] = useState<ConsentPreferences>(preferences);
+
+  // Start from the stored choice every time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(preferences);
+  }, [open, preferences]);
+
+  const handleSave = () => {
+    save(draft);
+    onOpenChange(false);
+  };
+
+  const handleAcceptAll = () => {
+    acceptAll();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent dir={dir} className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t.consent.preferencesTitle}</DialogTitle>
+          <DialogDescription>{t.consent.preferencesDescription}</DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-4 py-2">
+          {CONSENT_CATEGORIES.map((category) => {
+            const copy = t.consent.categories[category];
+            const isNecessary = category === 'necessary';
+            const id = `consent-${category}`;
+
+            return (
+              <li key={category} className="flex items-start justify-between gap-4 rounded-lg border border-border p-4">
+                <div className="space-y-1">
+                  <Label htmlFor={id} className="text-foreground">
+                    {copy.label}
+                  </Label>
+                  <p id={`${id}-description`} className="text-sm text-muted-foreground">
+                    {copy.description}
+                  </p>
+                  {isNecessary && (
+                    <p className="text-xs font-medium text-accent">{t.consent.alwaysOn}</p>
+                  )}
+                </div>
+                <Switch
+                  id={id}
+                  checked={isNecessary || draft[category]}
+                  disabled={isNecessary}
+                  onCheckedChange={(checked) => setDraft((prev) => ({ ...prev, [category]: checked }))}
+                  aria-describedby={`${id}-description`}
+                />
+              </li>
+            );
+          })}
+        </ul>
+
+        <DialogFooter className="gap-2 sm:space-x-0">
+          <Button variant="outline" onClick={handleSave}>
+            {t.consent.save}
+          </Button>
+          <Button onClick={handleAcceptAll}>{t.consent.acceptAll}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConsentPreferencesDialog;
@@ -0,0 +1,10 @@
+import { createContext } from 'react';
+
+export interface ConsentUIContextValue {
+  /** Open the consent preferences dialog */
+  openPreferences: () => void;
+}
+
+export const ConsentUIContext = createContext<ConsentUIContextValue>({
+  openPreferences: () => {},
+});
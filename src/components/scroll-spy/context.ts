@@ -0,0 +1,33 @@
+import { createContext } from 'react';
+
+export interface ScrollSpyOptions {
+  /** Activation line as a share of the viewport height from the top (default 0.5) */
+  offset?: number;
+  /**
+   * Distance in px an item must travel past the activation line before it
+   * replaces the active one, in either direction (default 48)
+   */
+  hysteresis?: number;
+  /** Stop measuring, e.g. while another layout drives the active item */
+  enabled?: boolean;
+}
+
+export interface ScrollSpyState {
+  /** Id of the active item, null before the first item reaches the line */
+  activeId: string | null;
+  /** 0-1 progress of the activation line through each item, keyed by id */
+  progress: Record<string, number>;
+  /** 0-1 progress through all items, from the first top to the last bottom */
+  overallProgress: number;
+  /** Whether the activation line is within the items */
+  inView: boolean;
+}
+
+export interface ScrollSpyContextValue extends ScrollSpyState {
+  /** Callback ref that tracks an element under the given id */
+  register: (id: string) => (element: HTMLElement | null) => void;
+  /** Ids of the tracked elements, in document order */
+  ids: string[];
+}
+
+export const ScrollSpyContext = createContext<ScrollSpyContextValue | null>(null);
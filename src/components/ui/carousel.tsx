@@ -69,15 +69,18 @@ const Carousel = React.forwardRef<HTMLDivElement, React.HTMLAttributes<HTMLDivEl
 
     const handleKeyDown = React.useCallback(
       (event: React.KeyboardEvent<HTMLDivElement>) => {
+        const isRtl = opts?.direction === "rtl";
         if (event.key === "ArrowLeft") {
           event.preventDefault();
-          scrollPrev();
+          if (isRtl) scrollNext();
+          else scrollPrev();
         } else if (event.key === "ArrowRight") {
           event.preventDefault();
-          scrollNext();
+          if (isRtl) scrollPrev();
+          else scrollNext();
         }
       },
-      [scrollPrev, scrollNext],
+      [opts?.direction, scrollPrev, scrollNext],
     );
 
     React.useEffect(() => {
@@ -9,14 +9,114 @@
  * - assets/history-1.jpg through assets/history-5.jpg - Company history imagery
  * - assets/timeline-2021.jpg through assets/timeline-2025.jpg - Timeline hero images
  * - assets/timeline-2023.gif - Optional animated GIF for milestone year
- * - assets/testimonial-1.pdf through assets/testimonial-4.pdf - PDF documents
- * - assets/testimonial-cover-1.jpg through assets/testimonial-cover-4.jpg - PDF cover thumbnails
+ * - assets/testimonial-1.pdf - PDF letter
+ * - assets/testimonial-2.mp4, assets/testimonial-3.mp3 (+ .vtt captions) - Recorded testimonials
+ * - assets/testimonial-cover-1.jpg through assets/testimonial-cover-4.jpg - Testimonial cover thumbnails
  */
 
+// ============================================
+// COMPANY STORY DATA
+// Used in CompanyStory component
+// ============================================
+
+/** Inline run of formatted text inside a rich-text block */
+export interface RichTextSpan {
+  text: string;
+  /** Render as italic (em) or bold (strong) */
+  emphasis?: 'em' | 'strong';
+  /** Wrap the run in a link */
+  href?: string;
+}
+
+/** Plain strings are unformatted runs */
+export type RichText = Array<string | RichTextSpan>;
+
+export type StoryBlock =
+  | {
+      type: 'paragraph';
+      /** lead/closing reveal word-by-word, body paragraphs reveal line-by-line */
+      variant: 'lead' | 'body' | 'closing';
+      content: RichText;
+    }
+  | {
+      type: 'quote';
+      content: RichText;
+      /** Who said it, e.g. "Our Founding Principle" */
+      attribution?: string;
+    };
+
+export const companyStory: StoryBlock[] = [
+  {
+    type: 'paragraph',
+    variant: 'lead',
+    content: ["Every great journey begins with a single step, a spark of inspiration that ignites a flame destined to illuminate the world."],
+  },
+  {
+    type: 'paragraph',
+    variant: 'body',
+    content: [
+      "Our story is not merely a chronicle of business milestones—it is a testament to the power of belief, the courage to challenge conventions, and the relentless pursuit of excellence that defines who we are. In 2019, from a small garage workshop filled with whiteboards covered in ambitious diagrams and coffee cups that never seemed empty, three visionaries dared to imagine a different future. They saw a world where technology wasn't just a tool, but a bridge connecting human potential to ",
+      { text: "limitless possibilities", emphasis: 'em' },
+      ".",
+    ],
+  },
+  {
+    type: 'paragraph',
+    variant: 'body',
+    content: [
+      "The early days were marked by eighteen-hour coding sessions, countless iterations, and the kind of passionate debates that only true believers engage in. Every rejection from investors became fuel for innovation. Every technical challenge became an opportunity to pioneer new solutions. The team grew not through job postings, but through ",
+      { text: "shared conviction", emphasis: 'strong' },
+      "—people who believed in the mission found their way to us, drawn by an invisible force that recognized kindred spirits.",
+    ],
+  },
+  {
+    type: 'paragraph',
+    variant: 'body',
+    content: [
+      "When the world faced unprecedented challenges in 2020, we didn't retreat—we evolved. Remote collaboration became our laboratory for innovation, and the distance between team members became a canvas for creativity. We emerged from that crucible stronger, more resilient, and more certain than ever that our purpose was not just to build products, but to transform how humanity works, creates, and thrives together.",
+    ],
+  },
+  {
+    type: 'quote',
+    content: ["We don't build technology for technology's sake. We build bridges—between ideas and execution, between potential and achievement, between today and tomorrow."],
+    attribution: "Our Founding Principle",
+  },
+  {
+    type: 'paragraph',
+    variant: 'closing',
+    content: [
+      "Today, our solutions power enterprises across six continents, but our heart remains the same—that garage energy, that relentless curiosity, that unwavering commitment to our customers' success. We measure our achievements not in revenue alone, but in the millions of moments we've helped create: the startup founder who closed their first major deal, the enterprise team that finally broke through their productivity plateau, the innovator who turned their vision into reality. These are ",
+      { text: "the stories that drive us forward", href: "#testimonials-title" },
+      ", and we're just getting started.",
+    ],
+  },
+];
+
 // ============================================
 // COMPANY HISTORY DATA
 // Used in CinematicHistory component
 // ============================================
+export interface HistoryPullQuote {
+  text: string;
+  speaker?: string;
+  /** Speaker's role, e.g. "Co-founder & CEO" */
+  role?: string;
+}
+
+/** Press coverage or announcement highlighted alongside an era */
+export interface HistoryMediaCallout {
+  /** Publication or channel, e.g. "Press release" */
+  outlet: string;
+  headline: string;
+  href?: string;
+  logoUrl?: string;
+}
+
+export interface HistoryLink {
+  label: string;
+  href: string;
+}
+
 export interface HistoryEntry {
   year: number;
   title: string;
@@ -28,6 +128,12 @@ export interface HistoryEntry {
   imageLayer3?: string;
   /** Accent color for this era (HSL values) */
   accentColor: string;
+  /** Optional quotes shown after the blurb */
+  pullQuotes?: HistoryPullQuote[];
+  /** Optional press/announcement callouts */
+  mediaCallouts?: HistoryMediaCallout[];
+  /** Optional related links */
+  links?: HistoryLink[];
 }
 
 export const companyHistory: HistoryEntry[] = [
@@ -56,6 +162,12 @@ export const companyHistory: HistoryEntry[] = [
     imageLayer2: "https://images.unsplash.com/photo-1551434678-e076c223a692?w=600&q=80",
     imageLayer3: "https://images.unsplash.com/photo-1460925895917-afdab827c52f?w=400&q=80",
     accentColor: "142 70% 45%",
+    pullQuotes: [
+      { text: "The moment we realized our potential was limitless." },
+    ],
+    mediaCallouts: [
+      { outlet: "Press release", headline: "Series A funding round closes" },
+    ],
   },
   {
     year: 2023,
@@ -73,6 +185,9 @@ export const companyHistory: HistoryEntry[] = [
     imageLayer2: "https://images.unsplash.com/photo-1518770660439-4636190af475?w=600&q=80",
     imageLayer3: "https://images.unsplash.com/photo-1485827404703-89b55fcc595e?w=400&q=80",
     accentColor: "38 92% 50%",
+    links: [
+      { label: "See the milestones year by year", href: "#timeline-title" },
+    ],
   },
 ];
 
@@ -128,18 +243,49 @@ export const mvvgData: MVVGItem[] = [
 // COMPANY WAY TIMELINE DATA
 // Used in CompanyTimeline component
 // ============================================
+
+/** Gallery photo with optional caption and credit for the lightbox */
+export interface GalleryImage {
+  src: string;
+  caption?: string;
+  credit?: string;
+}
+
+/** Gallery entries may be a bare URL or a GalleryImage */
+export const toGalleryImage = (image: string | GalleryImage): GalleryImage =>
+  typeof image === 'string' ? { src: image } : image;
+
+/**
+ * Numeric KPI. The label doubles as the key for year-over-year deltas,
+ * so keep it identical across years for the same metric.
+ */
+export interface Kpi {
+  label: string;
+  /** Raw value, e.g. 2_500_000 rather than "2.5M"; percentages as 0-100 */
+  value: number;
+  /** Defaults to a plain number */
+  unit?: 'number' | 'currency' | 'percent';
+  /** ISO 4217 code, required when unit is 'currency' */
+  currency?: string;
+  /** 'plus' renders "500+", 'approx' renders "~500" */
+  qualifier?: 'plus' | 'approx';
+  /** Defaults to compact ("1.2M") */
+  notation?: 'standard' | 'compact';
+  /** Defaults to 1 */
+  maximumFractionDigits?: number;
+}
+
 export interface TimelineYear {
   year: number;
   heroImage: string;
   /** Optional GIF or video URL for enhanced visual */
   mediaUrl?: string;
   mediaType?: 'gif' | 'video';
+  /** Still frame for the media (defaults to heroImage) */
+  mediaPoster?: string;
   summary: string;
-  kpis: Array<{
-    label: string;
-    value: string;
-  }>;
-  gallery: string[];
+  kpis: Kpi[];
+  gallery: Array<string | GalleryImage>;
 }
 
 export const timelineData: TimelineYear[] = [
@@ -148,9 +294,9 @@ export const timelineData: TimelineYear[] = [
     heroImage: "https://images.unsplash.com/photo-1559136555-9303baea8ebd?w=1200&q=80",
     summary: "The year of foundation. We assembled our core team, secured seed funding, and launched our MVP to an eager early-adopter community. Every challenge became a lesson, every setback a stepping stone.",
     kpis: [
-      { label: "Team Size", value: "12" },
-      { label: "Seed Raised", value: "$2.5M" },
-      { label: "Beta Users", value: "5K" },
+      { label: "Team Size", value: 12 },
+      { label: "Seed Raised", value: 2_500_000, unit: "currency", currency: "USD" },
+      { label: "Beta Users", value: 5_000 },
     ],
     gallery: [
       "https://images.unsplash.com/photo-1522071820081-009f0129c71c?w=400&q=80",
@@ -162,9 +308,9 @@ export const timelineData: TimelineYear[] = [
     heroImage: "https://images.unsplash.com/photo-1560472354-b33ff0c44a43?w=1200&q=80",
     summary: "Growth accelerated beyond projections. Series A funding enabled rapid scaling, and our product-market fit crystallized. We hired across three continents and launched our enterprise tier.",
     kpis: [
-      { label: "Team Size", value: "48" },
-      { label: "Series A", value: "$18M" },
-      { label: "Active Users", value: "100K" },
+      { label: "Team Size", value: 48 },
+      { label: "Series A", value: 18_000_000, unit: "currency", currency: "USD" },
+      { label: "Active Users", value: 100_000 },
     ],
     gallery: [
       "https://images.unsplash.com/photo-1553877522-43269d4ea984?w=400&q=80",
@@ -179,14 +325,26 @@ export const timelineData: TimelineYear[] = [
     mediaType: 'gif',
     summary: "The milestone year. We crossed one million users, opened offices in London and Singapore, and launched our AI-powered features that redefined industry standards.",
     kpis: [
-      { label: "Team Size", value: "156" },
-      { label: "Revenue", value: "$42M" },
-      { label: "Users", value: "1.2M" },
+      { label: "Team Size", value: 156 },
+      { label: "Revenue", value: 42_000_000, unit: "currency", currency: "USD" },
+      { label: "Users", value: 1_200_000 },
     ],
     gallery: [
-      "https://images.unsplash.com/photo-1497366216548-37526070297c?w=400&q=80",
-      "https://images.unsplash.com/photo-1497215728101-856f4ea42174?w=400&q=80",
-      "https://images.unsplash.com/photo-1504384308090-c894fdcc538d?w=400&q=80",
+      {
+        src: "https://images.unsplash.com/photo-1497366216548-37526070297c?w=400&q=80",
+        caption: "Opening day at the London office",
+        credit: "Unsplash",
+      },
+      {
+        src: "https://images.unsplash.com/photo-1497215728101-856f4ea42174?w=400&q=80",
+        caption: "The Singapore team's first workspace",
+        credit: "Unsplash",
+      },
+      {
+        src: "https://images.unsplash.com/photo-1504384308090-c894fdcc538d?w=400&q=80",
+        caption: "Launch week for our AI-powered features",
+        credit: "Unsplash",
+      },
     ],
   },
   {
@@ -194,9 +352,9 @@ export const timelineData: TimelineYear[] = [
     heroImage: "https://images.unsplash.com/photo-1451187580459-43490279c0fa?w=1200&q=80",
     summary: "Transformation at scale. Series C funding positioned us as a market leader. We acquired two complementary startups, launched in 15 new countries, and achieved profitability.",
     kpis: [
-      { label: "Team Size", value: "320" },
-      { label: "Series C", value: "$120M" },
-      { label: "Users", value: "4.5M" },
+      { label: "Team Size", value: 320 },
+      { label: "Series C", value: 120_000_000, unit: "currency", currency: "USD" },
+      { label: "Users", value: 4_500_000 },
     ],
     gallery: [
       "https://images.unsplash.com/photo-1519389950473-47ba0277781c?w=400&q=80",
@@ -208,9 +366,9 @@ export const timelineData: TimelineYear[] = [
     heroImage: "https://images.unsplash.com/photo-1518770660439-4636190af475?w=1200&q=80",
     summary: "The future is now. Our platform powers enterprises worldwide, our AI initiatives are setting new benchmarks, and we're just getting started on our mission to transform how the world works.",
     kpis: [
-      { label: "Team Size", value: "500+" },
-      { label: "Valuation", value: "$2B" },
-      { label: "Users", value: "10M+" },
+      { label: "Team Size", value: 500, qualifier: "plus" },
+      { label: "Valuation", value: 2_000_000_000, unit: "currency", currency: "USD" },
+      { label: "Users", value: 10_000_000, qualifier: "plus" },
     ],
     gallery: [
       "https://images.unsplash.com/photo-1485827404703-89b55fcc595e?w=400&q=80",
@@ -222,8 +380,20 @@ export const timelineData: TimelineYear[] = [
 
 // ============================================
 // TESTIMONIAL DATA
-// Used in TestimonialSlider component
+// Used in TestimonialSlider component and the /customers wall
 // ============================================
+export type CompanySize = 'startup' | 'smb' | 'mid-market' | 'enterprise';
+
+/**
+ * How a testimonial is presented: a letter, a recording or the quote alone.
+ * Recordings play in-page with optional WebVTT captions and a transcript.
+ */
+export type TestimonialMedia =
+  | { type: 'pdf'; url: string }
+  | { type: 'video'; url: string; poster?: string; captionsUrl?: string; captionsLang?: string; transcript?: string }
+  | { type: 'audio'; url: string; captionsUrl?: string; captionsLang?: string; transcript?: string }
+  | { type: 'quote' };
+
 export interface Testimonial {
   id: string;
   name: string;
@@ -231,12 +401,21 @@ export interface Testimonial {
   company: string;
   /** Cover thumbnail for the testimonial card */
   coverImage: string;
-  /** PDF document URL - lazy loaded on interaction */
-  pdfUrl: string;
+  /** Letter, recording or quote-only; media files load on interaction */
+  media: TestimonialMedia;
   /** Short excerpt displayed on hover */
   excerpt: string;
   /** Full quote for accessibility */
   fullQuote: string;
+  /** Facets of the /customers wall; free text except for companySize */
+  industry: string;
+  region: string;
+  companySize: CompanySize;
+  /** Product the customer talks about */
+  product: string;
+  /** Department of the person quoted, e.g. "Engineering" */
+  role: string;
+  tags: string[];
 }
 
 export const testimonialData: Testimonial[] = [
@@ -247,9 +426,15 @@ export const testimonialData: Testimonial[] = [
     company: "Nexus Innovations",
     coverImage: "https://images.unsplash.com/photo-1573496359142-b8d87734a5a2?w=600&q=80",
     // Placeholder: Replace with assets/testimonial-1.pdf
-    pdfUrl: "/placeholder-testimonial.pdf",
+    media: { type: "pdf", url: "/placeholder-testimonial.pdf" },
     excerpt: "The transformation in our workflow efficiency has been nothing short of remarkable. We've reduced project delivery times by 40%.",
     fullQuote: "The transformation in our workflow efficiency has been nothing short of remarkable. We've reduced project delivery times by 40%, and our team collaboration has reached new heights. This platform has become the backbone of our operations.",
+    industry: "Technology",
+    region: "North America",
+    companySize: "enterprise",
+    product: "Workflow Automation",
+    role: "Engineering",
+    tags: ["Productivity", "Collaboration"],
   },
   {
     id: "testimonial-2",
@@ -257,10 +442,22 @@ export const testimonialData: Testimonial[] = [
     title: "VP of Operations",
     company: "GlobalTech Solutions",
     coverImage: "https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=600&q=80",
-    // Placeholder: Replace with assets/testimonial-2.pdf
-    pdfUrl: "/placeholder-testimonial.pdf",
+    // Placeholder: Replace with assets/testimonial-2.mp4 and its captions
+    media: {
+      type: "video",
+      url: "/placeholder-testimonial.mp4",
+      captionsUrl: "/placeholder-testimonial.vtt",
+      captionsLang: "en",
+      transcript: "Implementation was seamless, and the ROI was visible within the first quarter. Our teams across 12 countries now work as one unified force. The platform's scalability and reliability have exceeded every expectation we had.",
+    },
     excerpt: "Implementation was seamless, and the ROI was visible within the first quarter. Our teams across 12 countries now work as one.",
     fullQuote: "Implementation was seamless, and the ROI was visible within the first quarter. Our teams across 12 countries now work as one unified force. The platform's scalability and reliability have exceeded every expectation we had.",
+    industry: "Logistics",
+    region: "Europe",
+    companySize: "enterprise",
+    product: "Collaboration Suite",
+    role: "Operations",
+    tags: ["Global teams", "Fast ROI"],
   },
   {
     id: "testimonial-3",
@@ -268,10 +465,22 @@ export const testimonialData: Testimonial[] = [
     title: "Director of Digital Strategy",
     company: "Horizon Enterprises",
     coverImage: "https://images.unsplash.com/photo-1580489944761-15a19d654956?w=600&q=80",
-    // Placeholder: Replace with assets/testimonial-3.pdf
-    pdfUrl: "/placeholder-testimonial.pdf",
+    // Placeholder: Replace with assets/testimonial-3.mp3 and its captions
+    media: {
+      type: "audio",
+      url: "/placeholder-testimonial.mp3",
+      captionsUrl: "/placeholder-testimonial.vtt",
+      captionsLang: "en",
+      transcript: "What impressed me most was the AI-powered insights. We're making decisions faster and with more confidence than ever before. The analytics dashboard alone has transformed how our leadership team operates.",
+    },
     excerpt: "What impressed me most was the AI-powered insights. We're making decisions faster and with more confidence than ever before.",
     fullQuote: "What impressed me most was the AI-powered insights. We're making decisions faster and with more confidence than ever before. The analytics dashboard alone has transformed how our leadership team operates.",
+    industry: "Financial Services",
+    region: "Latin America",
+    companySize: "mid-market",
+    product: "AI Insights",
+    role: "Strategy",
+    tags: ["AI", "Analytics", "Decision making"],
   },
   {
     id: "testimonial-4",
@@ -279,47 +488,14 @@ export const testimonialData: Testimonial[] = [
     title: "Founder & CEO",
     company: "Velocity Labs",
     coverImage: "https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=600&q=80",
-    // Placeholder: Replace with assets/testimonial-4.pdf
-    pdfUrl: "/placeholder-testimonial.pdf",
+    media: { type: "quote" },
     excerpt: "As a startup, we needed enterprise-grade tools without enterprise complexity. This platform delivered exactly that.",
     fullQuote: "As a startup, we needed enterprise-grade tools without enterprise complexity. This platform delivered exactly that—powerful features that scale with us, intuitive interfaces that our team adopted instantly, and support that treats us like partners.",
+    industry: "Technology",
+    region: "Asia Pacific",
+    companySize: "startup",
+    product: "Workflow Automation",
+    role: "Leadership",
+    tags: ["Scalability", "Onboarding", "Support"],
   },
 ];
-
-// ============================================
-// ANALYTICS HOOKS (Global)
-// Exposed on window for external analytics integration
-// ============================================
-
-// Initialize global analytics arrays
-declare global {
-  interface Window {
-    aboutMvvClicks: Array<{ id: string; label: string; timestamp: number }>;
-    testimonialPdfOpened: Array<{ id: string; name: string; timestamp: number }>;
-  }
-}
-
-if (typeof window !== 'undefined') {
-  window.aboutMvvClicks = window.aboutMvvClicks || [];
-  window.testimonialPdfOpened = window.testimonialPdfOpened || [];
-}
-
-/**
- * Track MVV card interaction
- */
-export const trackMvvClick = (id: string, label: string): void => {
-  if (typeof window !== 'undefined') {
-    window.aboutMvvClicks.push({ id, label, timestamp: Date.now() });
-    console.log('[Analytics] MVV Click:', { id, label });
-  }
-};
-
-/**
- * Track PDF open interaction
- */
-export const trackPdfOpen = (id: string, name: string): void => {
-  if (typeof window !== 'undefined') {
-    window.testimonialPdfOpened.push({ id, name, timestamp: Date.now() });
-    console.log('[Analytics] PDF Opened:', { id, name });
-  }
-};
@@ -0,0 +1,446 @@
+/**
+ * ABOUT PAGE CONTENT SCHEMA
+ *
+ * Runtime (zod) mirrors of the types declared in aboutData.ts.
+ * Every collection is validated on load so that a missing image,
+ * a duplicate year or a malformed accent color is reported as a
+ * readable list of violations instead of a silently broken page.
+ */
+
+import { z } from 'zod';
+import type {
+  StoryBlock,
+  HistoryEntry,
+  MVVGItem,
+  TimelineYear,
+  Testimonial,
+} from '@/data/aboutData';
+
+// ============================================
+// PRIMITIVES
+// ============================================
+
+/** Absolute http(s) URL or a root-relative asset path */
+const assetUrl = z
+  .string()
+  .min(1, 'URL is required')
+  .refine(
+    (value) => !value || /^https?:\/\/\S+$/.test(value) || /^\/\S*$/.test(value),
+    'Must be an absolute http(s) URL or a root-relative path'
+  );
+
+/**
+ * Asset URL, or a base64 data: URL for files uploaded with a submission
+ * and kept inline by the development submission adapters
+ */
+const uploadUrl = z
+  .string()
+  .min(1, 'URL is required')
+  .refine(
+    (value) => assetUrl.safeParse(value).success || /^data:[\w.+-]+\/[\w.+-]+;base64,\S+$/.test(value),
+    'Must be an absolute http(s) URL, a root-relative path or a base64 data: URL'
+  );
+
+/** Space-separated HSL triplet as consumed by `hsl(...)`, e.g. "38 92% 50%" */
+const hslTriplet = z
+  .string()
+  .regex(
+    /^(\d{1,3}(?:\.\d+)?) (\d{1,3}(?:\.\d+)?)% (\d{1,3}(?:\.\d+)?)%$/,
+    'Must be an HSL triplet like "38 92% 50%"'
+  )
+  .refine((value) => {
+    const [h, s, l] = value.replace(/%/g, '').split(' ').map(Number);
+    return h <= 360 && s <= 100 && l <= 100;
+  }, 'HSL values out of range (hue 0-360, saturation/lightness 0-100%)');
+
+/** Link target: URL, root-relative path, in-page anchor or mailto/tel */
+const linkHref = z
+  .string()
+  .regex(/^(https?:\/\/|\/|#|mailto:|tel:)\S*$/, 'Must be a URL, path, #anchor, mailto: or tel: link');
+
+const year = z.number().int().min(1900).max(2100);
+
+const nonEmpty = (label: string) => z.string().trim().min(1, `${label} is required`);
+
+/**
+ * Reports every entry whose key was already used earlier in the collection
+ */
+const uniqueBy = <T>(key: (item: T) => string | number, label: string) =>
+  (items: T[], ctx: z.RefinementCtx) => {
+    const seen = new Map<string | number, number>();
+    items.forEach((item, index) => {
+      const value = key(item);
+      if (seen.has(value)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index],
+          message: `Duplicate ${label} "${value}" (first used at index ${seen.get(value)})`,
+        });
+      } else {
+        seen.set(value, index);
+      }
+    });
+  };
+
+// ============================================
+// ENTRY SCHEMAS
+// ============================================
+
+const richTextSchema = z
+  .array(
+    z.union([
+      z.string(),
+      z.object({
+        text: nonEmpty('Text'),
+        emphasis: z.enum(['em', 'strong']).optional(),
+        href: linkHref.optional(),
+      }),
+    ])
+  )
+  .min(1, 'Rich text needs at least one run');
+
+export const storyBlockSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('paragraph'),
+    variant: z.enum(['lead', 'body', 'closing']),
+    content: richTextSchema,
+  }),
+  z.object({
+    type: z.literal('quote'),
+    content: richTextSchema,
+    attribution: z.string().optional(),
+  }),
+]);
+
+export const historyEntrySchema = z.object({
+  year,
+  title: nonEmpty('Title'),
+  blurb: nonEmpty('Blurb'),
+  imageUrl: assetUrl,
+  imageLayer2: assetUrl.optional(),
+  imageLayer3: assetUrl.optional(),
+  accentColor: hslTriplet,
+  pullQuotes: z
+    .array(
+      z.object({
+        text: nonEmpty('Quote'),
+        speaker: z.string().optional(),
+        role: z.string().optional(),
+      })
+    )
+    .optional(),
+  mediaCallouts: z
+    .array(
+      z.object({
+        outlet: nonEmpty('Outlet'),
+        headline: nonEmpty('Headline'),
+        href: linkHref.optional(),
+        logoUrl: assetUrl.optional(),
+      })
+    )
+    .optional(),
+  links: z
+    .array(
+      z.object({
+        label: nonEmpty('Link label'),
+        href: linkHref,
+      })
+    )
+    .optional(),
+});
+
+export const mvvgItemSchema = z.object({
+  id: nonEmpty('Id'),
+  type: z.enum(['mission', 'vision', 'values', 'goals']),
+  icon: nonEmpty('Icon'),
+  title: nonEmpty('Title'),
+  summary: nonEmpty('Summary'),
+  expandedContent: nonEmpty('Expanded content'),
+});
+
+export const kpiSchema = z
+  .object({
+    label: nonEmpty('KPI label'),
+    value: z.number({ invalid_type_error: 'KPI value must be a number, e.g. 2500000 rather than "$2.5M"' }).finite(),
+    unit: z.enum(['number', 'currency', 'percent']).optional(),
+    currency: z.string().regex(/^[A-Z]{3}$/, 'Must be an ISO 4217 currency code like "USD"').optional(),
+    qualifier: z.enum(['plus', 'approx']).optional(),
+    notation: z.enum(['standard', 'compact']).optional(),
+    maximumFractionDigits: z.number().int().min(0).max(20).optional(),
+  })
+  .superRefine((kpi, ctx) => {
+    if (kpi.unit === 'currency' && !kpi.currency) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['currency'],
+        message: 'currency is required when unit is "currency"',
+      });
+    }
+  });
+
+export const timelineYearSchema = z
+  .object({
+    year,
+    heroImage: assetUrl,
+    mediaUrl: assetUrl.optional(),
+    mediaType: z.enum(['gif', 'video']).optional(),
+    mediaPoster: assetUrl.optional(),
+    summary: nonEmpty('Summary'),
+    kpis: z
+      .array(kpiSchema)
+      .min(1, 'At least one KPI is required')
+      .superRefine(uniqueBy((kpi) => kpi.label, 'KPI label')),
+    gallery: z.array(
+      z.union([
+        assetUrl,
+        z.object({
+          src: assetUrl,
+          caption: z.string().optional(),
+          credit: z.string().optional(),
+        }),
+      ])
+    ),
+  })
+  .superRefine((entry, ctx) => {
+    if (entry.mediaUrl && !entry.mediaType) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['mediaType'],
+        message: 'mediaType is required when mediaUrl is set',
+      });
+    }
+    if (entry.mediaType && !entry.mediaUrl) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['mediaUrl'],
+        message: 'mediaUrl is required when mediaType is set',
+      });
+    }
+  });
+
+/** WebVTT captions file */
+const captionsUrl = assetUrl.refine(
+  (value) => /\.vtt([?#]|$)/i.test(value),
+  'Captions must be a WebVTT (.vtt) file'
+);
+
+/** BCP 47 language tag of the captions, e.g. "en" or "pt-BR" */
+const captionsLang = z
+  .string()
+  .regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, 'Captions language must be a BCP 47 tag such as "en" or "pt-BR"');
+
+const videoMediaSchema = z.object({
+  type: z.literal('video'),
+  url: assetUrl,
+  poster: assetUrl.optional(),
+  captionsUrl: captionsUrl.optional(),
+  captionsLang: captionsLang.optional(),
+  transcript: z.string().optional(),
+});
+
+const audioMediaSchema = z.object({
+  type: z.literal('audio'),
+  url: assetUrl,
+  captionsUrl: captionsUrl.optional(),
+  captionsLang: captionsLang.optional(),
+  transcript: z.string().optional(),
+});
+
+const quoteMediaSchema = z.object({
+  type: z.literal('quote'),
+});
+
+const testimonialMediaSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('pdf'), url: assetUrl }),
+  videoMediaSchema,
+  audioMediaSchema,
+  quoteMediaSchema,
+]);
+
+const testimonialFields = z.object({
+  id: nonEmpty('Id'),
+  name: nonEmpty('Name'),
+  title: nonEmpty('Title'),
+  company: nonEmpty('Company'),
+  coverImage: assetUrl,
+  media: testimonialMediaSchema,
+  excerpt: nonEmpty('Excerpt'),
+  fullQuote: nonEmpty('Full quote'),
+  industry: nonEmpty('Industry'),
+  region: nonEmpty('Region'),
+  companySize: z.enum(['startup', 'smb', 'mid-market', 'enterprise']),
+  product: nonEmpty('Product'),
+  role: nonEmpty('Role'),
+  tags: z.array(nonEmpty('Tag')),
+});
+
+const refineTestimonial = (entry: z.infer<typeof testimonialFields>, ctx: z.RefinementCtx) => {
+  // Without a picture, captions or a transcript are the only way to follow a recording
+  if (entry.media.type === 'audio' && !entry.media.captionsUrl && !entry.media.transcript?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['media', 'transcript'],
+      message: 'Audio testimonials need captionsUrl or a transcript',
+    });
+  }
+  // The track is labelled with its own language, not the page locale
+  const { media } = entry;
+  if ((media.type === 'video' || media.type === 'audio') && media.captionsUrl && !media.captionsLang) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['media', 'captionsLang'],
+      message: 'captionsLang is required when captionsUrl is set',
+    });
+  }
+};
+
+export const testimonialSchema = testimonialFields.superRefine(refineTestimonial);
+
+/**
+ * Testimonial drafted from a submission: the headshot and the letter may
+ * still be the uploaded files as data: URLs. Good enough for moderation
+ * and for the pages of the browser that stores them, but not for content
+ * files, which need testimonialSchema.
+ */
+export const submittedTestimonialSchema = testimonialFields
+  .extend({
+    coverImage: uploadUrl,
+    media: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('pdf'), url: uploadUrl }),
+      videoMediaSchema,
+      audioMediaSchema,
+      quoteMediaSchema,
+    ]),
+  })
+  .superRefine(refineTestimonial);
+
+// ============================================
+// COLLECTION SCHEMAS (cross-entry checks)
+// ============================================
+
+/**
+ * Reports every entry whose year does not follow the previous one
+ */
+const ascendingYears = (items: Array<{ year: number }>, ctx: z.RefinementCtx) => {
+  items.forEach((item, index) => {
+    if (index > 0 && item.year <= items[index - 1].year) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index, 'year'],
+        message: `Years must be ascending: ${item.year} follows ${items[index - 1].year}`,
+      });
+    }
+  });
+};
+
+export const companyStorySchema = z
+  .array(storyBlockSchema)
+  .min(1, 'Story needs at least one block');
+
+export const companyHistorySchema = z
+  .array(historyEntrySchema)
+  .min(1, 'History needs at least one entry')
+  .superRefine(ascendingYears);
+
+export const mvvgCollectionSchema = z
+  .array(mvvgItemSchema)
+  .superRefine(uniqueBy((item) => item.id, 'id'))
+  .superRefine(uniqueBy((item) => item.type, 'type'));
+
+export const timelineCollectionSchema = z
+  .array(timelineYearSchema)
+  .min(1, 'Timeline needs at least one year')
+  .superRefine(uniqueBy((item) => item.year, 'year'))
+  .superRefine(ascendingYears);
+
+export const testimonialCollectionSchema = z
+  .array(testimonialSchema)
+  .superRefine(uniqueBy((item) => item.id, 'id'));
+
+export const aboutContentSchema = z.object({
+  story: companyStorySchema,
+  history: companyHistorySchema,
+  mvvg: mvvgCollectionSchema,
+  timeline: timelineCollectionSchema,
+  testimonials: testimonialCollectionSchema,
+});
+
+/**
+ * All About page collections. Declared from the aboutData.ts interfaces
+ * rather than inferred, since zod inference needs strictNullChecks.
+ */
+export interface AboutContent {
+  story: StoryBlock[];
+  history: HistoryEntry[];
+  mvvg: MVVGItem[];
+  timeline: TimelineYear[];
+  testimonials: Testimonial[];
+}
+
+export type AboutCollection = keyof AboutContent;
+
+// ============================================
+// VALIDATION & REPORTING
+// ============================================
+
+export interface ContentIssue {
+  collection: AboutCollection | 'root';
+  /** Human-readable location, e.g. "timeline[2].kpis[0].value" */
+  path: string;
+  message: string;
+}
+
+export interface ContentValidationResult {
+  valid: boolean;
+  issues: ContentIssue[];
+}
+
+const formatPath = (path: Array<string | number>): string =>
+  path.reduce<string>(
+    (acc, segment) =>
+      typeof segment === 'number' ? `${acc}[${segment}]` : acc ? `${acc}.${segment}` : segment,
+    ''
+  );
+
+const toContentIssues = (error: z.ZodError, prefix: Array<string | number> = []): ContentIssue[] =>
+  error.issues.map((issue) => {
+    const path = [...prefix, ...issue.path];
+    const [collection] = path;
+    return {
+      collection: typeof collection === 'string' && collection in aboutContentSchema.shape
+        ? (collection as AboutCollection)
+        : 'root',
+      path: formatPath(path) || '(root)',
+      message: issue.message,
+    };
+  });
+
+/**
+ * Validate all About page collections and collect every violation
+ */
+export const validateAboutContent = (content: unknown): ContentValidationResult => {
+  const result = aboutContentSchema.safeParse(content);
+  if (result.success) return { valid: true, issues: [] };
+  return { valid: false, issues: toContentIssues(result.error) };
+};
+
+/**
+ * Validate a single collection, e.g. one fetched content file
+ */
+export const validateCollection = (
+  collection: AboutCollection,
+  data: unknown
+): ContentValidationResult => {
+  const result = aboutContentSchema.shape[collection].safeParse(data);
+  if (result.success) return { valid: true, issues: [] };
+  return { valid: false, issues: toContentIssues(result.error, [collection]) };
+};
+
+/**
+ * Multi-line report suitable for console output
+ */
+export const formatContentIssues = (issues: ContentIssue[]): string =>
+  [
+    `About content failed validation with ${issues.length} issue${issues.length === 1 ? '' : 's'}:`,
+    ...issues.map((issue) => `  • ${issue.path}: ${issue.message}`),
+  ].join('\n');
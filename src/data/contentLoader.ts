@@ -0,0 +1,175 @@
+/**
+ * ABOUT PAGE CONTENT LOADER
+ *
+ * Loads the About page collections from versioned JSON or YAML files
+ * so the content team can edit them without touching compiled code.
+ *
+ * CONTENT DIRECTORY (public/content by default):
+ * - manifest.json maps each collection (story, history, mvvg, timeline,
+ *   testimonials) to a file and carries a version used for cache busting,
+ *   e.g. { "version": "1.0.0", "collections": { "history": "v1/history.json" } }
+ * - "locales" maps other locales to their own files; a collection a locale
+ *   does not list uses the default locale's file
+ * - Files ending in .yaml / .yml are parsed as YAML, everything else as JSON
+ * - Override the location with VITE_CONTENT_BASE_URL
+ *
+ * FALLBACKS:
+ * A collection that is missing from the manifest, fails to fetch, fails to
+ * parse or fails schema validation is served from the bundled defaults in
+ * aboutData.ts. If the manifest itself cannot be loaded the query rejects
+ * and useAboutContent serves the bundled content as a whole. Bundled
+ * content is authored in the default locale only.
+ */
+
+import { companyStory, companyHistory, mvvgData, timelineData, testimonialData } from '@/data/aboutData';
+import {
+  aboutContentSchema,
+  validateAboutContent,
+  validateCollection,
+  formatContentIssues,
+  type AboutCollection,
+  type AboutContent,
+  type ContentIssue,
+} from '@/data/aboutSchema';
+import { DEFAULT_LOCALE, type Locale } from '@/i18n/config';
+
+type CollectionFiles = Partial<Record<AboutCollection, string>>;
+
+export interface ContentManifest {
+  version: string;
+  /** Files for the default locale */
+  collections: CollectionFiles;
+  /** Per-locale files, overriding the default locale's */
+  locales?: Partial<Record<Locale, CollectionFiles>>;
+}
+
+export interface LoadedAboutContent {
+  content: AboutContent;
+  /** Manifest version, null when serving bundled content only */
+  version: string | null;
+  /** Collections served from the bundled defaults */
+  fallbacks: AboutCollection[];
+  /** Fetch, parse and schema violations encountered while loading */
+  issues: ContentIssue[];
+}
+
+export const CONTENT_BASE_URL: string =
+  import.meta.env.VITE_CONTENT_BASE_URL ?? `${import.meta.env.BASE_URL}content/`;
+
+const COLLECTIONS = Object.keys(aboutContentSchema.shape) as AboutCollection[];
+
+// ============================================
+// BUNDLED DEFAULTS
+// ============================================
+
+export const bundledAboutContent: AboutContent = {
+  story: companyStory,
+  history: companyHistory,
+  mvvg: mvvgData,
+  timeline: timelineData,
+  testimonials: testimonialData,
+};
+
+// Validate bundled content once at load time
+export const bundledContentReport = validateAboutContent(bundledAboutContent);
+
+if (!bundledContentReport.valid) {
+  console.error(formatContentIssues(bundledContentReport.issues));
+}
+
+export const bundledLoadResult: LoadedAboutContent = {
+  content: bundledAboutContent,
+  version: null,
+  fallbacks: COLLECTIONS,
+  issues: bundledContentReport.issues,
+};
+
+// ============================================
+// FETCHING & PARSING
+// ============================================
+
+const fetchText = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText} for ${url}`);
+  }
+  return response.text();
+};
+
+/**
+ * Parse a content file by extension; the YAML parser is only downloaded when needed
+ */
+const parseContentFile = async (file: string, text: string): Promise<unknown> => {
+  if (/\.ya?ml$/i.test(file)) {
+    const { parse } = await import('yaml');
+    return parse(text);
+  }
+  return JSON.parse(text);
+};
+
+interface CollectionResult {
+  collection: AboutCollection;
+  data: unknown;
+  fallback: boolean;
+  issues: ContentIssue[];
+}
+
+const loadCollection = async (
+  collection: AboutCollection,
+  manifest: ContentManifest,
+  locale: Locale
+): Promise<CollectionResult> => {
+  const file = (locale !== DEFAULT_LOCALE && manifest.locales?.[locale]?.[collection])
+    || manifest.collections?.[collection];
+  const fallback = (issues: ContentIssue[]): CollectionResult => ({
+    collection,
+    data: bundledAboutContent[collection],
+    fallback: true,
+    issues,
+  });
+
+  if (!file) return fallback([]);
+
+  try {
+    const url = `${CONTENT_BASE_URL}${file}?v=${encodeURIComponent(manifest.version)}`;
+    const data = await parseContentFile(file, await fetchText(url));
+    const report = validateCollection(collection, data);
+    return report.valid
+      ? { collection, data, fallback: false, issues: [] }
+      : fallback(report.issues);
+  } catch (error) {
+    return fallback([
+      {
+        collection,
+        path: file,
+        message: `Could not load file: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    ]);
+  }
+};
+
+/**
+ * Fetch the manifest and every collection it lists for a locale
+ */
+export const fetchAboutContent = async (locale: Locale = DEFAULT_LOCALE): Promise<LoadedAboutContent> => {
+  const manifest = JSON.parse(await fetchText(`${CONTENT_BASE_URL}manifest.json`)) as ContentManifest;
+  const results = await Promise.all(
+    COLLECTIONS.map((collection) => loadCollection(collection, manifest, locale))
+  );
+
+  const content = Object.fromEntries(
+    results.map(({ collection, data }) => [collection, data])
+  ) as unknown as AboutContent;
+  const issues = results.flatMap((result) => result.issues);
+
+  if (issues.length > 0) {
+    console.warn(formatContentIssues(issues));
+  }
+
+  return {
+    content,
+    version: manifest.version ?? null,
+    fallbacks: results.filter((result) => result.fallback).map((result) => result.collection),
+    issues: [...bundledContentReport.issues, ...issues],
+  };
+};
@@ -0,0 +1,62 @@
+/**
+ * useAboutContent Hook
+ *
+ * Fetches the About page collections for a locale through React Query
+ * (QueryClientProvider in App.tsx). Resolves to the bundled
+ * defaults when the content directory cannot be reached.
+ *
+ * Testimonials published from /admin/testimonials are appended to the
+ * testimonial collection of their locale.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  fetchAboutContent,
+  bundledLoadResult,
+  type LoadedAboutContent,
+} from '@/data/contentLoader';
+import { usePublishedTestimonials } from '@/hooks/useTestimonialSubmissions';
+import { mergePublishedTestimonials } from '@/lib/submissions';
+import { DEFAULT_LOCALE, type Locale } from '@/i18n/config';
+
+interface UseAboutContentReturn extends Partial<LoadedAboutContent> {
+  /** True until remote content (or the fallback) is available */
+  isLoading: boolean;
+}
+
+export const ABOUT_CONTENT_QUERY_KEY = ['about-content'] as const;
+
+export const useAboutContent = (locale: Locale = DEFAULT_LOCALE): UseAboutContentReturn => {
+  const query = useQuery({
+    queryKey: [...ABOUT_CONTENT_QUERY_KEY, locale],
+    queryFn: () => fetchAboutContent(locale),
+    staleTime: Infinity,
+    retry: 1,
+  });
+
+  const { data: published } = usePublishedTestimonials(locale);
+
+  useEffect(() => {
+    if (query.error) {
+      console.warn('[Content] Falling back to bundled About content:', query.error);
+    }
+  }, [query.error]);
+
+  const loaded = query.isError ? bundledLoadResult : query.data;
+  const content = useMemo(
+    () =>
+      loaded && published?.length
+        ? { ...loaded.content, testimonials: mergePublishedTestimonials(loaded.content.testimonials, published) }
+        : loaded?.content,
+    [loaded, published]
+  );
+
+  if (query.isError) {
+    return { ...bundledLoadResult, content, isLoading: false };
+  }
+
+  return { ...query.data, content, isLoading: query.isPending };
+};
+
+export default useAboutContent;
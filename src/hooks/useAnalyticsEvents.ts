@@ -0,0 +1,38 @@
+/**
+ * useAnalyticsEvents Hook
+ *
+ * Loads recorded analytics events for the admin dashboard from either
+ * this browser's localStorage or the JSON endpoint in
+ * VITE_ANALYTICS_EVENTS_URL (an array of events or { events: [...] }).
+ * Rows that fail validation are skipped.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { parseTrackedEvents, readStoredEvents, type TrackedEvent } from '@/lib/analytics';
+
+export type AnalyticsEventSource = 'local' | 'endpoint';
+
+export const ANALYTICS_EVENTS_URL = import.meta.env.VITE_ANALYTICS_EVENTS_URL;
+
+const fetchEndpointEvents = async (): Promise<TrackedEvent[]> => {
+  const response = await fetch(ANALYTICS_EVENTS_URL);
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText} for ${ANALYTICS_EVENTS_URL}`);
+  }
+  const body = await response.json();
+  const events = Array.isArray(body) ? body : body?.events;
+  if (!Array.isArray(events)) {
+    throw new Error('Expected an array of events or { "events": [...] }');
+  }
+  return parseTrackedEvents(events, ANALYTICS_EVENTS_URL);
+};
+
+export const useAnalyticsEvents = (source: AnalyticsEventSource) =>
+  useQuery({
+    queryKey: ['analytics-events', source],
+    queryFn: async () =>
+      source === 'endpoint' ? fetchEndpointEvents() : parseTrackedEvents(readStoredEvents(), 'localStorage'),
+    enabled: source === 'local' || Boolean(ANALYTICS_EVENTS_URL),
+  });
+
+export default useAnalyticsEvents;
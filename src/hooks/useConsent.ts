@@ -0,0 +1,32 @@
+/**
+ * useConsent Hook
+ *
+ * Returns the visitor's consent choice, kept in sync with the consent
+ * store (including other tabs), plus actions to change it.
+ * openPreferences is a no-op outside a ConsentManager.
+ */
+
+import { useContext, useSyncExternalStore } from 'react';
+import { ConsentUIContext } from '@/components/consent/context';
+import {
+  getConsent,
+  subscribeConsent,
+  saveConsent,
+  acceptAllConsent,
+  rejectOptionalConsent,
+} from '@/lib/consent';
+
+export const useConsent = () => {
+  const consent = useSyncExternalStore(subscribeConsent, getConsent, getConsent);
+  const { openPreferences } = useContext(ConsentUIContext);
+
+  return {
+    ...consent,
+    save: saveConsent,
+    acceptAll: acceptAllConsent,
+    rejectOptional: rejectOptionalConsent,
+    openPreferences,
+  };
+};
+
+export default useConsent;
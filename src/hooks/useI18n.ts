@@ -0,0 +1,34 @@
+/**
+ * useI18n Hook
+ *
+ * Returns the active locale, its UI strings, writing direction and
+ * locale-bound formatters.
+ * Falls back to the default locale outside an I18nProvider.
+ */
+
+import { useCallback, useContext } from 'react';
+import { I18nContext } from '@/i18n/context';
+import type { Kpi } from '@/data/aboutData';
+import { formatChange, formatKpi, formatNumber } from '@/i18n/format';
+
+export const useI18n = () => {
+  const { locale, t, dir } = useContext(I18nContext);
+
+  return {
+    locale,
+    t,
+    dir,
+    isRtl: dir === 'rtl',
+    formatNumber: useCallback(
+      (value: number, options?: Intl.NumberFormatOptions) => formatNumber(value, locale, options),
+      [locale]
+    ),
+    formatKpi: useCallback(
+      (kpi: Kpi, value?: number) => formatKpi(kpi, locale, value),
+      [locale]
+    ),
+    formatChange: useCallback((ratio: number) => formatChange(ratio, locale), [locale]),
+  };
+};
+
+export default useI18n;
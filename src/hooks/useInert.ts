@@ -0,0 +1,22 @@
+/**
+ * useInert Hook
+ *
+ * Ref that makes an element inert while `inert` is true: its controls
+ * leave the tab order and cannot be clicked or read by assistive tech.
+ * For overlays that fade out in place instead of unmounting. React 18
+ * has no `inert` prop, so the DOM property is set directly.
+ */
+
+import { useEffect, useRef } from 'react';
+
+export const useInert = <T extends HTMLElement>(inert: boolean) => {
+  const ref = useRef<T>(null);
+
+  useEffect(() => {
+    if (ref.current) ref.current.inert = inert;
+  }, [inert]);
+
+  return ref;
+};
+
+export default useInert;
@@ -0,0 +1,153 @@
+/**
+ * useScrollSpy Hook
+ *
+ * Scroll-spy engine: tracks registered elements and derives the active one
+ * from their geometry relative to an activation line in the viewport.
+ * - One measurement per animation frame on scroll and resize
+ * - Hysteresis so an item has to move clearly past the line before the
+ *   active item changes, which keeps the result from flickering at borders
+ * - Progress per item and across all items
+ *
+ * useScrollSpy creates an engine (provide it through ScrollSpyContext);
+ * useScrollSpyContext and useScrollSpyItem read and register with the
+ * nearest one.
+ */
+
+import { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ScrollSpyContext,
+  type ScrollSpyContextValue,
+  type ScrollSpyOptions,
+  type ScrollSpyState,
+} from '@/components/scroll-spy/context';
+
+const INITIAL_STATE: ScrollSpyState = {
+  activeId: null,
+  progress: {},
+  overallProgress: 0,
+  inView: false,
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Round so sub-pixel jitter does not cause a re-render
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const isSameState = (a: ScrollSpyState, b: ScrollSpyState) =>
+  a.activeId === b.activeId &&
+  a.overallProgress === b.overallProgress &&
+  a.inView === b.inView &&
+  Object.keys(b.progress).length === Object.keys(a.progress).length &&
+  Object.keys(b.progress).every((id) => a.progress[id] === b.progress[id]);
+
+export const useScrollSpy = ({
+  offset = 0.5,
+  hysteresis = 48,
+  enabled = true,
+}: ScrollSpyOptions = {}): ScrollSpyContextValue => {
+  const elements = useRef(new Map<string, HTMLElement>());
+  const callbacks = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const activeRef = useRef<string | null>(null);
+  const frame = useRef<number | null>(null);
+  const [state, setState] = useState<ScrollSpyState>(INITIAL_STATE);
+  const [ids, setIds] = useState<string[]>([]);
+
+  const measure = useCallback(() => {
+    frame.current = null;
+
+    const entries = [...elements.current.entries()]
+      .sort(([, a], [, b]) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1))
+      .map(([id, element]) => ({ id, rect: element.getBoundingClientRect() }));
+
+    setIds((prev) => {
+      const next = entries.map((entry) => entry.id);
+      return prev.length === next.length && prev.every((id, i) => id === next[i]) ? prev : next;
+    });
+
+    if (entries.length === 0) {
+      activeRef.current = null;
+      setState(INITIAL_STATE);
+      return;
+    }
+
+    const line = window.innerHeight * offset;
+
+    // Walk from the current item: forward once the next one is clearly past
+    // the line, backward once the current one is clearly below it
+    let index = entries.findIndex((entry) => entry.id === activeRef.current);
+    while (index + 1 < entries.length && entries[index + 1].rect.top <= line - hysteresis) index++;
+    while (index >= 0 && entries[index].rect.top > line + hysteresis) index--;
+    // Without a previous item (first measurement), settle on the plain geometry
+    if (activeRef.current === null && index < 0) {
+      index = entries.filter((entry) => entry.rect.top <= line).length - 1;
+    }
+
+    const activeId = index >= 0 ? entries[index].id : null;
+    activeRef.current = activeId;
+
+    const first = entries[0].rect;
+    const last = entries[entries.length - 1].rect;
+    const span = last.bottom - first.top;
+
+    const next: ScrollSpyState = {
+      activeId,
+      progress: Object.fromEntries(
+        entries.map(({ id, rect }) => [id, round(clamp01((line - rect.top) / (rect.height || 1)))])
+      ),
+      overallProgress: round(clamp01((line - first.top) / (span || 1))),
+      inView: line >= first.top && line <= last.bottom,
+    };
+
+    setState((prev) => (isSameState(prev, next) ? prev : next));
+  }, [offset, hysteresis]);
+
+  const schedule = useCallback(() => {
+    if (enabled && frame.current === null) frame.current = requestAnimationFrame(measure);
+  }, [enabled, measure]);
+
+  // Registered callbacks are cached per id, so they reach the latest schedule through a ref
+  const scheduleRef = useRef(schedule);
+  scheduleRef.current = schedule;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    schedule();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      if (frame.current !== null) cancelAnimationFrame(frame.current);
+      frame.current = null;
+    };
+  }, [enabled, schedule]);
+
+  const register = useCallback((id: string) => {
+    let callback = callbacks.current.get(id);
+    if (!callback) {
+      callback = (element: HTMLElement | null) => {
+        if (element) elements.current.set(id, element);
+        else elements.current.delete(id);
+        scheduleRef.current();
+      };
+      callbacks.current.set(id, callback);
+    }
+    return callback;
+  }, []);
+
+  return useMemo(() => ({ ...state, ids, register }), [state, ids, register]);
+};
+
+/**
+ * The nearest scroll-spy engine, or null outside one
+ */
+export const useScrollSpyContext = (): ScrollSpyContextValue | null => useContext(ScrollSpyContext);
+
+/**
+ * Callback ref registering an element with the nearest scroll-spy engine
+ */
+export const useScrollSpyItem = (id: string): ((element: HTMLElement | null) => void) | undefined =>
+  useContext(ScrollSpyContext)?.register(id);
+
+export default useScrollSpy;
@@ -0,0 +1,26 @@
+/**
+ * useScrollToHash Hook
+ *
+ * Scrolls to the element named by the URL hash once the page content is
+ * ready. The browser only jumps to an anchor on a full page load, and only
+ * if the element already exists; neither holds after a client-side
+ * navigation to a page that renders its sections after a query.
+ * Hashes matching `ignore` are left to the components that own them.
+ */
+
+import { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { useReducedMotion } from '@/hooks/useReducedMotion';
+
+export const useScrollToHash = (isReady: boolean, ignore?: RegExp): void => {
+  const { hash } = useLocation();
+  const reducedMotion = useReducedMotion();
+
+  useEffect(() => {
+    if (!isReady || !hash || ignore?.test(hash)) return;
+    const target = document.getElementById(decodeURIComponent(hash.slice(1)));
+    target?.scrollIntoView({ block: 'start', behavior: reducedMotion ? 'auto' : 'smooth' });
+  }, [isReady, hash, ignore, reducedMotion]);
+};
+
+export default useScrollToHash;
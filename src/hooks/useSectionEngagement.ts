@@ -0,0 +1,129 @@
+/**
+ * useSectionEngagement Hook
+ *
+ * Measures how a visitor engages with one page section:
+ * - `section_viewed` the first time it enters the viewport
+ * - first-seen time, cumulative dwell time and max scroll depth,
+ *   reported as `section_engagement` when the page is hidden or the
+ *   section unmounts
+ *
+ * A section counts as visible while it overlaps the upper three quarters
+ * of the viewport and the tab is in the foreground.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useIntersectionObserver } from '@/hooks/useIntersectionObserver';
+import { track, onPageHide, type AboutSection } from '@/lib/analytics';
+
+interface EngagementStats {
+  firstSeenAt: number | null;
+  /** Dwell accumulated since the last report (ms) */
+  dwellMs: number;
+  /** Start of the current visible stretch, null while not visible */
+  visibleSince: number | null;
+  /** 0-1 share of the section that has reached the viewport */
+  maxDepth: number;
+}
+
+export function useSectionEngagement<T extends HTMLElement = HTMLDivElement>(section: AboutSection) {
+  const stats = useRef<EngagementStats>({
+    firstSeenAt: null,
+    dwellMs: 0,
+    visibleSince: null,
+    maxDepth: 0,
+  });
+  const isIntersectingRef = useRef(false);
+
+  const handleIntersect = useCallback((visible: boolean) => {
+    const current = stats.current;
+    const now = Date.now();
+    isIntersectingRef.current = visible;
+
+    if (visible) {
+      if (current.firstSeenAt === null) {
+        current.firstSeenAt = now;
+        track({ type: 'section_viewed', section });
+      }
+      if (current.visibleSince === null && document.visibilityState === 'visible') {
+        current.visibleSince = now;
+      }
+    } else if (current.visibleSince !== null) {
+      current.dwellMs += now - current.visibleSince;
+      current.visibleSince = null;
+    }
+  }, [section]);
+
+  const { ref } = useIntersectionObserver<T>({
+    threshold: 0,
+    rootMargin: '0px 0px -25% 0px',
+    onIntersect: handleIntersect,
+  });
+
+  // Scroll depth, sampled once per frame while the section is on screen
+  useEffect(() => {
+    let frame = 0;
+
+    const measure = () => {
+      frame = 0;
+      const element = ref.current;
+      if (!element || !isIntersectingRef.current) return;
+      const rect = element.getBoundingClientRect();
+      if (rect.height === 0) return;
+      const depth = Math.min(Math.max((window.innerHeight - rect.top) / rect.height, 0), 1);
+      stats.current.maxDepth = Math.max(stats.current.maxDepth, depth);
+    };
+
+    const handleScroll = () => {
+      if (!frame) frame = requestAnimationFrame(measure);
+    };
+
+    measure();
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [ref]);
+
+  useEffect(() => {
+    const current = stats.current;
+
+    const report = () => {
+      const now = Date.now();
+      if (current.visibleSince !== null) {
+        current.dwellMs += now - current.visibleSince;
+        current.visibleSince = document.visibilityState === 'visible' ? now : null;
+      }
+      if (current.firstSeenAt === null || current.dwellMs === 0) return;
+
+      track({
+        type: 'section_engagement',
+        section,
+        firstSeenAt: current.firstSeenAt,
+        dwellMs: current.dwellMs,
+        maxScrollDepth: Math.round(current.maxDepth * 100),
+      });
+      current.dwellMs = 0;
+    };
+
+    // Resume timing when the visitor returns to the tab
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && isIntersectingRef.current) {
+        current.visibleSince = Date.now();
+      }
+    };
+
+    const unregister = onPageHide(report);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      unregister();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      // Route change or unmount: report what was collected
+      report();
+    };
+  }, [section]);
+
+  return ref;
+}
+
+export default useSectionEngagement;
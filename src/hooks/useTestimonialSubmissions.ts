@@ -0,0 +1,57 @@
+/**
+ * useTestimonialSubmissions Hooks
+ *
+ * React Query access to testimonial submissions through the configured
+ * adapter (see src/lib/submissions):
+ * - useTestimonialSubmissions: every submission, for moderation
+ * - usePublishedTestimonials: valid published testimonials of one locale,
+ *   without the submissions around them
+ * - useSubmitTestimonial / useUpdateSubmission: mutations that refresh both
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Testimonial } from '@/data/aboutData';
+import {
+  getSubmissionAdapter,
+  parsePublishedTestimonials,
+  type NewSubmission,
+  type SubmissionUpdate,
+} from '@/lib/submissions';
+import type { Locale } from '@/i18n/config';
+
+export const SUBMISSIONS_QUERY_KEY = ['testimonial-submissions'] as const;
+
+export const useTestimonialSubmissions = () =>
+  useQuery({
+    queryKey: [...SUBMISSIONS_QUERY_KEY, 'all'],
+    queryFn: () => getSubmissionAdapter().list(),
+    enabled: getSubmissionAdapter().canModerate,
+  });
+
+export const usePublishedTestimonials = (locale: Locale) =>
+  useQuery({
+    queryKey: [...SUBMISSIONS_QUERY_KEY, 'published', locale],
+    queryFn: async (): Promise<Testimonial[]> => {
+      const adapter = getSubmissionAdapter();
+      return parsePublishedTestimonials(await adapter.listPublished(locale), adapter.name);
+    },
+    staleTime: Infinity,
+    retry: false,
+  });
+
+export const useSubmitTestimonial = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: NewSubmission) => getSubmissionAdapter().create(input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SUBMISSIONS_QUERY_KEY }),
+  });
+};
+
+export const useUpdateSubmission = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, update }: { id: string; update: SubmissionUpdate }) =>
+      getSubmissionAdapter().update(id, update),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SUBMISSIONS_QUERY_KEY }),
+  });
+};
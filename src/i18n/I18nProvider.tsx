@@ -0,0 +1,27 @@
+/**
+ * I18nProvider Component
+ *
+ * Supplies the active locale, its UI strings and writing direction to the tree.
+ * Components read them through useI18n().
+ */
+
+import React, { useMemo } from 'react';
+import { I18nContext } from './context';
+import { messages } from './messages';
+import { localeMeta, type Locale } from './config';
+
+interface I18nProviderProps {
+  locale: Locale;
+  children: React.ReactNode;
+}
+
+export const I18nProvider: React.FC<I18nProviderProps> = ({ locale, children }) => {
+  const value = useMemo(
+    () => ({ locale, t: messages[locale], dir: localeMeta[locale].dir }),
+    [locale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,59 @@
+/**
+ * I18N CONFIGURATION
+ *
+ * Supported locales and their metadata. The default locale is served
+ * from unprefixed routes (/about); every other locale lives under
+ * /:locale/about.
+ */
+
+export const SUPPORTED_LOCALES = ['en', 'es', 'ar', 'he'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export type Direction = 'ltr' | 'rtl';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export interface LocaleMeta {
+  /** Name of the language in that language, for the switcher */
+  nativeName: string;
+  /** BCP 47 tag passed to Intl formatters */
+  intlLocale: string;
+  /** Writing direction; drives the mirrored layout mode */
+  dir: Direction;
+}
+
+export const localeMeta: Record<Locale, LocaleMeta> = {
+  en: { nativeName: 'English', intlLocale: 'en-US', dir: 'ltr' },
+  es: { nativeName: 'Español', intlLocale: 'es-ES', dir: 'ltr' },
+  ar: { nativeName: 'العربية', intlLocale: 'ar', dir: 'rtl' },
+  he: { nativeName: 'עברית', intlLocale: 'he-IL', dir: 'rtl' },
+};
+
+export const isLocale = (value: string | undefined): value is Locale =>
+  !!value && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+
+/**
+ * Prefix a route path with the locale segment (none for the default locale)
+ */
+export const localizedPath = (path: string, locale: Locale): string =>
+  locale === DEFAULT_LOCALE ? path : `/${locale}${path}`;
+
+/**
+ * Absolute URL of a route path for canonical and hreflang links,
+ * including the deployment base (BASE_URL)
+ */
+export const absoluteUrl = (path: string): string => {
+  const base = (import.meta.env.BASE_URL ?? '/').replace(/\/$/, '');
+  const origin = typeof window === 'undefined' ? '' : window.location.origin;
+  return `${origin}${base}${path}`;
+};
+
+/**
+ * Path of the current page in another locale, e.g. /es/about -> /about
+ */
+export const switchLocalePath = (pathname: string, locale: Locale): string => {
+  const [, first, ...rest] = pathname.split('/');
+  const unprefixed = isLocale(first) ? `/${rest.join('/')}` : pathname;
+  return localizedPath(unprefixed === '/' ? '/about' : unprefixed, locale);
+};
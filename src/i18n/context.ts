@@ -0,0 +1,17 @@
+import { createContext } from 'react';
+import { DEFAULT_LOCALE, localeMeta, type Direction, type Locale } from './config';
+import { messages, type Messages } from './messages';
+
+export interface I18nContextValue {
+  locale: Locale;
+  /** UI strings for the active locale */
+  t: Messages;
+  /** Writing direction of the active locale */
+  dir: Direction;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  locale: DEFAULT_LOCALE,
+  t: messages[DEFAULT_LOCALE],
+  dir: localeMeta[DEFAULT_LOCALE].dir,
+});
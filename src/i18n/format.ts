@@ -0,0 +1,43 @@
+/**
+ * LOCALE-AWARE FORMATTING
+ *
+ * KPIs are authored as numbers with a unit, currency and qualifier
+ * (see Kpi in aboutData.ts) and rendered with Intl so each locale gets
+ * its own separators, currency placement and compact units.
+ */
+
+import type { Kpi } from '@/data/aboutData';
+import { localeMeta, type Locale } from './config';
+
+export const formatNumber = (
+  value: number,
+  locale: Locale,
+  options?: Intl.NumberFormatOptions
+): string => new Intl.NumberFormat(localeMeta[locale].intlLocale, options).format(value);
+
+/**
+ * Format a KPI, optionally with an intermediate value (count-up animations)
+ */
+export const formatKpi = (kpi: Kpi, locale: Locale, value: number = kpi.value): string => {
+  const formatted = formatNumber(kpi.unit === 'percent' ? value / 100 : value, locale, {
+    notation: kpi.notation ?? 'compact',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: kpi.maximumFractionDigits ?? 1,
+    ...(kpi.unit === 'currency' && { style: 'currency', currency: kpi.currency }),
+    ...(kpi.unit === 'percent' && { style: 'percent' }),
+  });
+
+  if (kpi.qualifier === 'plus') return `${formatted}+`;
+  if (kpi.qualifier === 'approx') return `~${formatted}`;
+  return formatted;
+};
+
+/**
+ * Signed percentage for a change ratio, e.g. 2.25 -> "+225%"
+ */
+export const formatChange = (ratio: number, locale: Locale): string =>
+  formatNumber(ratio, locale, {
+    style: 'percent',
+    signDisplay: 'exceptZero',
+    maximumFractionDigits: Math.abs(ratio) < 0.1 ? 1 : 0,
+  });
@@ -0,0 +1,278 @@
+/**
+ * Arabic UI strings (right-to-left)
+ */
+
+import type { Messages } from './en';
+
+export const ar: Messages = {
+  meta: {
+    title: 'من نحن | نبني المستقبل معًا',
+    description: 'اكتشف رحلتنا من شركة ناشئة إلى رائدة في مجالها. تعرّف على رسالتنا ورؤيتنا وقيمنا والمحطات التي صنعت ما نحن عليه اليوم.',
+    keywords: 'من نحن، تاريخ الشركة، الرسالة، الرؤية، القيم، الأهداف، آراء العملاء',
+    ogDescription: 'اكتشف رحلتنا من شركة ناشئة إلى رائدة في مجالها.',
+    pageName: 'من نحن',
+    pageDescription: 'تاريخ الشركة ورسالتها ورؤيتها وقيمها وآراء عملائها',
+    organizationDescription: 'حركة من المبتكرين تغيّر طريقة عمل العالم',
+  },
+  languageSwitcher: {
+    label: 'اختر اللغة',
+  },
+  hero: {
+    badge: 'اكتشف قصتنا',
+    headline: { prefix: 'نبني المستقبل ', highlight: 'معًا', suffix: '' },
+    subtitle: 'نحن أكثر من مجرد شركة؛ نحن حركة من المبتكرين والحالمين والمنجزين توحّدهم رسالة واحدة: تغيير طريقة عمل العالم.',
+    explore: 'استكشف رحلتنا',
+    join: 'انضم إلى فريقنا',
+    scroll: 'مرّر',
+    scrollLabel: 'الانتقال إلى المحتوى',
+  },
+  story: {
+    badge: '✦ قصتنا',
+    title: { prefix: 'قلب ', highlight: 'الابتكار', suffix: '' },
+  },
+  history: {
+    title: { prefix: '', highlight: 'رحلتنا', suffix: '' },
+    subtitle: 'لكل شركة عظيمة قصة تستحق أن تُروى، وهذه قصتنا: حكاية طموح وصمود وسعي دائم نحو التميّز.',
+    sceneAlt: (year, title) => `${year}: ${title}`,
+    skipTyping: 'تخطٍّ ‹',
+    skipTypingLabel: 'عرض الفقرة كاملة',
+    mediaCallout: 'في الأخبار',
+    closing: 'وهذه مجرد البداية...',
+  },
+  mvvg: {
+    title: { prefix: 'ما الذي ', highlight: 'يحرّكنا', suffix: '' },
+    subtitle: 'المبادئ والطموحات التي توجّه كل قرار نتخذه.',
+    readMore: 'اقرأ المزيد',
+    readLess: 'عرض أقل',
+  },
+  timeline: {
+    title: { prefix: '', highlight: 'طريقتنا', suffix: ' في العمل' },
+    subtitle: 'خمس سنوات من النمو والابتكار والتحوّل. مرّر لاستكشاف رحلتنا.',
+    now: 'الآن',
+    futureAwaits: 'المستقبل بانتظارنا',
+    kpiDelta: (change, year) => `${change} مقارنة بـ${year}`,
+    kpiDeltaLabel: (label, change, year) => `${label}: ${change} مقارنة بعام ${year}`,
+    scrubberLabel: 'شريط التنقل في الخط الزمني',
+    yearNavLabel: 'سنوات الخط الزمني',
+    keyboardHint: 'تلميح: استخدم مفاتيح الأسهم أو J / K للتنقل بين السنوات، وHome / End للانتقال إلى السنة الأولى والأخيرة.',
+    milestoneLink: (year) => `اقرأ قصة ${year} كاملة`,
+    milestoneAlt: (year) => `محطة الشركة في ${year}`,
+    viewMainImage: (year) => `عرض الصورة الرئيسية لعام ${year}`,
+    mainImageAlt: (year) => `الصورة الرئيسية لعام ${year}`,
+    viewGalleryImage: (year, n) => `عرض الصورة ${n} من معرض ${year}`,
+    galleryImageAlt: (year, n) => `معرض ${year}، الصورة ${n}`,
+    jumpToYear: (year) => `الانتقال إلى عام ${year}`,
+    playMedia: (year) => `تشغيل فيديو ${year}`,
+    pauseMedia: (year) => `إيقاف فيديو ${year} مؤقتًا`,
+    growth: {
+      title: 'النمو في لمحة',
+      subtitle: 'كيف تطورت أرقامنا الرئيسية عامًا بعد عام',
+      point: (label, value, year) => `${label} في ${year}: ${value}. الانتقال إلى ${year}`,
+    },
+    lightbox: {
+      title: (year) => `معرض ${year}`,
+      photo: (n, total) => `الصورة ${n} من ${total}`,
+      previous: 'الصورة السابقة',
+      next: 'الصورة التالية',
+      open: (year) => `فتح معرض ${year}`,
+      morePhotos: (count) => `عرض ${count} صور إضافية`,
+      credit: (credit) => `تصوير: ${credit}`,
+      zoomHint: 'قرّب بإصبعين أو انقر مرتين للتكبير',
+    },
+  },
+  testimonials: {
+    title: { prefix: 'أصوات ', highlight: 'الثقة', suffix: '' },
+    subtitle: 'استمع إلى القادة والفرق الذين غيّروا مؤسساتهم معنا.',
+    coverAlt: (name, title, company) => `${name}، ${title} في ${company}`,
+    actions: {
+      pdf: 'اقرأ ملف PDF',
+      video: 'شاهد الفيديو',
+      audio: 'استمع',
+      quote: 'اقرأ الاقتباس',
+    },
+    actionLabels: {
+      pdf: (name, company) => `اقرأ رسالة PDF من ${name} في ${company}`,
+      video: (name, company) => `شاهد شهادة الفيديو من ${name} في ${company}`,
+      audio: (name, company) => `استمع إلى الشهادة الصوتية من ${name} في ${company}`,
+      quote: (name, company) => `اقرأ الاقتباس الكامل من ${name} في ${company}`,
+    },
+    viewTestimonial: (name) => `عرض شهادة ${name}`,
+    mediaLinks: {
+      pdf: 'اقرأ رسالة PDF',
+      video: 'شاهد الفيديو',
+      audio: 'استمع إلى التسجيل',
+    },
+    viewAll: 'تصفح كل قصص العملاء',
+    previous: 'الشهادة السابقة',
+    next: 'الشهادة التالية',
+    first: 'هذه هي الشهادة الأولى',
+    last: 'هذه هي الشهادة الأخيرة',
+    player: {
+      title: (name, company) => `${name}، ${company}`,
+      unsupported: 'لا يستطيع متصفحك تشغيل هذا التسجيل.',
+      transcript: 'النص الكامل',
+      showTranscript: 'إظهار النص الكامل',
+      hideTranscript: 'إخفاء النص الكامل',
+      openMedia: 'فتح ملف الوسائط',
+    },
+    pdfViewer: {
+      title: (name, company) => `رسالة من ${name}، ${company}`,
+      loading: 'جارٍ تحميل الرسالة…',
+      page: (page, total) => `الصفحة ${page} من ${total}`,
+      previousPage: 'الصفحة السابقة',
+      nextPage: 'الصفحة التالية',
+      zoomIn: 'تكبير',
+      zoomOut: 'تصغير',
+      resetZoom: 'ملاءمة العرض',
+      download: 'تنزيل',
+      openInNewTab: 'فتح في علامة تبويب جديدة',
+      error: 'تعذّر عرض هذه الرسالة هنا. افتحها في علامة تبويب جديدة.',
+    },
+  },
+  cta: {
+    title: { prefix: 'هل أنت مستعد لتكون جزءًا من ', highlight: 'قصتنا؟', suffix: '' },
+    subtitle: 'انضم إلى آلاف المؤسسات التي تغيّر مستقبلها معنا بالفعل.',
+    getStarted: 'ابدأ اليوم',
+    openPositions: 'عرض الوظائف الشاغرة',
+  },
+  consent: {
+    bannerLabel: 'الموافقة على ملفات تعريف الارتباط',
+    title: 'نحن نحترم خصوصيتك',
+    description: 'نستخدم ملفات تعريف الارتباط الضرورية لتشغيل هذا الموقع. وبإذنك نستخدم أيضًا أدوات التحليل لمعرفة أجزاء الصفحة المفيدة، وملفات تعريف الارتباط التسويقية لقياس حملاتنا.',
+    acceptAll: 'قبول الكل',
+    rejectOptional: 'رفض الاختيارية',
+    customize: 'تخصيص',
+    preferencesTitle: 'تفضيلات الخصوصية',
+    preferencesDescription: 'اختر ملفات تعريف الارتباط والتتبع الاختيارية التي يمكننا استخدامها. يمكنك تغيير ذلك في أي وقت من "إعدادات الخصوصية".',
+    alwaysOn: 'مفعّلة دائمًا',
+    save: 'حفظ التفضيلات',
+    settings: 'إعدادات الخصوصية',
+    categories: {
+      necessary: {
+        label: 'ضرورية تمامًا',
+        description: 'لازمة لعمل الموقع، مثل تذكّر لغتك وهذا الاختيار.',
+      },
+      analytics: {
+        label: 'التحليلات',
+        description: 'تخبرنا بالأقسام التي تُقرأ والبطاقات التي تُفتح والمستندات التي تُنزَّل.',
+      },
+      marketing: {
+        label: 'التسويق',
+        description: 'تتيح لنا قياس مدى وصول حملاتنا وعرض محتوى ملائم على مواقع أخرى.',
+      },
+    },
+  },
+  compare: {
+    metaTitle: (from, to) => `${from} مقابل ${to} | طريقتنا في العمل`,
+    metaDescription: (from, to) =>
+      `قارن محطاتنا في ${from} و${to} جنبًا إلى جنب: الملخصات والأرقام الرئيسية والصور.`,
+    entry: 'مقارنة الأعوام',
+    back: 'العودة إلى الخط الزمني',
+    heading: (from, to) => `${from} مقابل ${to}`,
+    subtitle: 'عامان من مسيرة الشركة جنبًا إلى جنب.',
+    fromLabel: 'العام الأول',
+    toLabel: 'العام الثاني',
+    swap: 'تبديل الأعوام',
+    copyLink: 'نسخ الرابط',
+    linkCopied: 'تم نسخ الرابط',
+    copyFailed: 'تعذّر نسخ الرابط',
+    kpisTitle: 'الأرقام الرئيسية',
+    metric: 'المؤشر',
+    difference: 'الفرق',
+    notTracked: 'لا توجد بيانات لهذا العام',
+    gallery: 'معرض الصور',
+    viewInTimeline: (year) => `عرض ${year} في الخط الزمني`,
+  },
+  milestone: {
+    metaTitle: (year, title) =>
+      title ? `${year}: ${title} | طريقتنا في العمل` : `${year} | طريقتنا في العمل`,
+    eyebrow: (year) => `محطة ${year}`,
+    back: 'العودة إلى الخط الزمني',
+    keyFigures: 'الأرقام الرئيسية',
+    gallery: 'معرض الصور',
+    openPhoto: (n) => `فتح الصورة ${n}`,
+    navLabel: 'المحطات',
+    previous: 'العام السابق',
+    next: 'العام التالي',
+    compareWithPrevious: (year) => `المقارنة مع ${year}`,
+  },
+  customers: {
+    metaTitle: 'قصص العملاء | طريقتنا في العمل',
+    metaDescription: 'اعثر على قصص العملاء الأقرب إلى قصتك: صفِّ حسب القطاع والمنطقة وحجم الشركة والدور والمنتج، أو ابحث فيما قاله عملاؤنا.',
+    title: { prefix: 'قصص ', highlight: 'العملاء', suffix: '' },
+    subtitle: 'اعثر على الفرق الأقرب إلى فريقك واكتشف كيف تعمل معنا.',
+    back: 'العودة إلى من نحن',
+    filtersLabel: 'تصفية القصص',
+    search: 'البحث في القصص',
+    searchPlaceholder: 'ابحث في الاقتباسات أو الأسماء أو الشركات…',
+    industry: 'القطاع',
+    companySize: 'حجم الشركة',
+    region: 'المنطقة',
+    role: 'الدور',
+    product: 'المنتج',
+    tags: 'المواضيع',
+    allRegions: 'كل المناطق',
+    allRoles: 'كل الأدوار',
+    allProducts: 'كل المنتجات',
+    clearFilters: 'مسح عوامل التصفية',
+    resultCount: (count, total) => `عرض ${count} من ${total} قصص`,
+    noResults: 'لا توجد قصص تطابق عوامل التصفية هذه.',
+    sizes: {
+      startup: 'شركة ناشئة',
+      smb: 'شركة صغيرة',
+      'mid-market': 'شركة متوسطة',
+      enterprise: 'مؤسسة كبيرة',
+    },
+  },
+  shareStory: {
+    metaTitle: 'شارك قصتك | طريقتنا في العمل',
+    metaDescription: 'أخبرنا كيف يعمل فريقك معنا. بإذنك، قد تظهر قصتك ضمن قصص عملائنا.',
+    title: { prefix: 'شارك ', highlight: 'قصتك', suffix: '' },
+    subtitle: 'أخبرنا كيف يعمل فريقك معنا. نقرأ كل قصة ونستأذنك قبل نشرها.',
+    cta: 'شارك قصتك',
+    back: 'العودة إلى قصص العملاء',
+    optional: '(اختياري)',
+    fields: {
+      name: 'اسمك',
+      email: 'البريد الإلكتروني',
+      emailHint: 'نستخدمه فقط إذا كانت لدينا أسئلة؛ ولا يُنشر أبدًا.',
+      title: 'المسمى الوظيفي',
+      company: 'الشركة',
+      industry: 'القطاع',
+      companySize: 'حجم الشركة',
+      companySizePlaceholder: 'اختر الحجم',
+      quote: 'قصتك',
+      quotePlaceholder: 'ما الذي تغيّر لفريقك منذ بدء العمل معنا؟',
+      quoteHint: (min, max) => `بين ${min} و${max} حرفًا.`,
+      letter: 'رسالة (PDF)',
+      letterHint: (mb) => `رسالة موقّعة أو نص أطول، حتى ${mb} ميغابايت.`,
+      headshot: 'صورة شخصية',
+      headshotHint: (mb) => `JPEG أو PNG أو WebP، حتى ${mb} ميغابايت.`,
+      consent: 'أوافق على نشر اسمي ومسماي الوظيفي وشركتي وقصتي والملفات أعلاه على هذا الموقع.',
+    },
+    errors: {
+      required: 'هذا الحقل مطلوب.',
+      email: 'أدخل بريدًا إلكترونيًا صالحًا.',
+      quoteMin: (min) => `أخبرنا بالمزيد: ${min} حرفًا على الأقل.`,
+      quoteMax: (max) => `يجب ألا تتجاوز ${max} حرفًا.`,
+      letterType: 'يجب أن تكون الرسالة ملف PDF.',
+      headshotType: 'يجب أن تكون الصورة بصيغة JPEG أو PNG أو WebP.',
+      fileSize: (mb) => `يجب ألا يتجاوز حجم الملف ${mb} ميغابايت.`,
+      consent: 'نحتاج إلى إذنك لنشر قصتك.',
+    },
+    submit: 'أرسل قصتي',
+    submitting: 'جارٍ الإرسال…',
+    submitError: 'تعذّر إرسال قصتك. يُرجى المحاولة مرة أخرى.',
+    storageFull: 'ملفاتك أكبر من أن تُحفظ في هذا المتصفح. جرّب رسالة أو صورة أصغر حجمًا، أو أرسل قصتك من دونهما.',
+    thanksTitle: 'شكرًا لمشاركتك!',
+    thanksBody: 'سيراجع فريقنا قصتك ويتواصل معك قبل نشرها.',
+    shareAnother: 'شارك قصة أخرى',
+  },
+  loading: {
+    story: 'جارٍ تحميل قصتنا',
+    history: 'جارٍ تحميل تاريخ الشركة',
+    mvvg: 'جارٍ تحميل الرسالة والقيم',
+    timeline: 'جارٍ تحميل الخط الزمني',
+    testimonials: 'جارٍ تحميل الشهادات',
+  },
+};
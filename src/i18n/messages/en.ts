@@ -0,0 +1,288 @@
+/**
+ * English UI strings (source locale)
+ *
+ * Every other locale must provide the same shape (see Messages).
+ * Titles with a gradient-highlighted word are split into
+ * prefix / highlight / suffix so each language can place it.
+ */
+
+export interface HighlightedText {
+  prefix: string;
+  highlight: string;
+  suffix: string;
+}
+
+export const en = {
+  meta: {
+    title: 'About Us | Building the Future Together',
+    description: 'Discover our journey from startup to industry leader. Explore our mission, vision, values, and the milestones that shaped who we are today.',
+    keywords: 'about us, company history, mission, vision, values, goals, testimonials',
+    ogDescription: 'Discover our journey from startup to industry leader.',
+    pageName: 'About Us',
+    pageDescription: 'Company history, mission, vision, values, and testimonials',
+    organizationDescription: 'A movement of innovators transforming how the world works',
+  },
+  languageSwitcher: {
+    label: 'Choose language',
+  },
+  hero: {
+    badge: 'Discover Our Story',
+    headline: { prefix: 'Building the Future, ', highlight: 'Together', suffix: '' } as HighlightedText,
+    subtitle: "We're more than a company—we're a movement of innovators, dreamers, and doers united by a singular mission to transform how the world works.",
+    explore: 'Explore Our Journey',
+    join: 'Join Our Team',
+    scroll: 'Scroll',
+    scrollLabel: 'Scroll to content',
+  },
+  story: {
+    badge: '✦ Our Story',
+    title: { prefix: 'The Heart of ', highlight: 'Innovation', suffix: '' } as HighlightedText,
+  },
+  history: {
+    title: { prefix: 'Our ', highlight: 'Journey', suffix: '' } as HighlightedText,
+    subtitle: 'Every great company has a story worth telling. Here is ours — a narrative of ambition, resilience, and the relentless pursuit of excellence.',
+    sceneAlt: (year: number, title: string) => `${year}: ${title}`,
+    skipTyping: 'Skip ›',
+    skipTypingLabel: 'Show the full paragraph',
+    mediaCallout: 'In the news',
+    closing: 'And this is just the beginning...',
+  },
+  mvvg: {
+    title: { prefix: 'What ', highlight: 'Drives', suffix: ' Us' } as HighlightedText,
+    subtitle: 'The principles and ambitions that guide every decision we make.',
+    readMore: 'Read more',
+    readLess: 'Read less',
+  },
+  timeline: {
+    title: { prefix: 'The ', highlight: 'Company Way', suffix: '' } as HighlightedText,
+    subtitle: 'Five years of growth, innovation, and transformation. Scroll to explore our journey.',
+    now: 'Now',
+    futureAwaits: 'The Future Awaits',
+    kpiDelta: (change: string, year: number) => `${change} vs ${year}`,
+    kpiDeltaLabel: (label: string, change: string, year: number) => `${label}: ${change} compared with ${year}`,
+    scrubberLabel: 'Timeline scrubber',
+    yearNavLabel: 'Timeline years',
+    keyboardHint: 'Tip: use the arrow keys or J / K to move between years, Home / End for the first and last.',
+    milestoneLink: (year: number) => `Read the full ${year} story`,
+    milestoneAlt: (year: number) => `Company milestone ${year}`,
+    viewMainImage: (year: number) => `View main ${year} image`,
+    mainImageAlt: (year: number) => `${year} main`,
+    viewGalleryImage: (year: number, n: number) => `View ${year} gallery image ${n}`,
+    galleryImageAlt: (year: number, n: number) => `${year} gallery ${n}`,
+    jumpToYear: (year: number) => `Jump to year ${year}`,
+    playMedia: (year: number) => `Play ${year} video`,
+    pauseMedia: (year: number) => `Pause ${year} video`,
+    growth: {
+      title: 'Growth at a glance',
+      subtitle: 'How our key numbers moved from year to year',
+      point: (label: string, value: string, year: number) => `${label} in ${year}: ${value}. Jump to ${year}`,
+    },
+    lightbox: {
+      title: (year: number) => `${year} gallery`,
+      photo: (n: number, total: number) => `Photo ${n} of ${total}`,
+      previous: 'Previous photo',
+      next: 'Next photo',
+      open: (year: number) => `Open ${year} gallery`,
+      morePhotos: (count: number) => `Show ${count} more photos`,
+      credit: (credit: string) => `Photo: ${credit}`,
+      zoomHint: 'Pinch or double-click to zoom',
+    },
+  },
+  testimonials: {
+    title: { prefix: 'Voices of ', highlight: 'Trust', suffix: '' } as HighlightedText,
+    subtitle: "Hear from the leaders and teams who've transformed their organizations with us.",
+    coverAlt: (name: string, title: string, company: string) => `${name}, ${title} at ${company}`,
+    actions: {
+      pdf: 'Read PDF',
+      video: 'Watch video',
+      audio: 'Listen',
+      quote: 'Read quote',
+    },
+    actionLabels: {
+      pdf: (name: string, company: string) => `Read PDF letter from ${name} at ${company}`,
+      video: (name: string, company: string) => `Watch video testimonial from ${name} at ${company}`,
+      audio: (name: string, company: string) => `Listen to audio testimonial from ${name} at ${company}`,
+      quote: (name: string, company: string) => `Read the full quote from ${name} at ${company}`,
+    },
+    viewTestimonial: (name: string) => `View testimonial from ${name}`,
+    mediaLinks: {
+      pdf: 'Read PDF Letter',
+      video: 'Watch the Video',
+      audio: 'Listen to the Recording',
+    },
+    viewAll: 'Browse all customer stories',
+    previous: 'Previous testimonial',
+    next: 'Next testimonial',
+    first: 'This is the first testimonial',
+    last: 'This is the last testimonial',
+    player: {
+      title: (name: string, company: string) => `${name}, ${company}`,
+      unsupported: 'Your browser cannot play this recording.',
+      transcript: 'Transcript',
+      showTranscript: 'Show transcript',
+      hideTranscript: 'Hide transcript',
+      openMedia: 'Open media file',
+    },
+    pdfViewer: {
+      title: (name: string, company: string) => `Letter from ${name}, ${company}`,
+      loading: 'Loading letter…',
+      page: (page: number, total: number) => `Page ${page} of ${total}`,
+      previousPage: 'Previous page',
+      nextPage: 'Next page',
+      zoomIn: 'Zoom in',
+      zoomOut: 'Zoom out',
+      resetZoom: 'Fit to width',
+      download: 'Download',
+      openInNewTab: 'Open in new tab',
+      error: 'This letter could not be displayed here. Open it in a new tab instead.',
+    },
+  },
+  cta: {
+    title: { prefix: 'Ready to Be Part of Our ', highlight: 'Story?', suffix: '' } as HighlightedText,
+    subtitle: 'Join thousands of organizations already transforming their future with us.',
+    getStarted: 'Get Started Today',
+    openPositions: 'View Open Positions',
+  },
+  consent: {
+    bannerLabel: 'Cookie consent',
+    title: 'We value your privacy',
+    description: 'We use strictly necessary cookies to run this site. With your permission we also use analytics to learn which parts of the page are helpful, and marketing cookies to measure our campaigns.',
+    acceptAll: 'Accept all',
+    rejectOptional: 'Reject optional',
+    customize: 'Customize',
+    preferencesTitle: 'Privacy preferences',
+    preferencesDescription: 'Choose which optional cookies and tracking we may use. You can change this at any time from "Privacy settings".',
+    alwaysOn: 'Always on',
+    save: 'Save preferences',
+    settings: 'Privacy settings',
+    categories: {
+      necessary: {
+        label: 'Strictly necessary',
+        description: 'Required for the site to work, such as remembering your language and this choice.',
+      },
+      analytics: {
+        label: 'Analytics',
+        description: 'Tells us which sections are read, which cards are opened and which documents are downloaded.',
+      },
+      marketing: {
+        label: 'Marketing',
+        description: 'Lets us measure the reach of our campaigns and show relevant content on other sites.',
+      },
+    },
+  },
+  compare: {
+    metaTitle: (from: number, to: number) => `${from} vs ${to} | The Company Way`,
+    metaDescription: (from: number, to: number) =>
+      `Compare our ${from} and ${to} milestones side by side: summaries, key figures and photos.`,
+    entry: 'Compare years',
+    back: 'Back to the timeline',
+    heading: (from: number, to: number) => `${from} vs ${to}`,
+    subtitle: 'Two years of the Company Way, side by side.',
+    fromLabel: 'First year',
+    toLabel: 'Second year',
+    swap: 'Swap years',
+    copyLink: 'Copy link',
+    linkCopied: 'Link copied to clipboard',
+    copyFailed: 'Could not copy the link',
+    kpisTitle: 'Key figures',
+    metric: 'Metric',
+    difference: 'Difference',
+    notTracked: 'Not tracked this year',
+    gallery: 'Gallery',
+    viewInTimeline: (year: number) => `View ${year} in the timeline`,
+  },
+  milestone: {
+    metaTitle: (year: number, title?: string) =>
+      title ? `${year}: ${title} | The Company Way` : `${year} | The Company Way`,
+    eyebrow: (year: number) => `Milestone ${year}`,
+    back: 'Back to the timeline',
+    keyFigures: 'Key figures',
+    gallery: 'Gallery',
+    openPhoto: (n: number) => `Open photo ${n}`,
+    navLabel: 'Milestones',
+    previous: 'Previous year',
+    next: 'Next year',
+    compareWithPrevious: (year: number) => `Compare with ${year}`,
+  },
+  customers: {
+    metaTitle: 'Customer Stories | The Company Way',
+    metaDescription: 'Find the customer stories closest to yours: filter by industry, region, company size, role and product, or search what our customers said.',
+    title: { prefix: 'Customer ', highlight: 'Stories', suffix: '' } as HighlightedText,
+    subtitle: 'Find the teams most like yours and hear how they work with us.',
+    back: 'Back to About',
+    filtersLabel: 'Filter stories',
+    search: 'Search stories',
+    searchPlaceholder: 'Search quotes, names or companies…',
+    industry: 'Industry',
+    companySize: 'Company size',
+    region: 'Region',
+    role: 'Role',
+    product: 'Product',
+    tags: 'Topics',
+    allRegions: 'All regions',
+    allRoles: 'All roles',
+    allProducts: 'All products',
+    clearFilters: 'Clear filters',
+    resultCount: (count: number, total: number) => `Showing ${count} of ${total} stories`,
+    noResults: 'No stories match these filters.',
+    sizes: {
+      startup: 'Startup',
+      smb: 'Small business',
+      'mid-market': 'Mid-market',
+      enterprise: 'Enterprise',
+    },
+  },
+  shareStory: {
+    metaTitle: 'Share Your Story | The Company Way',
+    metaDescription: 'Tell us how your team works with us. With your permission, your story may be featured among our customer stories.',
+    title: { prefix: 'Share Your ', highlight: 'Story', suffix: '' } as HighlightedText,
+    subtitle: 'Tell us how your team works with us. We read every story and ask before featuring yours.',
+    cta: 'Share your story',
+    back: 'Back to customer stories',
+    optional: '(optional)',
+    fields: {
+      name: 'Your name',
+      email: 'Email',
+      emailHint: 'Only used if we have questions; never published.',
+      title: 'Job title',
+      company: 'Company',
+      industry: 'Industry',
+      companySize: 'Company size',
+      companySizePlaceholder: 'Choose a size',
+      quote: 'Your story',
+      quotePlaceholder: 'What changed for your team since working with us?',
+      quoteHint: (min: number, max: number) => `Between ${min} and ${max} characters.`,
+      letter: 'Letter (PDF)',
+      letterHint: (mb: number) => `A signed letter or longer write-up, up to ${mb} MB.`,
+      headshot: 'Headshot',
+      headshotHint: (mb: number) => `JPEG, PNG or WebP, up to ${mb} MB.`,
+      consent: 'You may publish my name, job title, company, story and the files above on this website.',
+    },
+    errors: {
+      required: 'This field is required.',
+      email: 'Enter a valid email address.',
+      quoteMin: (min: number) => `Tell us a little more: at least ${min} characters.`,
+      quoteMax: (max: number) => `Keep it under ${max} characters.`,
+      letterType: 'The letter must be a PDF file.',
+      headshotType: 'The headshot must be a JPEG, PNG or WebP image.',
+      fileSize: (mb: number) => `The file must be ${mb} MB or smaller.`,
+      consent: 'We need your permission to publish your story.',
+    },
+    submit: 'Send my story',
+    submitting: 'Sending…',
+    submitError: 'We could not send your story. Please try again.',
+    storageFull: 'Your files are too large to save in this browser. Try a smaller letter or headshot, or send your story without them.',
+    thanksTitle: 'Thank you for sharing!',
+    thanksBody: 'Our team will review your story and get in touch before publishing it.',
+    shareAnother: 'Share another story',
+  },
+  loading: {
+    story: 'Loading our story',
+    history: 'Loading company history',
+    mvvg: 'Loading mission and values',
+    timeline: 'Loading company timeline',
+    testimonials: 'Loading testimonials',
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,278 @@
+/**
+ * Spanish UI strings
+ */
+
+import type { Messages } from './en';
+
+export const es: Messages = {
+  meta: {
+    title: 'Sobre nosotros | Construyendo el futuro juntos',
+    description: 'Descubre nuestro recorrido de startup a líder del sector. Conoce nuestra misión, visión, valores y los hitos que nos definen hoy.',
+    keywords: 'sobre nosotros, historia de la empresa, misión, visión, valores, objetivos, testimonios',
+    ogDescription: 'Descubre nuestro recorrido de startup a líder del sector.',
+    pageName: 'Sobre nosotros',
+    pageDescription: 'Historia de la empresa, misión, visión, valores y testimonios',
+    organizationDescription: 'Un movimiento de innovadores que transforma la forma de trabajar en el mundo',
+  },
+  languageSwitcher: {
+    label: 'Elegir idioma',
+  },
+  hero: {
+    badge: 'Descubre nuestra historia',
+    headline: { prefix: 'Construyendo el futuro, ', highlight: 'juntos', suffix: '' },
+    subtitle: 'Somos más que una empresa: somos un movimiento de innovadores, soñadores y emprendedores unidos por una misión singular, transformar la forma de trabajar en el mundo.',
+    explore: 'Explora nuestro recorrido',
+    join: 'Únete al equipo',
+    scroll: 'Desliza',
+    scrollLabel: 'Ir al contenido',
+  },
+  story: {
+    badge: '✦ Nuestra historia',
+    title: { prefix: 'El corazón de la ', highlight: 'innovación', suffix: '' },
+  },
+  history: {
+    title: { prefix: 'Nuestro ', highlight: 'recorrido', suffix: '' },
+    subtitle: 'Toda gran empresa tiene una historia que merece ser contada. Esta es la nuestra: un relato de ambición, resiliencia y búsqueda incansable de la excelencia.',
+    sceneAlt: (year, title) => `${year}: ${title}`,
+    skipTyping: 'Saltar ›',
+    skipTypingLabel: 'Mostrar el párrafo completo',
+    mediaCallout: 'En las noticias',
+    closing: 'Y esto es solo el comienzo...',
+  },
+  mvvg: {
+    title: { prefix: 'Lo que nos ', highlight: 'impulsa', suffix: '' },
+    subtitle: 'Los principios y ambiciones que guían cada decisión que tomamos.',
+    readMore: 'Leer más',
+    readLess: 'Leer menos',
+  },
+  timeline: {
+    title: { prefix: 'Nuestra ', highlight: 'forma de hacer', suffix: '' },
+    subtitle: 'Cinco años de crecimiento, innovación y transformación. Desliza para explorar nuestro recorrido.',
+    now: 'Ahora',
+    futureAwaits: 'El futuro nos espera',
+    kpiDelta: (change, year) => `${change} vs. ${year}`,
+    kpiDeltaLabel: (label, change, year) => `${label}: ${change} respecto a ${year}`,
+    scrubberLabel: 'Barra de desplazamiento de la cronología',
+    yearNavLabel: 'Años de la cronología',
+    keyboardHint: 'Consejo: usa las flechas o J / K para moverte entre años, e Inicio / Fin para ir al primero y al último.',
+    milestoneLink: (year) => `Lee la historia completa de ${year}`,
+    milestoneAlt: (year) => `Hito de la empresa en ${year}`,
+    viewMainImage: (year) => `Ver la imagen principal de ${year}`,
+    mainImageAlt: (year) => `${year}, imagen principal`,
+    viewGalleryImage: (year, n) => `Ver la imagen ${n} de la galería de ${year}`,
+    galleryImageAlt: (year, n) => `${year}, galería ${n}`,
+    jumpToYear: (year) => `Ir al año ${year}`,
+    playMedia: (year) => `Reproducir el vídeo de ${year}`,
+    pauseMedia: (year) => `Pausar el vídeo de ${year}`,
+    growth: {
+      title: 'Crecimiento de un vistazo',
+      subtitle: 'Cómo evolucionaron nuestras cifras clave año tras año',
+      point: (label, value, year) => `${label} en ${year}: ${value}. Ir a ${year}`,
+    },
+    lightbox: {
+      title: (year) => `Galería de ${year}`,
+      photo: (n, total) => `Foto ${n} de ${total}`,
+      previous: 'Foto anterior',
+      next: 'Foto siguiente',
+      open: (year) => `Abrir la galería de ${year}`,
+      morePhotos: (count) => `Mostrar ${count} fotos más`,
+      credit: (credit) => `Foto: ${credit}`,
+      zoomHint: 'Pellizca o haz doble clic para ampliar',
+    },
+  },
+  testimonials: {
+    title: { prefix: 'Voces de ', highlight: 'confianza', suffix: '' },
+    subtitle: 'Escucha a los líderes y equipos que han transformado sus organizaciones con nosotros.',
+    coverAlt: (name, title, company) => `${name}, ${title} en ${company}`,
+    actions: {
+      pdf: 'Leer PDF',
+      video: 'Ver vídeo',
+      audio: 'Escuchar',
+      quote: 'Leer cita',
+    },
+    actionLabels: {
+      pdf: (name, company) => `Leer la carta en PDF de ${name}, de ${company}`,
+      video: (name, company) => `Ver el vídeo testimonial de ${name}, de ${company}`,
+      audio: (name, company) => `Escuchar el testimonio en audio de ${name}, de ${company}`,
+      quote: (name, company) => `Leer la cita completa de ${name}, de ${company}`,
+    },
+    viewTestimonial: (name) => `Ver el testimonio de ${name}`,
+    mediaLinks: {
+      pdf: 'Leer la carta en PDF',
+      video: 'Ver el vídeo',
+      audio: 'Escuchar la grabación',
+    },
+    viewAll: 'Ver todas las historias de clientes',
+    previous: 'Testimonio anterior',
+    next: 'Testimonio siguiente',
+    first: 'Este es el primer testimonio',
+    last: 'Este es el último testimonio',
+    player: {
+      title: (name, company) => `${name}, ${company}`,
+      unsupported: 'Tu navegador no puede reproducir esta grabación.',
+      transcript: 'Transcripción',
+      showTranscript: 'Mostrar la transcripción',
+      hideTranscript: 'Ocultar la transcripción',
+      openMedia: 'Abrir el archivo',
+    },
+    pdfViewer: {
+      title: (name, company) => `Carta de ${name}, ${company}`,
+      loading: 'Cargando carta…',
+      page: (page, total) => `Página ${page} de ${total}`,
+      previousPage: 'Página anterior',
+      nextPage: 'Página siguiente',
+      zoomIn: 'Acercar',
+      zoomOut: 'Alejar',
+      resetZoom: 'Ajustar al ancho',
+      download: 'Descargar',
+      openInNewTab: 'Abrir en una pestaña nueva',
+      error: 'No se pudo mostrar esta carta aquí. Ábrela en una pestaña nueva.',
+    },
+  },
+  cta: {
+    title: { prefix: '¿Listo para formar parte de nuestra ', highlight: 'historia?', suffix: '' },
+    subtitle: 'Únete a las miles de organizaciones que ya están transformando su futuro con nosotros.',
+    getStarted: 'Empieza hoy',
+    openPositions: 'Ver vacantes',
+  },
+  consent: {
+    bannerLabel: 'Consentimiento de cookies',
+    title: 'Respetamos tu privacidad',
+    description: 'Usamos cookies estrictamente necesarias para que este sitio funcione. Con tu permiso, también usamos analítica para saber qué partes de la página resultan útiles y cookies de marketing para medir nuestras campañas.',
+    acceptAll: 'Aceptar todo',
+    rejectOptional: 'Rechazar opcionales',
+    customize: 'Personalizar',
+    preferencesTitle: 'Preferencias de privacidad',
+    preferencesDescription: 'Elige qué cookies y seguimiento opcionales podemos usar. Puedes cambiarlo en cualquier momento desde "Configuración de privacidad".',
+    alwaysOn: 'Siempre activas',
+    save: 'Guardar preferencias',
+    settings: 'Configuración de privacidad',
+    categories: {
+      necessary: {
+        label: 'Estrictamente necesarias',
+        description: 'Imprescindibles para que el sitio funcione, por ejemplo para recordar tu idioma y esta elección.',
+      },
+      analytics: {
+        label: 'Analítica',
+        description: 'Nos indica qué secciones se leen, qué tarjetas se abren y qué documentos se descargan.',
+      },
+      marketing: {
+        label: 'Marketing',
+        description: 'Nos permite medir el alcance de nuestras campañas y mostrar contenido relevante en otros sitios.',
+      },
+    },
+  },
+  compare: {
+    metaTitle: (from, to) => `${from} frente a ${to} | Nuestra forma de hacer`,
+    metaDescription: (from, to) =>
+      `Compara nuestros hitos de ${from} y ${to}: resúmenes, cifras clave y fotos, uno junto al otro.`,
+    entry: 'Comparar años',
+    back: 'Volver a la línea de tiempo',
+    heading: (from, to) => `${from} frente a ${to}`,
+    subtitle: 'Dos años de nuestra trayectoria, uno junto al otro.',
+    fromLabel: 'Primer año',
+    toLabel: 'Segundo año',
+    swap: 'Intercambiar años',
+    copyLink: 'Copiar enlace',
+    linkCopied: 'Enlace copiado al portapapeles',
+    copyFailed: 'No se pudo copiar el enlace',
+    kpisTitle: 'Cifras clave',
+    metric: 'Indicador',
+    difference: 'Diferencia',
+    notTracked: 'Sin datos este año',
+    gallery: 'Galería',
+    viewInTimeline: (year) => `Ver ${year} en la línea de tiempo`,
+  },
+  milestone: {
+    metaTitle: (year, title) =>
+      title ? `${year}: ${title} | Nuestra forma de hacer` : `${year} | Nuestra forma de hacer`,
+    eyebrow: (year) => `Hito ${year}`,
+    back: 'Volver a la línea de tiempo',
+    keyFigures: 'Cifras clave',
+    gallery: 'Galería',
+    openPhoto: (n) => `Abrir la foto ${n}`,
+    navLabel: 'Hitos',
+    previous: 'Año anterior',
+    next: 'Año siguiente',
+    compareWithPrevious: (year) => `Comparar con ${year}`,
+  },
+  customers: {
+    metaTitle: 'Historias de clientes | Nuestra forma de hacer',
+    metaDescription: 'Encuentra las historias de clientes más parecidas a la tuya: filtra por sector, región, tamaño de empresa, cargo y producto, o busca en lo que dijeron nuestros clientes.',
+    title: { prefix: 'Historias de ', highlight: 'clientes', suffix: '' },
+    subtitle: 'Encuentra los equipos más parecidos al tuyo y descubre cómo trabajan con nosotros.',
+    back: 'Volver a Quiénes somos',
+    filtersLabel: 'Filtrar historias',
+    search: 'Buscar historias',
+    searchPlaceholder: 'Busca citas, nombres o empresas…',
+    industry: 'Sector',
+    companySize: 'Tamaño de empresa',
+    region: 'Región',
+    role: 'Cargo',
+    product: 'Producto',
+    tags: 'Temas',
+    allRegions: 'Todas las regiones',
+    allRoles: 'Todos los cargos',
+    allProducts: 'Todos los productos',
+    clearFilters: 'Borrar filtros',
+    resultCount: (count, total) => `Mostrando ${count} de ${total} historias`,
+    noResults: 'Ninguna historia coincide con estos filtros.',
+    sizes: {
+      startup: 'Startup',
+      smb: 'Pequeña empresa',
+      'mid-market': 'Mediana empresa',
+      enterprise: 'Gran empresa',
+    },
+  },
+  shareStory: {
+    metaTitle: 'Comparte tu historia | Nuestra forma de hacer',
+    metaDescription: 'Cuéntanos cómo trabaja tu equipo con nosotros. Con tu permiso, tu historia podrá aparecer entre nuestras historias de clientes.',
+    title: { prefix: 'Comparte tu ', highlight: 'historia', suffix: '' },
+    subtitle: 'Cuéntanos cómo trabaja tu equipo con nosotros. Leemos cada historia y te preguntaremos antes de publicarla.',
+    cta: 'Comparte tu historia',
+    back: 'Volver a las historias de clientes',
+    optional: '(opcional)',
+    fields: {
+      name: 'Tu nombre',
+      email: 'Correo electrónico',
+      emailHint: 'Solo lo usaremos si tenemos preguntas; nunca se publica.',
+      title: 'Cargo',
+      company: 'Empresa',
+      industry: 'Sector',
+      companySize: 'Tamaño de la empresa',
+      companySizePlaceholder: 'Elige un tamaño',
+      quote: 'Tu historia',
+      quotePlaceholder: '¿Qué ha cambiado para tu equipo desde que trabaja con nosotros?',
+      quoteHint: (min, max) => `Entre ${min} y ${max} caracteres.`,
+      letter: 'Carta (PDF)',
+      letterHint: (mb) => `Una carta firmada o un texto más largo, de hasta ${mb} MB.`,
+      headshot: 'Foto',
+      headshotHint: (mb) => `JPEG, PNG o WebP, de hasta ${mb} MB.`,
+      consent: 'Podéis publicar en este sitio mi nombre, cargo, empresa, historia y los archivos anteriores.',
+    },
+    errors: {
+      required: 'Este campo es obligatorio.',
+      email: 'Introduce un correo electrónico válido.',
+      quoteMin: (min) => `Cuéntanos un poco más: al menos ${min} caracteres.`,
+      quoteMax: (max) => `No superes los ${max} caracteres.`,
+      letterType: 'La carta debe ser un archivo PDF.',
+      headshotType: 'La foto debe ser una imagen JPEG, PNG o WebP.',
+      fileSize: (mb) => `El archivo debe ocupar ${mb} MB o menos.`,
+      consent: 'Necesitamos tu permiso para publicar tu historia.',
+    },
+    submit: 'Enviar mi historia',
+    submitting: 'Enviando…',
+    submitError: 'No hemos podido enviar tu historia. Inténtalo de nuevo.',
+    storageFull: 'Tus archivos son demasiado grandes para guardarlos en este navegador. Prueba con una carta o una foto más ligeras, o envía tu historia sin ellas.',
+    thanksTitle: '¡Gracias por compartirla!',
+    thanksBody: 'Nuestro equipo revisará tu historia y se pondrá en contacto contigo antes de publicarla.',
+    shareAnother: 'Compartir otra historia',
+  },
+  loading: {
+    story: 'Cargando nuestra historia',
+    history: 'Cargando la historia de la empresa',
+    mvvg: 'Cargando misión y valores',
+    timeline: 'Cargando la línea de tiempo',
+    testimonials: 'Cargando testimonios',
+  },
+};
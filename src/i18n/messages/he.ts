@@ -0,0 +1,278 @@
+/**
+ * Hebrew UI strings (right-to-left)
+ */
+
+import type { Messages } from './en';
+
+export const he: Messages = {
+  meta: {
+    title: 'אודותינו | בונים את העתיד יחד',
+    description: 'גלו את המסע שלנו מסטארט־אפ למובילי התעשייה. הכירו את הייעוד, החזון, הערכים ואבני הדרך שעיצבו את מי שאנחנו היום.',
+    keywords: 'אודות, היסטוריית החברה, ייעוד, חזון, ערכים, יעדים, המלצות',
+    ogDescription: 'גלו את המסע שלנו מסטארט־אפ למובילי התעשייה.',
+    pageName: 'אודותינו',
+    pageDescription: 'היסטוריית החברה, ייעוד, חזון, ערכים והמלצות',
+    organizationDescription: 'תנועה של חדשנים שמשנה את הדרך שבה העולם עובד',
+  },
+  languageSwitcher: {
+    label: 'בחירת שפה',
+  },
+  hero: {
+    badge: 'גלו את הסיפור שלנו',
+    headline: { prefix: 'בונים את העתיד, ', highlight: 'יחד', suffix: '' },
+    subtitle: 'אנחנו יותר מחברה — אנחנו תנועה של חדשנים, חולמים ועושים, המאוחדים סביב ייעוד אחד: לשנות את הדרך שבה העולם עובד.',
+    explore: 'גלו את המסע שלנו',
+    join: 'הצטרפו לצוות',
+    scroll: 'גללו',
+    scrollLabel: 'מעבר לתוכן',
+  },
+  story: {
+    badge: '✦ הסיפור שלנו',
+    title: { prefix: 'הלב של ', highlight: 'החדשנות', suffix: '' },
+  },
+  history: {
+    title: { prefix: '', highlight: 'המסע', suffix: ' שלנו' },
+    subtitle: 'לכל חברה גדולה יש סיפור שראוי לספר. הנה שלנו — סיפור של שאפתנות, חוסן ושאיפה בלתי פוסקת למצוינות.',
+    sceneAlt: (year, title) => `${year}: ${title}`,
+    skipTyping: 'דילוג ‹',
+    skipTypingLabel: 'הצגת הפסקה המלאה',
+    mediaCallout: 'בחדשות',
+    closing: 'וזו רק ההתחלה...',
+  },
+  mvvg: {
+    title: { prefix: 'מה ', highlight: 'מניע', suffix: ' אותנו' },
+    subtitle: 'העקרונות והשאיפות שמכוונים כל החלטה שאנחנו מקבלים.',
+    readMore: 'קראו עוד',
+    readLess: 'הצג פחות',
+  },
+  timeline: {
+    title: { prefix: '', highlight: 'הדרך', suffix: ' שלנו' },
+    subtitle: 'חמש שנים של צמיחה, חדשנות ושינוי. גללו כדי לגלות את המסע שלנו.',
+    now: 'עכשיו',
+    futureAwaits: 'העתיד מחכה',
+    kpiDelta: (change, year) => `${change} לעומת ${year}`,
+    kpiDeltaLabel: (label, change, year) => `${label}: ${change} לעומת ${year}`,
+    scrubberLabel: 'סרגל גלילה של ציר הזמן',
+    yearNavLabel: 'שנות ציר הזמן',
+    keyboardHint: 'טיפ: השתמשו במקשי החיצים או ב-J / K כדי לעבור בין השנים, וב-Home / End לשנה הראשונה והאחרונה.',
+    milestoneLink: (year) => `לסיפור המלא של ${year}`,
+    milestoneAlt: (year) => `אבן דרך של החברה ב־${year}`,
+    viewMainImage: (year) => `הצגת התמונה הראשית של ${year}`,
+    mainImageAlt: (year) => `התמונה הראשית של ${year}`,
+    viewGalleryImage: (year, n) => `הצגת תמונה ${n} מהגלריה של ${year}`,
+    galleryImageAlt: (year, n) => `גלריית ${year}, תמונה ${n}`,
+    jumpToYear: (year) => `מעבר לשנת ${year}`,
+    playMedia: (year) => `הפעלת הסרטון של ${year}`,
+    pauseMedia: (year) => `השהיית הסרטון של ${year}`,
+    growth: {
+      title: 'הצמיחה במבט אחד',
+      subtitle: 'איך המספרים המרכזיים שלנו השתנו משנה לשנה',
+      point: (label, value, year) => `${label} ב־${year}: ${value}. מעבר ל־${year}`,
+    },
+    lightbox: {
+      title: (year) => `גלריית ${year}`,
+      photo: (n, total) => `תמונה ${n} מתוך ${total}`,
+      previous: 'התמונה הקודמת',
+      next: 'התמונה הבאה',
+      open: (year) => `פתיחת גלריית ${year}`,
+      morePhotos: (count) => `הצגת ${count} תמונות נוספות`,
+      credit: (credit) => `צילום: ${credit}`,
+      zoomHint: 'צבטו או לחצו פעמיים להגדלה',
+    },
+  },
+  testimonials: {
+    title: { prefix: 'קולות של ', highlight: 'אמון', suffix: '' },
+    subtitle: 'שמעו ממנהלים וצוותים ששינו את הארגונים שלהם איתנו.',
+    coverAlt: (name, title, company) => `${name}, ${title} ב־${company}`,
+    actions: {
+      pdf: 'קריאת PDF',
+      video: 'צפייה בסרטון',
+      audio: 'האזנה',
+      quote: 'קריאת הציטוט',
+    },
+    actionLabels: {
+      pdf: (name, company) => `קריאת מכתב ה־PDF של ${name} מ־${company}`,
+      video: (name, company) => `צפייה בסרטון ההמלצה של ${name} מ־${company}`,
+      audio: (name, company) => `האזנה להמלצה הקולית של ${name} מ־${company}`,
+      quote: (name, company) => `קריאת הציטוט המלא של ${name} מ־${company}`,
+    },
+    viewTestimonial: (name) => `הצגת ההמלצה של ${name}`,
+    mediaLinks: {
+      pdf: 'קריאת מכתב ה־PDF',
+      video: 'צפייה בסרטון',
+      audio: 'האזנה להקלטה',
+    },
+    viewAll: 'לכל סיפורי הלקוחות',
+    previous: 'ההמלצה הקודמת',
+    next: 'ההמלצה הבאה',
+    first: 'זו ההמלצה הראשונה',
+    last: 'זו ההמלצה האחרונה',
+    player: {
+      title: (name, company) => `${name}, ${company}`,
+      unsupported: 'הדפדפן שלכם לא יכול להפעיל את ההקלטה הזו.',
+      transcript: 'תמליל',
+      showTranscript: 'הצגת התמליל',
+      hideTranscript: 'הסתרת התמליל',
+      openMedia: 'פתיחת קובץ המדיה',
+    },
+    pdfViewer: {
+      title: (name, company) => `מכתב מאת ${name}, ${company}`,
+      loading: 'טוען את המכתב…',
+      page: (page, total) => `עמוד ${page} מתוך ${total}`,
+      previousPage: 'העמוד הקודם',
+      nextPage: 'העמוד הבא',
+      zoomIn: 'הגדלה',
+      zoomOut: 'הקטנה',
+      resetZoom: 'התאמה לרוחב',
+      download: 'הורדה',
+      openInNewTab: 'פתיחה בכרטיסייה חדשה',
+      error: 'לא ניתן להציג את המכתב כאן. פתחו אותו בכרטיסייה חדשה.',
+    },
+  },
+  cta: {
+    title: { prefix: 'מוכנים להיות חלק מה', highlight: 'סיפור', suffix: ' שלנו?' },
+    subtitle: 'הצטרפו לאלפי ארגונים שכבר משנים את עתידם איתנו.',
+    getStarted: 'התחילו היום',
+    openPositions: 'משרות פתוחות',
+  },
+  consent: {
+    bannerLabel: 'הסכמה לעוגיות',
+    title: 'הפרטיות שלכם חשובה לנו',
+    description: 'אנחנו משתמשים בעוגיות הכרחיות כדי שהאתר יפעל. באישורכם נשתמש גם בכלי ניתוח כדי ללמוד אילו חלקים בעמוד מועילים, ובעוגיות שיווק כדי למדוד את הקמפיינים שלנו.',
+    acceptAll: 'אישור הכול',
+    rejectOptional: 'דחיית האופציונליות',
+    customize: 'התאמה אישית',
+    preferencesTitle: 'העדפות פרטיות',
+    preferencesDescription: 'בחרו באילו עוגיות ומעקב אופציונליים נוכל להשתמש. אפשר לשנות זאת בכל עת דרך "הגדרות פרטיות".',
+    alwaysOn: 'פעילות תמיד',
+    save: 'שמירת העדפות',
+    settings: 'הגדרות פרטיות',
+    categories: {
+      necessary: {
+        label: 'הכרחיות',
+        description: 'נדרשות כדי שהאתר יפעל, למשל כדי לזכור את השפה שלכם ואת הבחירה הזו.',
+      },
+      analytics: {
+        label: 'ניתוח נתונים',
+        description: 'מספרות לנו אילו אזורים נקראים, אילו כרטיסים נפתחים ואילו מסמכים מורדים.',
+      },
+      marketing: {
+        label: 'שיווק',
+        description: 'מאפשרות לנו למדוד את החשיפה של הקמפיינים שלנו ולהציג תוכן רלוונטי באתרים אחרים.',
+      },
+    },
+  },
+  compare: {
+    metaTitle: (from, to) => `${from} מול ${to} | הדרך שלנו`,
+    metaDescription: (from, to) =>
+      `השוו את אבני הדרך שלנו ב־${from} וב־${to} זו לצד זו: סיכומים, נתונים מרכזיים ותמונות.`,
+    entry: 'השוואת שנים',
+    back: 'חזרה לציר הזמן',
+    heading: (from, to) => `${from} מול ${to}`,
+    subtitle: 'שתי שנים של דרך החברה, זו לצד זו.',
+    fromLabel: 'שנה ראשונה',
+    toLabel: 'שנה שנייה',
+    swap: 'החלפת השנים',
+    copyLink: 'העתקת קישור',
+    linkCopied: 'הקישור הועתק',
+    copyFailed: 'לא ניתן היה להעתיק את הקישור',
+    kpisTitle: 'נתונים מרכזיים',
+    metric: 'מדד',
+    difference: 'הפרש',
+    notTracked: 'אין נתונים לשנה זו',
+    gallery: 'גלריה',
+    viewInTimeline: (year) => `הצגת ${year} בציר הזמן`,
+  },
+  milestone: {
+    metaTitle: (year, title) =>
+      title ? `${year}: ${title} | הדרך שלנו` : `${year} | הדרך שלנו`,
+    eyebrow: (year) => `אבן דרך ${year}`,
+    back: 'חזרה לציר הזמן',
+    keyFigures: 'נתונים מרכזיים',
+    gallery: 'גלריה',
+    openPhoto: (n) => `פתיחת תמונה ${n}`,
+    navLabel: 'אבני דרך',
+    previous: 'השנה הקודמת',
+    next: 'השנה הבאה',
+    compareWithPrevious: (year) => `השוואה ל־${year}`,
+  },
+  customers: {
+    metaTitle: 'סיפורי לקוחות | הדרך שלנו',
+    metaDescription: 'מצאו את סיפורי הלקוחות הקרובים ביותר לשלכם: סננו לפי תעשייה, אזור, גודל חברה, תפקיד ומוצר, או חפשו במה שאמרו הלקוחות שלנו.',
+    title: { prefix: 'סיפורי ', highlight: 'לקוחות', suffix: '' },
+    subtitle: 'מצאו את הצוותים הדומים ביותר לשלכם וגלו איך הם עובדים איתנו.',
+    back: 'חזרה לאודות',
+    filtersLabel: 'סינון סיפורים',
+    search: 'חיפוש סיפורים',
+    searchPlaceholder: 'חפשו ציטוטים, שמות או חברות…',
+    industry: 'תעשייה',
+    companySize: 'גודל חברה',
+    region: 'אזור',
+    role: 'תפקיד',
+    product: 'מוצר',
+    tags: 'נושאים',
+    allRegions: 'כל האזורים',
+    allRoles: 'כל התפקידים',
+    allProducts: 'כל המוצרים',
+    clearFilters: 'ניקוי מסננים',
+    resultCount: (count, total) => `מוצגים ${count} מתוך ${total} סיפורים`,
+    noResults: 'אין סיפורים שתואמים את המסננים האלה.',
+    sizes: {
+      startup: 'סטארט־אפ',
+      smb: 'עסק קטן',
+      'mid-market': 'חברה בינונית',
+      enterprise: 'ארגון גדול',
+    },
+  },
+  shareStory: {
+    metaTitle: 'שתפו את הסיפור שלכם | הדרך שלנו',
+    metaDescription: 'ספרו לנו איך הצוות שלכם עובד איתנו. באישורכם, הסיפור שלכם עשוי להופיע בין סיפורי הלקוחות שלנו.',
+    title: { prefix: 'שתפו את ', highlight: 'הסיפור שלכם', suffix: '' },
+    subtitle: 'ספרו לנו איך הצוות שלכם עובד איתנו. אנחנו קוראים כל סיפור ומבקשים רשות לפני שמפרסמים.',
+    cta: 'שתפו את הסיפור שלכם',
+    back: 'חזרה לסיפורי הלקוחות',
+    optional: '(אופציונלי)',
+    fields: {
+      name: 'שם',
+      email: 'אימייל',
+      emailHint: 'ישמש רק אם יהיו לנו שאלות; לעולם לא יפורסם.',
+      title: 'תפקיד',
+      company: 'חברה',
+      industry: 'תעשייה',
+      companySize: 'גודל החברה',
+      companySizePlaceholder: 'בחרו גודל',
+      quote: 'הסיפור שלכם',
+      quotePlaceholder: 'מה השתנה בצוות שלכם מאז שהתחלתם לעבוד איתנו?',
+      quoteHint: (min, max) => `בין ${min} ל-${max} תווים.`,
+      letter: 'מכתב (PDF)',
+      letterHint: (mb) => `מכתב חתום או טקסט ארוך יותר, עד ${mb} MB.`,
+      headshot: 'תמונת פרופיל',
+      headshotHint: (mb) => `JPEG, PNG או WebP, עד ${mb} MB.`,
+      consent: 'אני מאשר/ת לפרסם באתר זה את שמי, תפקידי, החברה, הסיפור והקבצים שלמעלה.',
+    },
+    errors: {
+      required: 'שדה חובה.',
+      email: 'הזינו כתובת אימייל תקינה.',
+      quoteMin: (min) => `ספרו לנו עוד קצת: לפחות ${min} תווים.`,
+      quoteMax: (max) => `עד ${max} תווים.`,
+      letterType: 'המכתב חייב להיות קובץ PDF.',
+      headshotType: 'התמונה חייבת להיות JPEG, PNG או WebP.',
+      fileSize: (mb) => `גודל הקובץ חייב להיות עד ${mb} MB.`,
+      consent: 'אנחנו צריכים את אישורכם כדי לפרסם את הסיפור.',
+    },
+    submit: 'שליחת הסיפור',
+    submitting: 'שולח…',
+    submitError: 'לא הצלחנו לשלוח את הסיפור. נסו שוב.',
+    storageFull: 'הקבצים גדולים מדי לשמירה בדפדפן הזה. נסו מכתב או תמונה קטנים יותר, או שלחו את הסיפור בלעדיהם.',
+    thanksTitle: 'תודה ששיתפתם!',
+    thanksBody: 'הצוות שלנו יקרא את הסיפור ויצור איתכם קשר לפני הפרסום.',
+    shareAnother: 'שיתוף סיפור נוסף',
+  },
+  loading: {
+    story: 'טוען את הסיפור שלנו',
+    history: 'טוען את היסטוריית החברה',
+    mvvg: 'טוען ייעוד וערכים',
+    timeline: 'טוען את ציר הזמן',
+    testimonials: 'טוען המלצות',
+  },
+};
@@ -0,0 +1,9 @@
+import type { Locale } from '../config';
+import { en, type Messages } from './en';
+import { es } from './es';
+import { ar } from './ar';
+import { he } from './he';
+
+export type { Messages, HighlightedText } from './en';
+
+export const messages: Record<Locale, Messages> = { en, es, ar, he };
@@ -0,0 +1,58 @@
+/**
+ * ANALYTICS EVENT CATALOG
+ *
+ * Every event the site may emit, keyed by `type`. Adding an event means
+ * adding an entry to AnalyticsEventMap; `track()` only accepts events
+ * declared here.
+ */
+
+/** Page sections reported by `section_viewed` */
+export type AboutSection =
+  | 'hero'
+  | 'story'
+  | 'history'
+  | 'mvvg'
+  | 'timeline'
+  | 'testimonials'
+  | 'cta';
+
+export interface AnalyticsEventMap {
+  /** A section scrolled into view (once per page view) */
+  section_viewed: { section: AboutSection };
+  /**
+   * Time spent on a section since the previous report, sent when the page
+   * is hidden or the section unmounts. dwellMs values can be summed.
+   */
+  section_engagement: {
+    section: AboutSection;
+    /** When the section was first seen (ms since epoch) */
+    firstSeenAt: number;
+    /** Visible time since the previous report (ms) */
+    dwellMs: number;
+    /** Furthest point of the section that reached the viewport (0-100 %) */
+    maxScrollDepth: number;
+  };
+  /** A Mission/Vision/Values/Goals card was expanded */
+  card_expanded: { id: string; label: string };
+  /** A testimonial letter (PDF) was opened */
+  pdf_opened: { id: string; name: string };
+  /** A video, audio or quote-only testimonial was opened */
+  testimonial_media_opened: { id: string; name: string; media: 'video' | 'audio' | 'quote' };
+  /** The timeline scroll position reached a year (once per year per page view) */
+  timeline_year_reached: { year: number };
+  /** A call-to-action link was clicked */
+  cta_clicked: { id: string; label: string; href: string };
+}
+
+export type AnalyticsEventType = keyof AnalyticsEventMap;
+
+/** Event as passed to `track()`, e.g. { type: 'pdf_opened', id, name } */
+export type AnalyticsEvent = {
+  [K in AnalyticsEventType]: { type: K } & AnalyticsEventMap[K];
+}[AnalyticsEventType];
+
+/** Event as delivered to sinks, stamped with time and location */
+export type TrackedEvent = AnalyticsEvent & {
+  timestamp: number;
+  path: string;
+};
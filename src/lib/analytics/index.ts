@@ -0,0 +1,156 @@
+/**
+ * ANALYTICS
+ *
+ * Single entry point for product analytics:
+ *
+ *   track({ type: 'pdf_opened', id: testimonial.id, name: testimonial.name });
+ *
+ * Events are stamped and fanned out to every registered sink. Default sinks:
+ * - console (development builds only)
+ * - in-memory (`memorySink`)
+ * - localStorage, read by the /admin/analytics dashboard
+ * - legacy window arrays (window.aboutMvvClicks / testimonialPdfOpened)
+ * - beacon, when VITE_ANALYTICS_ENDPOINT is set
+ *
+ * Buffered sinks are flushed when the page is hidden (pagehide or
+ * visibilitychange), the last reliable moment to send a beacon. Callbacks
+ * registered with onPageHide run first so they can track final events.
+ *
+ * CONSENT:
+ * Each sink only receives events once the visitor granted its consent
+ * category (see src/lib/consent). Events tracked before the visitor has
+ * decided are queued and replayed to the permitted sinks afterwards;
+ * events for a declined category are dropped.
+ */
+
+import type { AnalyticsEvent, TrackedEvent } from './events';
+import { getConsent, hasConsent, subscribeConsent } from '@/lib/consent';
+import {
+  consoleSink,
+  createMemorySink,
+  createStorageSink,
+  createBeaconSink,
+  windowArraysSink,
+  type AnalyticsSink,
+} from './sinks';
+
+export * from './events';
+export * from './sinks';
+export * from './schema';
+export * from './summary';
+
+const sinks = new Set<AnalyticsSink>();
+
+/** Events tracked before the visitor made a consent choice */
+const MAX_PENDING_EVENTS = 100;
+let pending: TrackedEvent[] = [];
+
+/**
+ * Register a sink; returns a function that removes it again
+ */
+export const addSink = (sink: AnalyticsSink): (() => void) => {
+  sinks.add(sink);
+  return () => {
+    sinks.delete(sink);
+  };
+};
+
+const deliver = (tracked: TrackedEvent) => {
+  sinks.forEach((sink) => {
+    if (!hasConsent(sink.category ?? 'analytics')) return;
+    try {
+      sink.send(tracked);
+    } catch (error) {
+      console.warn(`[Analytics] Sink "${sink.name}" failed:`, error);
+    }
+  });
+};
+
+/**
+ * Record an event from the catalog
+ */
+export const track = (event: AnalyticsEvent): void => {
+  const tracked = {
+    ...event,
+    timestamp: Date.now(),
+    path: typeof window === 'undefined' ? '' : window.location.pathname,
+  } as TrackedEvent;
+
+  if (!getConsent().decided) {
+    pending = [...pending, tracked].slice(-MAX_PENDING_EVENTS);
+    return;
+  }
+
+  deliver(tracked);
+};
+
+/**
+ * Ask every buffering sink to send what it holds
+ */
+export const flush = (): void => {
+  sinks.forEach((sink) => {
+    try {
+      sink.flush?.();
+    } catch (error) {
+      console.warn(`[Analytics] Sink "${sink.name}" failed to flush:`, error);
+    }
+  });
+};
+
+const pageHideCallbacks = new Set<() => void>();
+
+/**
+ * Run a callback whenever the page is hidden, right before sinks flush;
+ * returns a function that unregisters it
+ */
+export const onPageHide = (callback: () => void): (() => void) => {
+  pageHideCallbacks.add(callback);
+  return () => {
+    pageHideCallbacks.delete(callback);
+  };
+};
+
+const handlePageHide = () => {
+  pageHideCallbacks.forEach((callback) => {
+    try {
+      callback();
+    } catch (error) {
+      console.warn('[Analytics] Page hide callback failed:', error);
+    }
+  });
+  flush();
+};
+
+// ============================================
+// DEFAULT SETUP
+// ============================================
+
+export const memorySink = createMemorySink();
+
+if (import.meta.env.DEV) addSink(consoleSink);
+addSink(memorySink);
+addSink(createStorageSink());
+addSink(windowArraysSink);
+
+if (import.meta.env.VITE_ANALYTICS_ENDPOINT) {
+  addSink(createBeaconSink({ endpoint: import.meta.env.VITE_ANALYTICS_ENDPOINT }));
+}
+
+// Replay (or drop) queued events once the visitor decides
+subscribeConsent(() => {
+  if (!getConsent().decided) return;
+  const queued = pending;
+  pending = [];
+  queued.forEach(deliver);
+});
+
+if (typeof window !== 'undefined') {
+  // Legacy integrations expect the arrays to exist before any event
+  window.aboutMvvClicks = window.aboutMvvClicks || [];
+  window.testimonialPdfOpened = window.testimonialPdfOpened || [];
+
+  window.addEventListener('pagehide', handlePageHide);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') handlePageHide();
+  });
+}
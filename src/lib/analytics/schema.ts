@@ -0,0 +1,58 @@
+/**
+ * ANALYTICS EVENT SCHEMA
+ *
+ * Runtime validation for recorded events read back by /admin/analytics.
+ * Events from localStorage or VITE_ANALYTICS_EVENTS_URL come from outside
+ * this build (older versions, other producers, hand-edited files), so rows
+ * that do not match the catalog in events.ts are skipped instead of
+ * breaking the dashboard.
+ */
+
+import { z } from 'zod';
+import type { TrackedEvent } from './events';
+
+const SECTIONS = ['hero', 'story', 'history', 'mvvg', 'timeline', 'testimonials', 'cta'] as const;
+
+const timestamp = z.number().finite().nonnegative();
+
+const envelope = {
+  timestamp,
+  path: z.string(),
+};
+
+export const trackedEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('section_viewed'), section: z.enum(SECTIONS), ...envelope }),
+  z.object({
+    type: z.literal('section_engagement'),
+    section: z.enum(SECTIONS),
+    firstSeenAt: timestamp,
+    dwellMs: z.number().finite().nonnegative(),
+    maxScrollDepth: z.number().min(0).max(100),
+    ...envelope,
+  }),
+  z.object({ type: z.literal('card_expanded'), id: z.string(), label: z.string(), ...envelope }),
+  z.object({ type: z.literal('pdf_opened'), id: z.string(), name: z.string(), ...envelope }),
+  z.object({
+    type: z.literal('testimonial_media_opened'),
+    id: z.string(),
+    name: z.string(),
+    media: z.enum(['video', 'audio', 'quote']),
+    ...envelope,
+  }),
+  z.object({ type: z.literal('timeline_year_reached'), year: z.number().int(), ...envelope }),
+  z.object({ type: z.literal('cta_clicked'), id: z.string(), label: z.string(), href: z.string(), ...envelope }),
+]);
+
+/**
+ * Keep the rows that are valid events; warns once with the number skipped
+ */
+export const parseTrackedEvents = (rows: unknown[], source: string): TrackedEvent[] => {
+  const events = rows.flatMap((row) => {
+    const result = trackedEventSchema.safeParse(row);
+    return result.success ? [result.data as TrackedEvent] : [];
+  });
+  if (events.length < rows.length) {
+    console.warn(`[Analytics] Skipped ${rows.length - events.length} invalid events from ${source}`);
+  }
+  return events;
+};
@@ -0,0 +1,224 @@
+/**
+ * ANALYTICS SINKS
+ *
+ * Destinations for tracked events. A sink receives every event through
+ * `send` and may buffer; `flush` is called when the page is hidden so
+ * buffered events can leave before the page unloads.
+ */
+
+import type { TrackedEvent } from './events';
+import type { ConsentCategory } from '@/lib/consent';
+
+export interface AnalyticsSink {
+  /** Identifier used in warnings */
+  name: string;
+  /** Consent the visitor must grant before this sink receives events (default: analytics) */
+  category?: ConsentCategory;
+  send: (event: TrackedEvent) => void;
+  flush?: () => void;
+}
+
+// ============================================
+// CONSOLE
+// ============================================
+
+export const consoleSink: AnalyticsSink = {
+  name: 'console',
+  send: (event) => {
+    console.log(`[Analytics] ${event.type}:`, event);
+  },
+};
+
+// ============================================
+// IN-MEMORY
+// ============================================
+
+export interface MemorySink extends AnalyticsSink {
+  /** Events received so far, oldest first */
+  readonly events: TrackedEvent[];
+  clear: () => void;
+}
+
+/**
+ * Keeps the most recent events in memory, e.g. for debugging or tests
+ */
+export const createMemorySink = (limit = 500): MemorySink => {
+  let events: TrackedEvent[] = [];
+  return {
+    name: 'memory',
+    get events() {
+      return events;
+    },
+    send: (event) => {
+      events = [...events, event].slice(-limit);
+    },
+    clear: () => {
+      events = [];
+    },
+  };
+};
+
+// ============================================
+// LOCAL STORAGE
+// ============================================
+
+export const ANALYTICS_STORAGE_KEY = 'analytics-events';
+
+/**
+ * Events persisted by the local storage sink, oldest first
+ */
+export const readStoredEvents = (key = ANALYTICS_STORAGE_KEY): TrackedEvent[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(key) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const clearStoredEvents = (key = ANALYTICS_STORAGE_KEY): void => {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // Storage blocked: nothing to clear
+  }
+};
+
+/** Longest wait (ms) for an idle moment before buffered events are written anyway */
+const STORAGE_IDLE_TIMEOUT = 2000;
+
+const scheduleIdle = (callback: () => void): void => {
+  if (typeof window !== 'undefined' && 'requestIdleCallback' in window) {
+    window.requestIdleCallback(callback, { timeout: STORAGE_IDLE_TIMEOUT });
+  } else {
+    setTimeout(callback, STORAGE_IDLE_TIMEOUT);
+  }
+};
+
+/**
+ * Persists the most recent events in localStorage so they can be reviewed
+ * on /admin/analytics without a backend. Events are buffered in memory and
+ * written in one go when the browser is idle or the page is hidden, so
+ * track() never parses the stored history on the main thread.
+ */
+export const createStorageSink = (key = ANALYTICS_STORAGE_KEY, limit = 1000): AnalyticsSink => {
+  let buffer: TrackedEvent[] = [];
+  let isScheduled = false;
+
+  const flush = () => {
+    isScheduled = false;
+    if (buffer.length === 0) return;
+    const pending = buffer;
+    buffer = [];
+    try {
+      const events = [...readStoredEvents(key), ...pending].slice(-limit);
+      window.localStorage.setItem(key, JSON.stringify(events));
+    } catch {
+      // Quota exceeded or storage blocked: drop silently
+    }
+  };
+
+  return {
+    name: 'local-storage',
+    send: (event) => {
+      buffer.push(event);
+      if (!isScheduled) {
+        isScheduled = true;
+        scheduleIdle(flush);
+      }
+    },
+    flush,
+  };
+};
+
+// ============================================
+// BEACON
+// ============================================
+
+interface BeaconSinkOptions {
+  /** URL receiving batches as JSON: { events: TrackedEvent[] } */
+  endpoint: string;
+  /** Send as soon as this many events are queued */
+  batchSize?: number;
+  /** Send whatever is queued at this interval (ms) */
+  flushInterval?: number;
+}
+
+/**
+ * Batches events and posts them with navigator.sendBeacon, falling back
+ * to a keepalive fetch when beacons are unavailable or rejected
+ */
+export const createBeaconSink = ({
+  endpoint,
+  batchSize = 20,
+  flushInterval = 15000,
+}: BeaconSinkOptions): AnalyticsSink => {
+  let queue: TrackedEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (queue.length === 0) return;
+
+    const body = JSON.stringify({ events: queue });
+    queue = [];
+
+    const sent = typeof navigator !== 'undefined' && 'sendBeacon' in navigator
+      && navigator.sendBeacon(endpoint, new Blob([body], { type: 'application/json' }));
+
+    if (!sent) {
+      fetch(endpoint, {
+        method: 'POST',
+        body,
+        headers: { 'Content-Type': 'application/json' },
+        keepalive: true,
+      }).catch((error) => console.warn('[Analytics] Beacon delivery failed:', error));
+    }
+  };
+
+  return {
+    name: 'beacon',
+    send: (event) => {
+      queue.push(event);
+      if (queue.length >= batchSize) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, flushInterval);
+      }
+    },
+    flush,
+  };
+};
+
+// ============================================
+// WINDOW ARRAYS (compatibility)
+// ============================================
+
+declare global {
+  interface Window {
+    aboutMvvClicks: Array<{ id: string; label: string; timestamp: number }>;
+    testimonialPdfOpened: Array<{ id: string; name: string; timestamp: number }>;
+  }
+}
+
+/**
+ * Mirrors card and PDF events into the legacy window.aboutMvvClicks and
+ * window.testimonialPdfOpened arrays read by external integrations
+ */
+export const windowArraysSink: AnalyticsSink = {
+  name: 'window-arrays',
+  send: (event) => {
+    if (typeof window === 'undefined') return;
+    if (event.type === 'card_expanded') {
+      window.aboutMvvClicks = window.aboutMvvClicks || [];
+      window.aboutMvvClicks.push({ id: event.id, label: event.label, timestamp: event.timestamp });
+    } else if (event.type === 'pdf_opened') {
+      window.testimonialPdfOpened = window.testimonialPdfOpened || [];
+      window.testimonialPdfOpened.push({ id: event.id, name: event.name, timestamp: event.timestamp });
+    }
+  },
+};
@@ -0,0 +1,126 @@
+/**
+ * ANALYTICS SUMMARIES
+ *
+ * Pure aggregations over recorded events, used by the /admin/analytics
+ * dashboard. Every function takes already-filtered events.
+ */
+
+import type { AnalyticsEventType, AboutSection, TrackedEvent } from './events';
+
+export type TrackedEventOf<K extends AnalyticsEventType> = Extract<TrackedEvent, { type: K }>;
+
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface CountRow {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export interface SectionRow {
+  section: AboutSection;
+  views: number;
+  /** Summed dwell across reports (ms) */
+  dwellMs: number;
+  /** Deepest scroll reported (0-100 %) */
+  maxScrollDepth: number;
+}
+
+export const eventsOfType = <K extends AnalyticsEventType>(
+  events: TrackedEvent[],
+  type: K
+): TrackedEventOf<K>[] => events.filter((event): event is TrackedEventOf<K> => event.type === type);
+
+/**
+ * Keep events inside the range; `to` includes the whole day
+ */
+export const filterByDateRange = (events: TrackedEvent[], range: DateRange): TrackedEvent[] => {
+  const from = range.from ? new Date(range.from).setHours(0, 0, 0, 0) : -Infinity;
+  const to = range.to ? new Date(range.to).setHours(23, 59, 59, 999) : Infinity;
+  return events.filter((event) => event.timestamp >= from && event.timestamp <= to);
+};
+
+/**
+ * Count events per key, most frequent first; the latest label wins
+ */
+const countRows = <T>(items: T[], key: (item: T) => string, label: (item: T) => string): CountRow[] => {
+  const rows = new Map<string, CountRow>();
+  items.forEach((item) => {
+    const id = key(item);
+    const row = rows.get(id) ?? { key: id, label: label(item), count: 0 };
+    rows.set(id, { ...row, label: label(item), count: row.count + 1 });
+  });
+  return [...rows.values()].sort((a, b) => b.count - a.count);
+};
+
+export const cardExpansionCounts = (events: TrackedEvent[]): CountRow[] =>
+  countRows(eventsOfType(events, 'card_expanded'), (event) => event.id, (event) => event.label);
+
+/** How an opened testimonial was presented */
+export type TestimonialOpenMedia = 'pdf' | TrackedEventOf<'testimonial_media_opened'>['media'];
+
+const MEDIA_LABELS: Record<TestimonialOpenMedia, string> = {
+  pdf: 'PDF letter',
+  video: 'Video',
+  audio: 'Audio',
+  quote: 'Quote',
+};
+
+/**
+ * Letter opens (pdf_opened) and recording / quote opens as one list
+ */
+const testimonialOpens = (events: TrackedEvent[]) => [
+  ...eventsOfType(events, 'pdf_opened').map(({ id, name }) => ({ id, name, media: 'pdf' as TestimonialOpenMedia })),
+  ...eventsOfType(events, 'testimonial_media_opened').map(({ id, name, media }) => ({ id, name, media })),
+];
+
+/**
+ * Testimonial opens per media type
+ */
+export const testimonialMediaCounts = (events: TrackedEvent[]): CountRow[] =>
+  countRows(testimonialOpens(events), (open) => open.media, (open) => MEDIA_LABELS[open.media]);
+
+/**
+ * Testimonial opens per testimonial and media type
+ */
+export const testimonialOpenCounts = (events: TrackedEvent[]): CountRow[] =>
+  countRows(
+    testimonialOpens(events),
+    (open) => `${open.id}:${open.media}`,
+    (open) => `${open.name} · ${MEDIA_LABELS[open.media]}`
+  );
+
+export const ctaClickCounts = (events: TrackedEvent[]): CountRow[] =>
+  countRows(eventsOfType(events, 'cta_clicked'), (event) => event.id, (event) => event.label);
+
+/**
+ * Visits reaching each timeline year, in chronological order
+ */
+export const timelineReachCounts = (events: TrackedEvent[]): CountRow[] =>
+  countRows(
+    eventsOfType(events, 'timeline_year_reached'),
+    (event) => String(event.year),
+    (event) => String(event.year)
+  ).sort((a, b) => Number(a.key) - Number(b.key));
+
+export const sectionSummary = (events: TrackedEvent[]): SectionRow[] => {
+  const rows = new Map<AboutSection, SectionRow>();
+  const rowFor = (section: AboutSection) => {
+    if (!rows.has(section)) rows.set(section, { section, views: 0, dwellMs: 0, maxScrollDepth: 0 });
+    return rows.get(section);
+  };
+
+  eventsOfType(events, 'section_viewed').forEach((event) => {
+    rowFor(event.section).views += 1;
+  });
+  eventsOfType(events, 'section_engagement').forEach((event) => {
+    const row = rowFor(event.section);
+    row.dwellMs += event.dwellMs;
+    row.maxScrollDepth = Math.max(row.maxScrollDepth, event.maxScrollDepth);
+  });
+
+  return [...rows.values()];
+};
@@ -0,0 +1,126 @@
+/**
+ * CONSENT STORE
+ *
+ * Records which optional tracking categories the visitor allowed:
+ * - necessary: always on (language, this consent record)
+ * - analytics: product analytics events (src/lib/analytics)
+ * - marketing: advertising and attribution integrations
+ *
+ * The choice is persisted in localStorage and versioned; bumping
+ * CONSENT_VERSION asks every visitor again. Until a choice exists the
+ * state is "undecided" and analytics holds events back.
+ */
+
+export type ConsentCategory = 'necessary' | 'analytics' | 'marketing';
+
+export const CONSENT_CATEGORIES: ConsentCategory[] = ['necessary', 'analytics', 'marketing'];
+
+export type ConsentPreferences = Record<ConsentCategory, boolean>;
+
+export interface ConsentState {
+  /** False until the visitor accepts, rejects or saves preferences */
+  decided: boolean;
+  preferences: ConsentPreferences;
+  /** When the choice was made (ms), null while undecided */
+  updatedAt: number | null;
+}
+
+/** Bump when categories or their purpose change to ask again */
+export const CONSENT_VERSION = 1;
+
+const STORAGE_KEY = 'consent-preferences';
+
+const UNDECIDED: ConsentState = {
+  decided: false,
+  preferences: { necessary: true, analytics: false, marketing: false },
+  updatedAt: null,
+};
+
+interface StoredConsent {
+  version: number;
+  preferences: Partial<ConsentPreferences>;
+  updatedAt: number;
+}
+
+const readStoredConsent = (): ConsentState => {
+  if (typeof window === 'undefined') return UNDECIDED;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return UNDECIDED;
+    const stored = JSON.parse(raw) as StoredConsent;
+    if (stored.version !== CONSENT_VERSION) return UNDECIDED;
+    return {
+      decided: true,
+      preferences: {
+        necessary: true,
+        analytics: stored.preferences?.analytics === true,
+        marketing: stored.preferences?.marketing === true,
+      },
+      updatedAt: stored.updatedAt ?? null,
+    };
+  } catch {
+    // Storage blocked or corrupt: ask again
+    return UNDECIDED;
+  }
+};
+
+let state: ConsentState = readStoredConsent();
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach((listener) => listener());
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export const getConsent = (): ConsentState => state;
+
+export const hasConsent = (category: ConsentCategory): boolean =>
+  category === 'necessary' || (state.decided && state.preferences[category]);
+
+/**
+ * Listen for consent changes (including changes made in other tabs)
+ */
+export const subscribeConsent = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Record the visitor's choice; necessary is always granted
+ */
+export const saveConsent = (preferences: Partial<ConsentPreferences>): void => {
+  const updatedAt = Date.now();
+  state = {
+    decided: true,
+    preferences: {
+      necessary: true,
+      analytics: preferences.analytics === true,
+      marketing: preferences.marketing === true,
+    },
+    updatedAt,
+  };
+
+  try {
+    const stored: StoredConsent = { version: CONSENT_VERSION, preferences: state.preferences, updatedAt };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Choice still applies for this page view
+  }
+
+  emit();
+};
+
+export const acceptAllConsent = (): void => saveConsent({ analytics: true, marketing: true });
+
+export const rejectOptionalConsent = (): void => saveConsent({ analytics: false, marketing: false });
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== STORAGE_KEY) return;
+    state = readStoredConsent();
+    emit();
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * KPI COMPARISONS
+ *
+ * Year-over-year deltas, per-label series and side-by-side comparisons
+ * across timeline KPIs.
+ * KPIs are matched by label, and only compared when they are measured
+ * the same way (unit and currency). A delta is taken against the nearest
+ * earlier year that has the same label.
+ */
+
+import type { Kpi, TimelineYear } from '@/data/aboutData';
+
+export interface KpiDelta {
+  /** Year the value is compared against */
+  fromYear: number;
+  fromValue: number;
+  /** Relative change, e.g. 2.25 for +225% */
+  change: number;
+}
+
+const isComparable = (a: Kpi, b: Kpi) =>
+  (a.unit ?? 'number') === (b.unit ?? 'number') && a.currency === b.currency;
+
+/**
+ * Delta for one KPI of years[index], or null when there is nothing to compare with
+ */
+export const findKpiDelta = (years: TimelineYear[], index: number, kpi: Kpi): KpiDelta | null => {
+  for (let i = index - 1; i >= 0; i--) {
+    const previous = years[i].kpis.find((candidate) => candidate.label === kpi.label);
+    if (!previous) continue;
+    if (!isComparable(previous, kpi) || previous.value === 0) return null;
+    return {
+      fromYear: years[i].year,
+      fromValue: previous.value,
+      change: (kpi.value - previous.value) / Math.abs(previous.value),
+    };
+  }
+  return null;
+};
+
+/**
+ * Deltas for every KPI of every year, aligned with years[i].kpis
+ */
+export const timelineKpiDeltas = (years: TimelineYear[]): Array<Array<KpiDelta | null>> =>
+  years.map((year, index) => year.kpis.map((kpi) => findKpiDelta(years, index, kpi)));
+
+export interface KpiSeries {
+  label: string;
+  /** Latest KPI of the series, used for unit and formatting */
+  kpi: Kpi;
+  /** One point per timeline year; value is null for years without this KPI */
+  points: Array<{ year: number; value: number | null }>;
+}
+
+/**
+ * KPI series that appear in at least `minPoints` years, in order of first
+ * appearance. Entries whose unit or currency differ from the latest one are
+ * left out of the series.
+ */
+export const timelineKpiSeries = (years: TimelineYear[], minPoints = 2): KpiSeries[] => {
+  const labels = [...new Set(years.flatMap((year) => year.kpis.map((kpi) => kpi.label)))];
+
+  return labels
+    .map((label) => {
+      const entries = years.map((year) => year.kpis.find((kpi) => kpi.label === label));
+      const latest = [...entries].reverse().find(Boolean) as Kpi;
+      return {
+        label,
+        kpi: latest,
+        points: years.map((year, i) => ({
+          year: year.year,
+          value: entries[i] && isComparable(entries[i], latest) ? entries[i].value : null,
+        })),
+      };
+    })
+    .filter((series) => series.points.filter((point) => point.value !== null).length >= minPoints);
+};
+
+export interface KpiComparison {
+  label: string;
+  from?: Kpi;
+  to?: Kpi;
+  /** to - from, null when either side is missing or they are not comparable */
+  difference: number | null;
+  /** Relative change, null when difference is null or from is 0 */
+  change: number | null;
+}
+
+/**
+ * Side-by-side KPIs of two years, matched by label, in the order they
+ * first appear (from year first)
+ */
+export const compareKpis = (from: TimelineYear, to: TimelineYear): KpiComparison[] => {
+  const labels = [...new Set([...from.kpis, ...to.kpis].map((kpi) => kpi.label))];
+
+  return labels.map((label) => {
+    const fromKpi = from.kpis.find((kpi) => kpi.label === label);
+    const toKpi = to.kpis.find((kpi) => kpi.label === label);
+    const difference = fromKpi && toKpi && isComparable(fromKpi, toKpi) ? toKpi.value - fromKpi.value : null;
+    return {
+      label,
+      from: fromKpi,
+      to: toKpi,
+      difference,
+      change: difference !== null && fromKpi.value !== 0 ? difference / Math.abs(fromKpi.value) : null,
+    };
+  });
+};
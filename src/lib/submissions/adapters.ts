@@ -0,0 +1,237 @@
+/**
+ * SUBMISSION ADAPTERS
+ *
+ * Backends storing testimonial submissions. Every adapter implements the
+ * same calls, so the form, the moderation screen and the public pages do
+ * not know where submissions live:
+ * - HTTP: a JSON API at VITE_SUBMISSIONS_ENDPOINT (files sent as multipart),
+ *   with published testimonials read from a separate public endpoint
+ * - localStorage: development and demos, files kept inline as data: URLs
+ * - in-memory: tests, or when storage is blocked
+ */
+
+import type { Locale } from '@/i18n/config';
+import type {
+  NewSubmission,
+  SubmissionFile,
+  SubmissionStatus,
+  SubmissionUpdate,
+  TestimonialSubmission,
+} from './types';
+
+export interface SubmissionAdapter {
+  /** Identifier used in warnings */
+  name: string;
+  /**
+   * Whether list and update may be called: they expose contact details and
+   * publish, so a shared backend must know who the moderator is
+   */
+  canModerate: boolean;
+  /** Submissions, newest first */
+  list: (filter?: { status?: SubmissionStatus }) => Promise<TestimonialSubmission[]>;
+  create: (input: NewSubmission) => Promise<TestimonialSubmission>;
+  update: (id: string, update: SubmissionUpdate) => Promise<TestimonialSubmission>;
+  /**
+   * Published testimonials of a locale, oldest first, for the public pages.
+   * Only the Testimonial records, never the submissions around them; they
+   * are unvalidated (see parsePublishedTestimonials).
+   */
+  listPublished: (locale: Locale) => Promise<unknown[]>;
+}
+
+const newestFirst = (items: TestimonialSubmission[]) =>
+  [...items].sort((a, b) => b.submittedAt - a.submittedAt);
+
+const matchesFilter = (filter?: { status?: SubmissionStatus }) => (item: TestimonialSubmission) =>
+  !filter?.status || item.status === filter.status;
+
+/**
+ * Testimonials of the published submissions in a locale, oldest first
+ */
+const publishedTestimonials = (items: TestimonialSubmission[], locale: Locale) =>
+  newestFirst(items)
+    .reverse()
+    .filter((item) => item.status === 'published' && item.locale === locale && item.testimonial)
+    .map((item) => item.testimonial);
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+const inlineFile = async (file: File | undefined): Promise<SubmissionFile | undefined> =>
+  file && { name: file.name, type: file.type, size: file.size, url: await readAsDataUrl(file) };
+
+/**
+ * Record for a new submission with its files inlined
+ */
+const inlineSubmission = async ({ letter, headshot, ...fields }: NewSubmission): Promise<TestimonialSubmission> => {
+  const now = Date.now();
+  return {
+    ...fields,
+    id: crypto.randomUUID(),
+    status: 'pending',
+    submittedAt: now,
+    updatedAt: now,
+    letter: await inlineFile(letter),
+    headshot: await inlineFile(headshot),
+  };
+};
+
+/**
+ * Whether saving failed because browser storage is full
+ */
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// ============================================
+// IN-MEMORY
+// ============================================
+
+/**
+ * Keeps submissions for the lifetime of the page
+ */
+export const createMemoryAdapter = (initial: TestimonialSubmission[] = []): SubmissionAdapter => {
+  let items = [...initial];
+
+  return {
+    name: 'memory',
+    canModerate: true,
+    list: async (filter) => newestFirst(items.filter(matchesFilter(filter))),
+    create: async (input) => {
+      const submission = await inlineSubmission(input);
+      items = [...items, submission];
+      return submission;
+    },
+    update: async (id, update) => {
+      const current = items.find((item) => item.id === id);
+      if (!current) throw new Error(`Unknown submission "${id}"`);
+      const next = { ...current, ...update, updatedAt: Date.now() };
+      items = items.map((item) => (item.id === id ? next : item));
+      return next;
+    },
+    listPublished: async (locale) => publishedTestimonials(items, locale),
+  };
+};
+
+// ============================================
+// LOCAL STORAGE
+// ============================================
+
+export const SUBMISSIONS_STORAGE_KEY = 'testimonial-submissions';
+
+/**
+ * Persists submissions in this browser, so /admin/testimonials can
+ * moderate them without a backend. Uploads count against the storage
+ * quota (a few MB); saving fails with an error once it is full
+ * (see isQuotaExceededError).
+ */
+export const createStorageAdapter = (key = SUBMISSIONS_STORAGE_KEY): SubmissionAdapter => {
+  const read = (): TestimonialSubmission[] => {
+    try {
+      const parsed = JSON.parse(window.localStorage.getItem(key) ?? '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  };
+  // Unlike analytics, a submission must not be dropped silently: let quota errors through
+  const write = (items: TestimonialSubmission[]) => window.localStorage.setItem(key, JSON.stringify(items));
+
+  return {
+    // Submissions never leave this browser
+    name: 'local-storage',
+    canModerate: true,
+    list: async (filter) => newestFirst(read().filter(matchesFilter(filter))),
+    create: async (input) => {
+      const submission = await inlineSubmission(input);
+      write([...read(), submission]);
+      return submission;
+    },
+    update: async (id, update) => {
+      const items = read();
+      const current = items.find((item) => item.id === id);
+      if (!current) throw new Error(`Unknown submission "${id}"`);
+      const next = { ...current, ...update, updatedAt: Date.now() };
+      write(items.map((item) => (item.id === id ? next : item)));
+      return next;
+    },
+    listPublished: async (locale) => publishedTestimonials(read(), locale),
+  };
+};
+
+// ============================================
+// HTTP
+// ============================================
+
+export interface HttpAdapterOptions {
+  /** Public endpoint of published testimonials; `${endpoint}/published` by default */
+  publishedUrl?: string;
+  /** Credentials mode of the moderation calls, e.g. "include" to send a session cookie cross-origin */
+  credentials?: RequestCredentials;
+  /** Headers for the moderation calls, e.g. Authorization; called per request so tokens can be refreshed */
+  headers?: () => HeadersInit | Promise<HeadersInit>;
+}
+
+/**
+ * JSON API at `endpoint`:
+ * - GET    {endpoint}?status=pending → TestimonialSubmission[]
+ * - POST   {endpoint} (multipart: the fields, consentedAt as ms since epoch, plus "letter" / "headshot" files) → TestimonialSubmission
+ * - PATCH  {endpoint}/{id} (JSON SubmissionUpdate) → TestimonialSubmission
+ *
+ * and a public one at `publishedUrl`, which must not expose emails or
+ * unpublished stories:
+ * - GET    {publishedUrl}?locale=en → Testimonial[]
+ *
+ * GET and PATCH on `endpoint` are moderation calls the backend must
+ * authenticate; they are sent with `credentials` and `headers`, and
+ * refused when neither is configured.
+ */
+export const createHttpAdapter = (
+  endpoint: string,
+  { publishedUrl = `${endpoint}/published`, credentials, headers }: HttpAdapterOptions = {}
+): SubmissionAdapter => {
+  const canModerate = Boolean(credentials || headers);
+
+  const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText} for ${url}`);
+    }
+    return response.json();
+  };
+
+  const moderationRequest = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+    if (!canModerate) {
+      throw new Error('Moderation calls need credentials or headers to authenticate the moderator');
+    }
+    const merged = new Headers(init.headers);
+    new Headers(await headers?.()).forEach((value, name) => merged.set(name, value));
+    return request(url, { ...init, headers: merged, credentials: credentials ?? init.credentials });
+  };
+
+  return {
+    name: 'http',
+    canModerate,
+    list: (filter) =>
+      moderationRequest(filter?.status ? `${endpoint}?${new URLSearchParams({ status: filter.status })}` : endpoint),
+    create: (input) => {
+      const body = new FormData();
+      Object.entries(input).forEach(([field, value]) => {
+        if (value !== undefined) body.append(field, value instanceof File ? value : String(value));
+      });
+      return request(endpoint, { method: 'POST', body });
+    },
+    update: (id, update) =>
+      moderationRequest(`${endpoint}/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(update),
+        headers: { 'Content-Type': 'application/json' },
+      }),
+    listPublished: (locale) => request(`${publishedUrl}?${new URLSearchParams({ locale })}`),
+  };
+};
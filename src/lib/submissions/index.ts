@@ -0,0 +1,144 @@
+/**
+ * TESTIMONIAL SUBMISSIONS
+ *
+ * Stories sent through /share-your-story, moderated on /admin/testimonials:
+ *
+ *   await getSubmissionAdapter().create({ locale, name, email, ... });
+ *
+ * Storage is pluggable (see adapters.ts): the HTTP adapter when
+ * VITE_SUBMISSIONS_ENDPOINT is set (published testimonials from
+ * VITE_PUBLISHED_TESTIMONIALS_URL), otherwise this browser's localStorage.
+ * setSubmissionAdapter swaps it, e.g. for an in-memory one in tests, or an
+ * HTTP one sending the moderator's Authorization header.
+ *
+ * Published submissions join the testimonial collection of their locale
+ * (see useAboutContent).
+ */
+
+import type { Testimonial } from '@/data/aboutData';
+import { submittedTestimonialSchema } from '@/data/aboutSchema';
+import {
+  SUBMISSIONS_STORAGE_KEY,
+  createHttpAdapter,
+  createMemoryAdapter,
+  createStorageAdapter,
+  type SubmissionAdapter,
+} from './adapters';
+import type { TestimonialSubmission } from './types';
+
+export * from './types';
+export * from './adapters';
+
+// ============================================
+// ADAPTER
+// ============================================
+
+export const SUBMISSIONS_ENDPOINT = import.meta.env.VITE_SUBMISSIONS_ENDPOINT;
+
+/** Public endpoint of published testimonials; `${SUBMISSIONS_ENDPOINT}/published` when unset */
+export const PUBLISHED_TESTIMONIALS_URL = import.meta.env.VITE_PUBLISHED_TESTIMONIALS_URL;
+
+/** Credentials mode of the moderation calls; without it (or setSubmissionAdapter headers) moderation is off */
+export const SUBMISSIONS_CREDENTIALS = import.meta.env.VITE_SUBMISSIONS_CREDENTIALS;
+
+/**
+ * Whether localStorage can be written; reading window.localStorage alone
+ * succeeds in some privacy modes that then reject every write
+ */
+const canUseStorage = (): boolean => {
+  try {
+    const probe = `${SUBMISSIONS_STORAGE_KEY}-probe`;
+    window.localStorage.setItem(probe, probe);
+    window.localStorage.removeItem(probe);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const defaultAdapter = (): SubmissionAdapter => {
+  if (SUBMISSIONS_ENDPOINT) {
+    return createHttpAdapter(SUBMISSIONS_ENDPOINT, {
+      publishedUrl: PUBLISHED_TESTIMONIALS_URL,
+      credentials: SUBMISSIONS_CREDENTIALS,
+    });
+  }
+  return typeof window !== 'undefined' && canUseStorage() ? createStorageAdapter() : createMemoryAdapter();
+};
+
+let adapter: SubmissionAdapter = defaultAdapter();
+
+export const getSubmissionAdapter = (): SubmissionAdapter => adapter;
+
+/**
+ * Replace the backend; returns a function restoring the previous one
+ */
+export const setSubmissionAdapter = (next: SubmissionAdapter): (() => void) => {
+  const previous = adapter;
+  adapter = next;
+  return () => {
+    adapter = previous;
+  };
+};
+
+// ============================================
+// TESTIMONIAL DRAFTS
+// ============================================
+
+/** Cover shown for stories sent without a headshot */
+const PLACEHOLDER_COVER = '/placeholder.svg';
+
+const EXCERPT_LENGTH = 160;
+
+/**
+ * First sentence of the quote, or its first words when that is too long
+ */
+const excerptOf = (quote: string) => {
+  const sentence = quote.match(/^.*?[.!?](\s|$)/)?.[0].trim() ?? quote;
+  if (sentence.length <= EXCERPT_LENGTH) return sentence;
+  return `${sentence.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, '')}…`;
+};
+
+/**
+ * Testimonial prefilled from a submission. Facets the submitter did not
+ * give are left empty for the moderator, so the draft fails validation
+ * until they are filled in.
+ */
+export const draftTestimonial = (submission: TestimonialSubmission): Testimonial => ({
+  id: `submission-${submission.id}`,
+  name: submission.name,
+  title: submission.title,
+  company: submission.company,
+  coverImage: submission.headshot?.url ?? PLACEHOLDER_COVER,
+  media: submission.letter ? { type: 'pdf', url: submission.letter.url } : { type: 'quote' },
+  excerpt: excerptOf(submission.quote),
+  fullQuote: submission.quote,
+  industry: submission.industry ?? '',
+  region: '',
+  companySize: submission.companySize,
+  product: '',
+  role: '',
+  tags: [],
+});
+
+/**
+ * Keep the records that are valid testimonials; warns once with the number skipped
+ */
+export const parsePublishedTestimonials = (rows: unknown[], source: string): Testimonial[] => {
+  const testimonials = rows.flatMap((row) => {
+    const result = submittedTestimonialSchema.safeParse(row);
+    return result.success ? [result.data as Testimonial] : [];
+  });
+  if (testimonials.length < rows.length) {
+    console.warn(`[Submissions] Skipped ${rows.length - testimonials.length} invalid published testimonials from ${source}`);
+  }
+  return testimonials;
+};
+
+/**
+ * Append published testimonials to a collection, replacing entries with the same id
+ */
+export const mergePublishedTestimonials = (collection: Testimonial[], published: Testimonial[]): Testimonial[] => {
+  const ids = new Set(published.map((testimonial) => testimonial.id));
+  return [...collection.filter((testimonial) => !ids.has(testimonial.id)), ...published];
+};
@@ -0,0 +1,54 @@
+/**
+ * TESTIMONIAL SUBMISSION TYPES
+ *
+ * Stories sent through /share-your-story and their moderation state.
+ * A submission moves pending → approved → published, or to rejected;
+ * approving it drafts the Testimonial a moderator edits before publishing.
+ */
+
+import type { CompanySize, Testimonial } from '@/data/aboutData';
+import type { Locale } from '@/i18n/config';
+
+export type SubmissionStatus = 'pending' | 'approved' | 'published' | 'rejected';
+
+export interface SubmissionFile {
+  name: string;
+  /** MIME type, e.g. "application/pdf" */
+  type: string;
+  /** Size in bytes */
+  size: number;
+  /** Where the file can be read: a backend URL, or a data: URL in the development adapters */
+  url: string;
+}
+
+/** What the public form sends */
+export interface NewSubmission {
+  locale: Locale;
+  name: string;
+  /** For follow-up questions only; never published */
+  email: string;
+  title: string;
+  company: string;
+  industry?: string;
+  companySize?: CompanySize;
+  quote: string;
+  /** When the submitter agreed to publication (ms since epoch) */
+  consentedAt: number;
+  letter?: File;
+  headshot?: File;
+}
+
+export interface TestimonialSubmission extends Omit<NewSubmission, 'letter' | 'headshot'> {
+  id: string;
+  status: SubmissionStatus;
+  /** ms since epoch */
+  submittedAt: number;
+  updatedAt: number;
+  letter?: SubmissionFile;
+  headshot?: SubmissionFile;
+  /** Testimonial as edited by moderators, drafted on approval */
+  testimonial?: Testimonial;
+}
+
+/** Fields moderators change */
+export type SubmissionUpdate = Partial<Pick<TestimonialSubmission, 'status' | 'testimonial'>>;
@@ -0,0 +1,156 @@
+/**
+ * TESTIMONIALS
+ *
+ * Faceted filtering for the /customers wall:
+ * - Filter state read from and written to URL search params, so every
+ *   filtered view can be shared
+ * - Values within a facet are alternatives, facets combine
+ * - Full-text search over the quote, name and company
+ * - Facet options taken from the testimonials themselves, with counts
+ *
+ * Also reports opened testimonials to analytics.
+ */
+
+import type { CompanySize, Testimonial } from '@/data/aboutData';
+import { track } from '@/lib/analytics';
+
+// ============================================
+// FILTER STATE
+// ============================================
+
+export interface TestimonialFilters {
+  query: string;
+  industries: string[];
+  sizes: CompanySize[];
+  region: string | null;
+  role: string | null;
+  product: string | null;
+  tags: string[];
+}
+
+/** Smallest to largest, the order size options are shown in */
+export const COMPANY_SIZES: CompanySize[] = ['startup', 'smb', 'mid-market', 'enterprise'];
+
+const isCompanySize = (value: string): value is CompanySize =>
+  (COMPANY_SIZES as string[]).includes(value);
+
+/**
+ * Filters from search params like ?q=ai&industry=Technology&industry=Logistics&size=startup
+ */
+export const parseTestimonialFilters = (params: URLSearchParams): TestimonialFilters => ({
+  query: params.get('q') ?? '',
+  industries: params.getAll('industry'),
+  sizes: params.getAll('size').filter(isCompanySize),
+  region: params.get('region'),
+  role: params.get('role'),
+  product: params.get('product'),
+  tags: params.getAll('tag'),
+});
+
+export const testimonialFilterParams = (filters: TestimonialFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  // Kept as typed, spaces included, so the search box never loses keystrokes
+  if (filters.query) params.set('q', filters.query);
+  filters.industries.forEach((industry) => params.append('industry', industry));
+  filters.sizes.forEach((size) => params.append('size', size));
+  if (filters.region) params.set('region', filters.region);
+  if (filters.role) params.set('role', filters.role);
+  if (filters.product) params.set('product', filters.product);
+  filters.tags.forEach((tag) => params.append('tag', tag));
+  return params;
+};
+
+export const hasActiveFilters = (filters: TestimonialFilters): boolean =>
+  testimonialFilterParams(filters).toString() !== '';
+
+// ============================================
+// MATCHING
+// ============================================
+
+/** Case- and accent-insensitive form used for search */
+const normalize = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/**
+ * Every search word must appear in the quote, name or company
+ */
+const matchesQuery = (testimonial: Testimonial, query: string) => {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const haystack = normalize(`${testimonial.fullQuote} ${testimonial.name} ${testimonial.company}`);
+  return words.every((word) => haystack.includes(word));
+};
+
+const matchesAny = <T>(selected: T[], value: T) => selected.length === 0 || selected.includes(value);
+
+export const filterTestimonials = (
+  testimonials: Testimonial[],
+  filters: TestimonialFilters
+): Testimonial[] =>
+  testimonials.filter(
+    (testimonial) =>
+      matchesQuery(testimonial, filters.query) &&
+      matchesAny(filters.industries, testimonial.industry) &&
+      matchesAny(filters.sizes, testimonial.companySize) &&
+      (!filters.region || testimonial.region === filters.region) &&
+      (!filters.role || testimonial.role === filters.role) &&
+      (!filters.product || testimonial.product === filters.product) &&
+      (filters.tags.length === 0 || filters.tags.some((tag) => testimonial.tags.includes(tag)))
+  );
+
+// ============================================
+// FACET OPTIONS
+// ============================================
+
+export interface FacetOption<T extends string = string> {
+  value: T;
+  /** Testimonials with this value */
+  count: number;
+}
+
+const countValues = <T extends string>(values: T[]): FacetOption<T>[] => {
+  const counts = new Map<T, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts].map(([value, count]) => ({ value, count }));
+};
+
+const alphabetical = <T extends string>(options: FacetOption<T>[]) =>
+  options.sort((a, b) => a.value.localeCompare(b.value));
+
+export interface TestimonialFacets {
+  industries: FacetOption[];
+  sizes: FacetOption<CompanySize>[];
+  regions: FacetOption[];
+  roles: FacetOption[];
+  products: FacetOption[];
+  tags: FacetOption[];
+}
+
+/**
+ * Options for each facet, alphabetical except company sizes (smallest first)
+ */
+export const testimonialFacets = (testimonials: Testimonial[]): TestimonialFacets => ({
+  industries: alphabetical(countValues(testimonials.map((item) => item.industry))),
+  sizes: countValues(testimonials.map((item) => item.companySize)).sort(
+    (a, b) => COMPANY_SIZES.indexOf(a.value) - COMPANY_SIZES.indexOf(b.value)
+  ),
+  regions: alphabetical(countValues(testimonials.map((item) => item.region))),
+  roles: alphabetical(countValues(testimonials.map((item) => item.role))),
+  products: alphabetical(countValues(testimonials.map((item) => item.product))),
+  tags: alphabetical(countValues(testimonials.flatMap((item) => item.tags))),
+});
+
+// ============================================
+// ANALYTICS
+// ============================================
+
+/**
+ * Letters keep their pdf_opened event; recordings and quotes report their media
+ */
+export const trackTestimonialOpened = ({ id, name, media }: Testimonial): void => {
+  if (media.type === 'pdf') {
+    track({ type: 'pdf_opened', id, name });
+  } else {
+    track({ type: 'testimonial_media_opened', id, name, media: media.type });
+  }
+};
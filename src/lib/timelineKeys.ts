@@ -0,0 +1,58 @@
+/**
+ * TIMELINE KEYS
+ *
+ * Keyboard shortcuts for stepping between timeline years, shared by the
+ * timeline section and its year indicators:
+ * - ArrowDown / j and ArrowUp / k step to the next and previous year
+ * - ArrowRight / ArrowLeft do the same, mirrored in RTL
+ * - Home / End jump to the first and last year
+ */
+
+export type YearStep = 'previous' | 'next' | 'first' | 'last';
+
+/**
+ * The step a key stands for, null for keys that are not shortcuts
+ */
+export const yearStepForKey = (
+  event: Pick<KeyboardEvent, 'key' | 'altKey' | 'ctrlKey' | 'metaKey'>,
+  isRtl: boolean
+): YearStep | null => {
+  if (event.altKey || event.ctrlKey || event.metaKey) return null;
+
+  switch (event.key) {
+    case 'ArrowDown':
+    case 'j':
+    case 'J':
+      return 'next';
+    case 'ArrowUp':
+    case 'k':
+    case 'K':
+      return 'previous';
+    case 'ArrowRight':
+      return isRtl ? 'previous' : 'next';
+    case 'ArrowLeft':
+      return isRtl ? 'next' : 'previous';
+    case 'Home':
+      return 'first';
+    case 'End':
+      return 'last';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Index reached by taking a step from index, clamped to the years
+ */
+export const stepYearIndex = (step: YearStep, index: number, count: number): number => {
+  switch (step) {
+    case 'first':
+      return 0;
+    case 'last':
+      return count - 1;
+    case 'next':
+      return Math.min(index + 1, count - 1);
+    case 'previous':
+      return Math.max(index - 1, 0);
+  }
+};
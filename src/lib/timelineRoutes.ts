@@ -0,0 +1,30 @@
+/**
+ * TIMELINE ROUTES
+ *
+ * Paths of the shareable timeline views, localized like /about:
+ * - /about/timeline/2023 is the milestone page of one year
+ * - /about/compare/2022...2024 compares two years side by side
+ * - #timeline-2023/photo/2 opens the second photo of 2023 in the lightbox,
+ *   on /about and on the milestone page
+ */
+
+import { localizedPath, type Locale } from '@/i18n/config';
+
+const COMPARE_RANGE = /^(\d{4})\.\.\.(\d{4})$/;
+
+/** Lightbox deep link: year and 1-based photo number */
+export const PHOTO_HASH = /^#timeline-(\d{4})\/photo\/(\d+)$/;
+
+export const timelineYearPath = (year: number, locale: Locale): string =>
+  localizedPath(`/about/timeline/${year}`, locale);
+
+export const timelineComparePath = (from: number, to: number, locale: Locale): string =>
+  localizedPath(`/about/compare/${from}...${to}`, locale);
+
+/**
+ * Parse a "2022...2024" route segment, null when malformed
+ */
+export const parseCompareRange = (range: string | undefined): { from: number; to: number } | null => {
+  const match = range ? COMPARE_RANGE.exec(range) : null;
+  return match ? { from: Number(match[1]), to: Number(match[2]) } : null;
+};
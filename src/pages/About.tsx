@@ -14,10 +14,17 @@
  * - Full accessibility (ARIA, keyboard navigation)
  * - Reduced motion support
  * - Responsive design
- * - Analytics hooks
+ * - Analytics event bus (section views, card, PDF, timeline and CTA events)
+ * - Consent banner gating analytics (necessary / analytics / marketing)
+ * - Runtime content validation (dev overlay)
+ * - Content loaded from /content with bundled fallback
+ * - Localized routes (/:locale/about) with hreflang alternates
+ * - Right-to-left layout for RTL locales
+ * - Section anchors (#testimonials-title, #timeline-title) honored after
+ *   client-side navigation
  */
 
-import React, { useEffect } from 'react';
+import React from 'react';
 import { Helmet } from 'react-helmet-async';
 import { AboutHero } from '@/components/about/AboutHero';
 import { CompanyStory } from '@/components/about/CompanyStory';
@@ -25,45 +32,73 @@ import { CinematicHistory } from '@/components/about/CinematicHistory';
 import { MVVGSection } from '@/components/about/MVVGSection';
 import { CompanyTimeline } from '@/components/about/CompanyTimeline';
 import { TestimonialSlider } from '@/components/about/TestimonialSlider';
+import { ContentValidationOverlay } from '@/components/about/ContentValidationOverlay';
+import {
+  StorySkeleton,
+  HistorySkeleton,
+  MVVGSkeleton,
+  TimelineSkeleton,
+  TestimonialSkeleton,
+} from '@/components/about/AboutSkeletons';
+import { Highlighted } from '@/components/about/Highlighted';
+import { TrackedSection } from '@/components/about/TrackedSection';
+import { useAboutContent } from '@/hooks/useAboutContent';
+import { useI18n } from '@/hooks/useI18n';
+import { useConsent } from '@/hooks/useConsent';
+import { useScrollToHash } from '@/hooks/useScrollToHash';
+import { track } from '@/lib/analytics';
+import { SUPPORTED_LOCALES, DEFAULT_LOCALE, absoluteUrl, localeMeta, localizedPath } from '@/i18n/config';
+
+/** #timeline-{year} and its photo links are handled by CompanyTimeline */
+const TIMELINE_YEAR_HASH = /^#timeline-\d{4}/;
 
 const About: React.FC = () => {
-  // Initialize global analytics hooks
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      window.aboutMvvClicks = window.aboutMvvClicks || [];
-      window.testimonialPdfOpened = window.testimonialPdfOpened || [];
-    }
-  }, []);
+  const { locale, t, dir } = useI18n();
+  const { content, isLoading, issues = [] } = useAboutContent(locale);
+  const { openPreferences } = useConsent();
+  useScrollToHash(!isLoading, TIMELINE_YEAR_HASH);
+
+  const trackCta = (id: string, label: string, href: string) => () =>
+    track({ type: 'cta_clicked', id, label, href });
 
   return (
     <>
       {/* SEO Meta Tags */}
       <Helmet>
-        <title>About Us | Building the Future Together</title>
+        <html lang={locale} dir={dir} />
+        <title>{t.meta.title}</title>
         <meta 
           name="description" 
-          content="Discover our journey from startup to industry leader. Explore our mission, vision, values, and the milestones that shaped who we are today." 
+          content={t.meta.description} 
         />
-        <meta name="keywords" content="about us, company history, mission, vision, values, goals, testimonials" />
-        <link rel="canonical" href="/about" />
+        <meta name="keywords" content={t.meta.keywords} />
+        <link rel="canonical" href={absoluteUrl(localizedPath('/about', locale))} />
+
+        {/* Language Alternates */}
+        {SUPPORTED_LOCALES.map((code) => (
+          <link key={code} rel="alternate" hrefLang={code} href={absoluteUrl(localizedPath('/about', code))} />
+        ))}
+        <link rel="alternate" hrefLang="x-default" href={absoluteUrl(localizedPath('/about', DEFAULT_LOCALE))} />
         
         {/* Open Graph */}
-        <meta property="og:title" content="About Us | Building the Future Together" />
-        <meta property="og:description" content="Discover our journey from startup to industry leader." />
+        <meta property="og:title" content={t.meta.title} />
+        <meta property="og:description" content={t.meta.ogDescription} />
         <meta property="og:type" content="website" />
+        <meta property="og:locale" content={localeMeta[locale].intlLocale.replace('-', '_')} />
         
         {/* Structured Data */}
         <script type="application/ld+json">
           {JSON.stringify({
             "@context": "https://schema.org",
             "@type": "AboutPage",
-            "name": "About Us",
-            "description": "Company history, mission, vision, values, and testimonials",
+            "name": t.meta.pageName,
+            "description": t.meta.pageDescription,
+            "inLanguage": locale,
             "mainEntity": {
               "@type": "Organization",
               "name": "Our Company",
               "foundingDate": "2019",
-              "description": "A movement of innovators transforming how the world works"
+              "description": t.meta.organizationDescription
             }
           })}
         </script>
@@ -71,10 +106,14 @@ const About: React.FC = () => {
 
       <main className="min-h-screen bg-background">
         {/* A) Hero Section */}
-        <AboutHero />
+        <TrackedSection section="hero">
+          <AboutHero />
+        </TrackedSection>
 
         {/* B) Company Story - Long Paragraph Section */}
-        <CompanyStory />
+        <TrackedSection section="story">
+          {isLoading ? <StorySkeleton /> : <CompanyStory blocks={content.story} />}
+        </TrackedSection>
 
         {/* Decorative Divider */}
         <div className="section-container py-0">
@@ -82,7 +121,9 @@ const About: React.FC = () => {
         </div>
 
         {/* C) Cinematic Company History */}
-        <CinematicHistory />
+        <TrackedSection section="history">
+          {isLoading ? <HistorySkeleton /> : <CinematicHistory entries={content.history} />}
+        </TrackedSection>
 
         {/* Decorative Divider */}
         <div className="section-container py-0">
@@ -90,7 +131,9 @@ const About: React.FC = () => {
         </div>
 
         {/* C) Mission, Vision, Values, Goals */}
-        <MVVGSection />
+        <TrackedSection section="mvvg">
+          {isLoading ? <MVVGSkeleton /> : <MVVGSection items={content.mvvg} />}
+        </TrackedSection>
 
         {/* Decorative Divider */}
         <div className="section-container py-0">
@@ -98,7 +141,9 @@ const About: React.FC = () => {
         </div>
 
         {/* D) Company Way Timeline */}
-        <CompanyTimeline />
+        <TrackedSection section="timeline">
+          {isLoading ? <TimelineSkeleton /> : <CompanyTimeline years={content.timeline} />}
+        </TrackedSection>
 
         {/* Decorative Divider */}
         <div className="section-container py-0">
@@ -106,33 +151,46 @@ const About: React.FC = () => {
         </div>
 
         {/* E) Testimonial Slider */}
-        <TestimonialSlider />
+        <TrackedSection section="testimonials">
+          {isLoading ? <TestimonialSkeleton /> : <TestimonialSlider testimonials={content.testimonials} />}
+        </TrackedSection>
 
         {/* Footer CTA */}
-        <section className="section-container text-center">
-          <div className="glass-card p-12 lg:p-16 max-w-4xl mx-auto">
-            <h2 className="text-3xl lg:text-5xl font-display font-bold mb-4">
-              Ready to Be Part of Our <span className="gradient-text">Story?</span>
-            </h2>
-            <p className="text-xl text-muted-foreground mb-8 max-w-2xl mx-auto">
-              Join thousands of organizations already transforming their future with us.
-            </p>
-            <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
-              <a
-                href="#contact"
-                className="inline-flex items-center justify-center px-8 py-3 rounded-lg bg-accent text-accent-foreground font-medium hover:bg-accent/90 transition-colors focus-ring"
-              >
-                Get Started Today
-              </a>
-              <a
-                href="#careers"
-                className="inline-flex items-center justify-center px-8 py-3 rounded-lg border border-border text-foreground font-medium hover:bg-muted transition-colors focus-ring"
+        <TrackedSection section="cta">
+          <section className="section-container text-center">
+            <div className="glass-card p-12 lg:p-16 max-w-4xl mx-auto">
+              <h2 className="text-3xl lg:text-5xl font-display font-bold mb-4">
+                <Highlighted text={t.cta.title} />
+              </h2>
+              <p className="text-xl text-muted-foreground mb-8 max-w-2xl mx-auto">
+                {t.cta.subtitle}
+              </p>
+              <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+                <a
+                  href="#contact"
+                  onClick={trackCta('get-started', t.cta.getStarted, '#contact')}
+                  className="inline-flex items-center justify-center px-8 py-3 rounded-lg bg-accent text-accent-foreground font-medium hover:bg-accent/90 transition-colors focus-ring"
+                >
+                  {t.cta.getStarted}
+                </a>
+                <a
+                  href="#careers"
+                  onClick={trackCta('open-positions', t.cta.openPositions, '#careers')}
+                  className="inline-flex items-center justify-center px-8 py-3 rounded-lg border border-border text-foreground font-medium hover:bg-muted transition-colors focus-ring"
+                >
+                  {t.cta.openPositions}
+                </a>
+              </div>
+              <button
+                type="button"
+                onClick={openPreferences}
+                className="mt-8 text-sm text-muted-foreground underline-offset-4 hover:text-foreground hover:underline focus-ring rounded-sm"
               >
-                View Open Positions
-              </a>
+                {t.consent.settings}
+              </button>
             </div>
-          </div>
-        </section>
+          </section>
+        </TrackedSection>
 
         {/* Noscript Global Fallback */}
         <noscript>
@@ -145,6 +203,9 @@ const About: React.FC = () => {
           </style>
         </noscript>
       </main>
+
+      {/* Dev-only content schema violations */}
+      <ContentValidationOverlay issues={issues} />
     </>
   );
 };
@@ -0,0 +1,279 @@
+/**
+ * Admin Analytics Page
+ *
+ * Internal dashboard (/admin/analytics) for reviewing About page interactions
+ * without a third-party tool:
+ * - Events from this browser's localStorage or a local JSON endpoint
+ * - Date-range filtering via the Calendar component
+ * - MVVG expansions, testimonial opens (per media type and testimonial),
+ *   timeline-year reach, CTA clicks and section engagement as charts and
+ *   tables
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { format } from 'date-fns';
+import { RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CountChart } from '@/components/admin/CountChart';
+import { DateRangePicker } from '@/components/admin/DateRangePicker';
+import {
+  ANALYTICS_EVENTS_URL,
+  useAnalyticsEvents,
+  type AnalyticsEventSource,
+} from '@/hooks/useAnalyticsEvents';
+import {
+  cardExpansionCounts,
+  clearStoredEvents,
+  ctaClickCounts,
+  filterByDateRange,
+  sectionSummary,
+  testimonialMediaCounts,
+  testimonialOpenCounts,
+  timelineReachCounts,
+  type DateRange,
+  type TrackedEvent,
+} from '@/lib/analytics';
+
+/** Raw events shown in the Events tab */
+const RECENT_EVENT_LIMIT = 100;
+
+const formatDuration = (ms: number): string =>
+  ms < 60000 ? `${(ms / 1000).toFixed(1)} s` : `${(ms / 60000).toFixed(1)} min`;
+
+/** Event fields other than the common envelope, for the raw event table */
+const eventDetails = ({ type, timestamp, path, ...details }: TrackedEvent): string =>
+  JSON.stringify(details);
+
+const StatCard: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardDescription>{label}</CardDescription>
+      <CardTitle className="text-3xl tabular-nums">{value}</CardTitle>
+    </CardHeader>
+  </Card>
+);
+
+const AdminAnalytics: React.FC = () => {
+  const [source, setSource] = useState<AnalyticsEventSource>('local');
+  const [range, setRange] = useState<DateRange>({});
+  const { data: allEvents = [], isLoading, error, refetch } = useAnalyticsEvents(source);
+
+  const events = useMemo(() => filterByDateRange(allEvents, range), [allEvents, range]);
+  const summary = useMemo(
+    () => ({
+      cards: cardExpansionCounts(events),
+      testimonialMedia: testimonialMediaCounts(events),
+      testimonials: testimonialOpenCounts(events),
+      years: timelineReachCounts(events),
+      ctas: ctaClickCounts(events),
+      sections: sectionSummary(events),
+    }),
+    [events]
+  );
+  const recentEvents = useMemo(
+    () => [...events].sort((a, b) => b.timestamp - a.timestamp).slice(0, RECENT_EVENT_LIMIT),
+    [events]
+  );
+
+  const total = (rows: Array<{ count: number }>) => rows.reduce((sum, row) => sum + row.count, 0);
+
+  const handleClear = () => {
+    clearStoredEvents();
+    refetch();
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Analytics | Admin</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Helmet>
+
+      <main className="min-h-screen bg-background">
+        <div className="container mx-auto max-w-6xl px-4 py-10 space-y-8">
+          {/* Header & Filters */}
+          <header className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+            <div>
+              <h1 className="text-3xl font-display font-bold">Interaction analytics</h1>
+              <p className="text-muted-foreground">
+                {events.length} of {allEvents.length} recorded events in range
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={source} onValueChange={(value) => setSource(value as AnalyticsEventSource)}>
+                <SelectTrigger className="w-[190px]" aria-label="Event source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="local">This browser</SelectItem>
+                  <SelectItem value="endpoint" disabled={!ANALYTICS_EVENTS_URL}>
+                    JSON endpoint
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              <DateRangePicker value={range} onChange={setRange} />
+              <Button variant="outline" size="icon" onClick={() => refetch()} aria-label="Reload events">
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+              {source === 'local' && (
+                <Button variant="outline" size="icon" onClick={handleClear} aria-label="Clear events stored in this browser">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </header>
+
+          {error && (
+            <p role="alert" className="rounded-lg border border-destructive/60 p-4 text-sm text-destructive">
+              Could not load events: {error instanceof Error ? error.message : String(error)}
+            </p>
+          )}
+
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading events…</p>
+          ) : (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+                <StatCard label="Events" value={events.length} />
+                <StatCard label="Card expansions" value={total(summary.cards)} />
+                <StatCard label="Testimonial opens" value={total(summary.testimonials)} />
+                <StatCard label="CTA clicks" value={total(summary.ctas)} />
+              </div>
+
+              <Tabs defaultValue="cards">
+                <TabsList className="flex-wrap h-auto">
+                  <TabsTrigger value="cards">Mission &amp; values</TabsTrigger>
+                  <TabsTrigger value="testimonials">Testimonials</TabsTrigger>
+                  <TabsTrigger value="timeline">Timeline</TabsTrigger>
+                  <TabsTrigger value="sections">Sections</TabsTrigger>
+                  <TabsTrigger value="ctas">CTAs</TabsTrigger>
+                  <TabsTrigger value="events">Raw events</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="cards">
+                  <CountChart
+                    title="Card expansions"
+                    description="How often each Mission, Vision, Values and Goals card was expanded"
+                    keyLabel="Card"
+                    rows={summary.cards}
+                  />
+                </TabsContent>
+
+                <TabsContent value="testimonials" className="space-y-6">
+                  <CountChart
+                    title="Opens by media type"
+                    description="Testimonials opened as PDF letters, videos, audio recordings or quotes"
+                    keyLabel="Media"
+                    rows={summary.testimonialMedia}
+                  />
+                  <CountChart
+                    title="Opens per testimonial"
+                    description="Each testimonial opened, split by how it is presented"
+                    keyLabel="Testimonial"
+                    rows={summary.testimonials}
+                  />
+                </TabsContent>
+
+                <TabsContent value="timeline">
+                  <CountChart
+                    title="Timeline reach"
+                    description="Page views that scrolled the timeline to each year"
+                    keyLabel="Year"
+                    rows={summary.years}
+                  />
+                </TabsContent>
+
+                <TabsContent value="ctas">
+                  <CountChart
+                    title="CTA clicks"
+                    description="Clicks on the calls to action at the end of the page"
+                    keyLabel="Call to action"
+                    rows={summary.ctas}
+                  />
+                </TabsContent>
+
+                <TabsContent value="sections">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Section engagement</CardTitle>
+                      <CardDescription>Views, total time on screen and deepest scroll per section</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Section</TableHead>
+                            <TableHead className="text-right">Views</TableHead>
+                            <TableHead className="text-right">Total dwell</TableHead>
+                            <TableHead className="text-right">Avg. dwell / view</TableHead>
+                            <TableHead className="text-right">Max depth</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {summary.sections.map((row) => (
+                            <TableRow key={row.section}>
+                              <TableCell className="font-medium">{row.section}</TableCell>
+                              <TableCell className="text-right tabular-nums">{row.views}</TableCell>
+                              <TableCell className="text-right tabular-nums">{formatDuration(row.dwellMs)}</TableCell>
+                              <TableCell className="text-right tabular-nums">
+                                {row.views > 0 ? formatDuration(row.dwellMs / row.views) : '—'}
+                              </TableCell>
+                              <TableCell className="text-right tabular-nums">{row.maxScrollDepth}%</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="events">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Raw events</CardTitle>
+                      <CardDescription>The {RECENT_EVENT_LIMIT} most recent events in range</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Time</TableHead>
+                            <TableHead>Event</TableHead>
+                            <TableHead>Path</TableHead>
+                            <TableHead>Details</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {recentEvents.map((event, index) => (
+                            <TableRow key={`${event.timestamp}-${index}`}>
+                              <TableCell className="whitespace-nowrap tabular-nums">
+                                {format(event.timestamp, 'yyyy-MM-dd HH:mm:ss')}
+                              </TableCell>
+                              <TableCell className="font-medium">{event.type}</TableCell>
+                              <TableCell>{event.path}</TableCell>
+                              <TableCell className="font-mono text-xs text-muted-foreground break-all">
+                                {eventDetails(event)}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default AdminAnalytics;
@@ -0,0 +1,528 @@
+/**
+ * Admin Testimonials Page
+ *
+ * Moderation queue (/admin/testimonials) for stories sent through
+ * /share-your-story:
+ * - Only shown when the submission adapter can authenticate the moderator
+ * - Submissions grouped by status, with the submitter's contact details,
+ *   when they consented to publication, story and uploaded files
+ * - Approving drafts a Testimonial from the submission; moderators fill
+ *   in the missing facets in the editor, validated with
+ *   submittedTestimonialSchema (uploads may still be data: URLs)
+ * - Published testimonials join the About page slider and /customers
+ *   wall of their locale; those with hosted files (testimonialSchema) can
+ *   be copied as JSON for the content files
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { useForm } from 'react-hook-form';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Check, Copy, FileText, Pencil, RefreshCw, Send, Undo2, X } from 'lucide-react';
+import type { CompanySize, Testimonial } from '@/data/aboutData';
+import { submittedTestimonialSchema, testimonialSchema } from '@/data/aboutSchema';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { useTestimonialSubmissions, useUpdateSubmission } from '@/hooks/useTestimonialSubmissions';
+import {
+  SUBMISSIONS_ENDPOINT,
+  draftTestimonial,
+  getSubmissionAdapter,
+  type SubmissionStatus,
+  type SubmissionUpdate,
+  type TestimonialSubmission,
+} from '@/lib/submissions';
+import { COMPANY_SIZES } from '@/lib/testimonials';
+
+const STATUSES: Array<{ value: SubmissionStatus; label: string }> = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'published', label: 'Published' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+const formatBytes = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+/**
+ * What still keeps a drafted testimonial from being published
+ */
+const testimonialIssues = (testimonial: Testimonial | undefined): string[] => {
+  if (!testimonial) return ['No testimonial drafted yet'];
+  const result = submittedTestimonialSchema.safeParse(testimonial);
+  return result.success ? [] : result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+};
+
+// ============================================
+// EDITOR
+// ============================================
+
+interface EditorValues {
+  name: string;
+  title: string;
+  company: string;
+  excerpt: string;
+  fullQuote: string;
+  industry: string;
+  region: string;
+  companySize?: CompanySize;
+  product: string;
+  role: string;
+  /** Comma-separated */
+  tags: string;
+  coverImage: string;
+  /** media.url of letters; empty for other media */
+  letterUrl: string;
+}
+
+type TextField = Exclude<keyof EditorValues, 'companySize'>;
+
+const TEXT_FIELDS: Array<{ name: TextField; label: string; multiline?: boolean; pdfOnly?: boolean }> = [
+  { name: 'name', label: 'Name' },
+  { name: 'title', label: 'Job title' },
+  { name: 'company', label: 'Company' },
+  { name: 'industry', label: 'Industry' },
+  { name: 'region', label: 'Region' },
+  { name: 'product', label: 'Product' },
+  { name: 'role', label: 'Role' },
+  { name: 'tags', label: 'Topics (comma-separated)' },
+  { name: 'coverImage', label: 'Cover image URL' },
+  { name: 'letterUrl', label: 'Letter URL (PDF)', pdfOnly: true },
+  { name: 'excerpt', label: 'Excerpt', multiline: true },
+  { name: 'fullQuote', label: 'Full quote', multiline: true },
+];
+
+const toEditorValues = ({
+  name,
+  title,
+  company,
+  excerpt,
+  fullQuote,
+  industry,
+  region,
+  companySize,
+  product,
+  role,
+  tags,
+  coverImage,
+  media,
+}: Testimonial): EditorValues => ({
+  name,
+  title,
+  company,
+  excerpt,
+  fullQuote,
+  industry,
+  region,
+  companySize,
+  product,
+  role,
+  tags: tags.join(', '),
+  coverImage,
+  letterUrl: media.type === 'pdf' ? media.url : '',
+});
+
+const TestimonialEditorForm: React.FC<{
+  testimonial: Testimonial;
+  isSaving: boolean;
+  onSave: (testimonial: Testimonial) => void;
+  onCancel: () => void;
+}> = ({ testimonial, isSaving, onSave, onCancel }) => {
+  const form = useForm<EditorValues>({ defaultValues: toEditorValues(testimonial) });
+  const rootError = form.formState.errors.root?.message;
+  const fields = TEXT_FIELDS.filter(({ pdfOnly }) => !pdfOnly || testimonial.media.type === 'pdf');
+
+  const onSubmit = ({ tags, letterUrl, ...values }: EditorValues) => {
+    const next = {
+      ...testimonial,
+      ...values,
+      media: testimonial.media.type === 'pdf' ? { type: 'pdf', url: letterUrl } : testimonial.media,
+      tags: tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+    } as Testimonial;
+
+    const result = submittedTestimonialSchema.safeParse(next);
+    if (!result.success) {
+      result.error.issues.forEach((issue) => {
+        const [field] = issue.path[0] === 'media' && issue.path[1] === 'url' ? ['letterUrl'] : issue.path;
+        if (field === 'companySize' || TEXT_FIELDS.some((text) => text.name === field)) {
+          form.setError(field as keyof EditorValues, { message: issue.message });
+        } else {
+          form.setError('root', { message: `${issue.path.join('.')}: ${issue.message}` });
+        }
+      });
+      return;
+    }
+    onSave(next);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} noValidate className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          {fields.map(({ name, label, multiline }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem className={multiline ? 'sm:col-span-2' : undefined}>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>{multiline ? <Textarea rows={4} {...field} /> : <Input {...field} />}</FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+          <FormField
+            control={form.control}
+            name="companySize"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Company size</FormLabel>
+                <Select value={field.value ?? ''} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger ref={field.ref}>
+                      <SelectValue placeholder="Choose a size" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {COMPANY_SIZES.map((size) => (
+                      <SelectItem key={size} value={size}>
+                        {size}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {rootError && (
+          <p role="alert" className="text-sm font-medium text-destructive">
+            {rootError}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSaving}>
+            Save testimonial
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+};
+
+// ============================================
+// SUBMISSION CARD
+// ============================================
+
+const SubmissionCard: React.FC<{
+  submission: TestimonialSubmission;
+  isSaving: boolean;
+  onUpdate: (update: SubmissionUpdate) => void;
+  onEdit: () => void;
+}> = ({ submission, isSaving, onUpdate, onEdit }) => {
+  const { letter, headshot, testimonial } = submission;
+  const issues = submission.status === 'approved' ? testimonialIssues(testimonial) : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start gap-4 space-y-0">
+        {headshot && (
+          <img src={headshot.url} alt="" className="h-14 w-14 shrink-0 rounded-full object-cover" />
+        )}
+        <div className="flex-1 min-w-0 space-y-1">
+          <CardTitle className="text-lg">{submission.name}</CardTitle>
+          <CardDescription>
+            {submission.title}, {submission.company}
+            {submission.industry && ` · ${submission.industry}`}
+            {submission.companySize && ` · ${submission.companySize}`}
+          </CardDescription>
+          <p className="text-sm">
+            <a href={`mailto:${submission.email}`} className="underline underline-offset-4">
+              {submission.email}
+            </a>
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1 text-xs text-muted-foreground">
+          <Badge variant="outline">{submission.locale}</Badge>
+          <span className="tabular-nums">{format(submission.submittedAt, 'yyyy-MM-dd HH:mm')}</span>
+          <span className="tabular-nums">
+            {submission.consentedAt
+              ? `Consent ${format(submission.consentedAt, 'yyyy-MM-dd HH:mm:ss')}`
+              : 'No consent recorded'}
+          </span>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <blockquote className="border-s-2 border-primary/40 ps-4 text-sm whitespace-pre-line">
+          {testimonial?.fullQuote ?? submission.quote}
+        </blockquote>
+
+        {testimonial && testimonial.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {testimonial.tags.map((tag) => (
+              <Badge key={tag} variant="secondary">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {letter && (
+          <a
+            href={letter.url}
+            download={letter.name}
+            className="inline-flex items-center gap-2 text-sm underline underline-offset-4"
+          >
+            <FileText className="h-4 w-4" aria-hidden="true" />
+            {letter.name} ({formatBytes(letter.size)})
+          </a>
+        )}
+
+        {issues.length > 0 && (
+          <div className="rounded-lg border border-destructive/60 p-3 text-sm">
+            <p className="font-medium text-destructive">Edit before publishing:</p>
+            <ul className="mt-1 list-disc ps-5 text-muted-foreground">
+              {issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      <CardFooter className="flex flex-wrap gap-2">
+        {submission.status === 'pending' && (
+          <Button
+            size="sm"
+            disabled={isSaving}
+            onClick={() => onUpdate({ status: 'approved', testimonial: testimonial ?? draftTestimonial(submission) })}
+          >
+            <Check className="h-4 w-4 me-2" aria-hidden="true" />
+            Approve
+          </Button>
+        )}
+        {(submission.status === 'approved' || submission.status === 'published') && (
+          <Button size="sm" variant="outline" disabled={isSaving} onClick={onEdit}>
+            <Pencil className="h-4 w-4 me-2" aria-hidden="true" />
+            Edit
+          </Button>
+        )}
+        {submission.status === 'approved' && (
+          <Button size="sm" disabled={isSaving || issues.length > 0} onClick={() => onUpdate({ status: 'published' })}>
+            <Send className="h-4 w-4 me-2" aria-hidden="true" />
+            Publish
+          </Button>
+        )}
+        {submission.status === 'published' && (
+          <Button size="sm" variant="outline" disabled={isSaving} onClick={() => onUpdate({ status: 'approved' })}>
+            <Undo2 className="h-4 w-4 me-2" aria-hidden="true" />
+            Unpublish
+          </Button>
+        )}
+        {(submission.status === 'pending' || submission.status === 'approved') && (
+          <Button size="sm" variant="ghost" disabled={isSaving} onClick={() => onUpdate({ status: 'rejected' })}>
+            <X className="h-4 w-4 me-2" aria-hidden="true" />
+            Reject
+          </Button>
+        )}
+        {submission.status === 'rejected' && (
+          <Button size="sm" variant="outline" disabled={isSaving} onClick={() => onUpdate({ status: 'pending' })}>
+            <Undo2 className="h-4 w-4 me-2" aria-hidden="true" />
+            Back to pending
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+};
+
+// ============================================
+// PAGE
+// ============================================
+
+const ModerationQueue: React.FC = () => {
+  const { data: submissions = [], isLoading, error, refetch } = useTestimonialSubmissions();
+  const update = useUpdateSubmission();
+  const [editing, setEditing] = useState<TestimonialSubmission | null>(null);
+
+  const byStatus = useMemo(
+    () =>
+      Object.fromEntries(
+        STATUSES.map(({ value }) => [value, submissions.filter((submission) => submission.status === value)])
+      ) as Record<SubmissionStatus, TestimonialSubmission[]>,
+    [submissions]
+  );
+
+  const saveUpdate = (id: string, changes: SubmissionUpdate, onSuccess?: () => void) =>
+    update.mutate(
+      { id, update: changes },
+      {
+        onSuccess,
+        onError: (reason) =>
+          toast.error(`Could not update submission: ${reason instanceof Error ? reason.message : String(reason)}`),
+      }
+    );
+
+  // Grouped by locale, ready to paste into each locale's testimonials.json under public/content.
+  // Uploads kept as data: URLs would bloat the content files, so those entries are left out.
+  const copyPublished = async () => {
+    const published: Record<string, Testimonial[]> = {};
+    let copied = 0;
+    byStatus.published.forEach(({ locale, testimonial }) => {
+      if (!testimonialSchema.safeParse(testimonial).success) return;
+      published[locale] = [...(published[locale] ?? []), testimonial as Testimonial];
+      copied += 1;
+    });
+    const skipped = byStatus.published.length - copied;
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(published, null, 2));
+      if (skipped > 0) {
+        toast.warning(
+          `Copied ${copied} published testimonials; ${skipped} still use uploaded files. Host those files and edit the cover image and letter URLs to include them.`
+        );
+      } else {
+        toast.success(`Copied ${copied} published testimonials`);
+      }
+    } catch {
+      toast.error('Could not copy to the clipboard');
+    }
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Testimonials | Admin</title>
+        <meta name="robots" content="noindex, nofollow" />
+      </Helmet>
+
+      <main className="min-h-screen bg-background">
+        <div className="container mx-auto max-w-6xl px-4 py-10 space-y-8">
+          {/* Header */}
+          <header className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+            <div>
+              <h1 className="text-3xl font-display font-bold">Testimonial submissions</h1>
+              <p className="text-muted-foreground">
+                {byStatus.pending.length} waiting for review · stored{' '}
+                {SUBMISSIONS_ENDPOINT ? `at ${SUBMISSIONS_ENDPOINT}` : `via the ${getSubmissionAdapter().name} adapter`}
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" onClick={copyPublished} disabled={byStatus.published.length === 0}>
+                <Copy className="h-4 w-4 me-2" aria-hidden="true" />
+                Copy published JSON
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => refetch()} aria-label="Reload submissions">
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </header>
+
+          {error && (
+            <p role="alert" className="rounded-lg border border-destructive/60 p-4 text-sm text-destructive">
+              Could not load submissions: {error instanceof Error ? error.message : String(error)}
+            </p>
+          )}
+
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading submissions…</p>
+          ) : (
+            <Tabs defaultValue="pending">
+              <TabsList className="flex-wrap h-auto">
+                {STATUSES.map(({ value, label }) => (
+                  <TabsTrigger key={value} value={value}>
+                    {label} ({byStatus[value].length})
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+
+              {STATUSES.map(({ value, label }) => (
+                <TabsContent key={value} value={value}>
+                  {byStatus[value].length > 0 ? (
+                    <div className="grid gap-4 lg:grid-cols-2">
+                      {byStatus[value].map((submission) => (
+                        <SubmissionCard
+                          key={submission.id}
+                          submission={submission}
+                          isSaving={update.isPending}
+                          onUpdate={(changes) => saveUpdate(submission.id, changes)}
+                          onEdit={() => setEditing(submission)}
+                        />
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="py-10 text-center text-muted-foreground">No {label.toLowerCase()} submissions.</p>
+                  )}
+                </TabsContent>
+              ))}
+            </Tabs>
+          )}
+        </div>
+
+        <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Edit testimonial</DialogTitle>
+              <DialogDescription>
+                {editing ? `${editing.name}, ${editing.company} (${editing.locale})` : ''}
+              </DialogDescription>
+            </DialogHeader>
+            {editing && (
+              <TestimonialEditorForm
+                testimonial={editing.testimonial ?? draftTestimonial(editing)}
+                isSaving={update.isPending}
+                onSave={(testimonial) => saveUpdate(editing.id, { testimonial }, () => setEditing(null))}
+                onCancel={() => setEditing(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+      </main>
+    </>
+  );
+};
+
+/**
+ * Without a way to authenticate the moderator, a submissions API would hand
+ * every submitter's email to anyone opening this page
+ */
+const ModerationUnavailable: React.FC = () => (
+  <>
+    <Helmet>
+      <title>Testimonials | Admin</title>
+      <meta name="robots" content="noindex, nofollow" />
+    </Helmet>
+
+    <main className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-3xl px-4 py-10 space-y-4">
+        <h1 className="text-3xl font-display font-bold">Testimonial submissions</h1>
+        <p role="alert" className="rounded-lg border border-destructive/60 p-4 text-sm">
+          Moderation is disabled because requests to {SUBMISSIONS_ENDPOINT} would not be authenticated. Set
+          VITE_SUBMISSIONS_CREDENTIALS, or install an adapter with an Authorization header through
+          setSubmissionAdapter().
+        </p>
+      </div>
+    </main>
+  </>
+);
+
+const AdminTestimonials: React.FC = () =>
+  getSubmissionAdapter().canModerate ? <ModerationQueue /> : <ModerationUnavailable />;
+
+export default AdminTestimonials;
@@ -0,0 +1,353 @@
+/**
+ * Customers Page
+ *
+ * Testimonial wall at /customers (or /:locale/customers):
+ * - Search over what customers said, plus their name and company
+ * - Industry and company size toggles, region / role / product selects
+ *   and topic badges; every change is written to the URL
+ * - Live result count and a clear-filters shortcut
+ * - Letters and recordings open in the same in-page viewer as the About
+ *   page slider (TestimonialViewer)
+ * - Links to /share-your-story for customers who want to add theirs
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, MessageSquarePlus, Search, X } from 'lucide-react';
+import type { Testimonial } from '@/data/aboutData';
+import { Badge, badgeVariants } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { Highlighted } from '@/components/about/Highlighted';
+import { TestimonialActionIcon, TestimonialViewer } from '@/components/about/TestimonialViewer';
+import { useAboutContent } from '@/hooks/useAboutContent';
+import { useI18n } from '@/hooks/useI18n';
+import {
+  filterTestimonials,
+  hasActiveFilters,
+  parseTestimonialFilters,
+  testimonialFacets,
+  testimonialFilterParams,
+  trackTestimonialOpened,
+  type FacetOption,
+  type TestimonialFilters,
+} from '@/lib/testimonials';
+import { absoluteUrl, localizedPath } from '@/i18n/config';
+import { cn } from '@/lib/utils';
+
+/** Select value standing for "no filter"; Radix Select does not allow "" */
+const ALL = '__all';
+
+const FacetLabel: React.FC<{ id: string; children: React.ReactNode }> = ({ id, children }) => (
+  <span id={id} className="block text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">
+    {children}
+  </span>
+);
+
+const FacetSelect: React.FC<{
+  id: string;
+  label: string;
+  allLabel: string;
+  value: string | null;
+  options: FacetOption[];
+  onChange: (value: string | null) => void;
+}> = ({ id, label, allLabel, value, options, onChange }) => {
+  const { dir } = useI18n();
+
+  return (
+    <div>
+      <FacetLabel id={id}>{label}</FacetLabel>
+      <Select value={value ?? ALL} onValueChange={(next) => onChange(next === ALL ? null : next)} dir={dir}>
+        <SelectTrigger className="glass-card border-border/30 focus-ring" aria-labelledby={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>{allLabel}</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.value} ({option.count})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+const StoryCard: React.FC<{
+  testimonial: Testimonial;
+  onOpen: (testimonial: Testimonial) => void;
+}> = ({ testimonial, onOpen }) => {
+  const { t } = useI18n();
+  const mediaType = testimonial.media.type;
+
+  const handleOpen = () => {
+    trackTestimonialOpened(testimonial);
+    onOpen(testimonial);
+  };
+
+  return (
+    <article className="glass-card overflow-hidden flex flex-col" aria-labelledby={`${testimonial.id}-name`}>
+      <img
+        src={testimonial.coverImage}
+        alt={t.testimonials.coverAlt(testimonial.name, testimonial.title, testimonial.company)}
+        loading="lazy"
+        className="aspect-[16/9] w-full object-cover"
+      />
+      <div className="p-6 flex flex-col flex-1 gap-4">
+        <div>
+          <h2 id={`${testimonial.id}-name`} className="text-xl font-display font-semibold">
+            {testimonial.name}
+          </h2>
+          <p className="text-sm text-muted-foreground">{testimonial.title}</p>
+          <p className="text-sm font-medium text-accent">{testimonial.company}</p>
+        </div>
+
+        <blockquote className="text-foreground/80 leading-relaxed flex-1">"{testimonial.fullQuote}"</blockquote>
+
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary">{testimonial.industry}</Badge>
+          <Badge variant="secondary">{t.customers.sizes[testimonial.companySize]}</Badge>
+          <Badge variant="secondary">{testimonial.region}</Badge>
+          <Badge variant="secondary">{testimonial.product}</Badge>
+          {testimonial.tags.map((tag) => (
+            <Badge key={tag} variant="outline">
+              {tag}
+            </Badge>
+          ))}
+        </div>
+
+        <Button
+          variant="outline"
+          onClick={handleOpen}
+          className="w-fit focus-ring"
+          aria-label={t.testimonials.actionLabels[mediaType](testimonial.name, testimonial.company)}
+        >
+          <TestimonialActionIcon media={mediaType} className="w-4 h-4 me-2" />
+          {t.testimonials.actions[mediaType]}
+        </Button>
+      </div>
+    </article>
+  );
+};
+
+const Customers: React.FC = () => {
+  const { locale, t, dir } = useI18n();
+  const { content, isLoading } = useAboutContent(locale);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [openTestimonial, setOpenTestimonial] = useState<Testimonial | null>(null);
+  const closeTestimonial = useCallback(() => setOpenTestimonial(null), []);
+
+  const testimonials = useMemo(() => content?.testimonials ?? [], [content]);
+  const facets = useMemo(() => testimonialFacets(testimonials), [testimonials]);
+  const filters = useMemo(() => parseTestimonialFilters(searchParams), [searchParams]);
+  const results = useMemo(() => filterTestimonials(testimonials, filters), [testimonials, filters]);
+
+  // Replace rather than push, so typing in the search box does not flood the history
+  const updateFilters = (patch: Partial<TestimonialFilters>) =>
+    setSearchParams(testimonialFilterParams({ ...filters, ...patch }), { replace: true });
+
+  const toggleTag = (tag: string) =>
+    updateFilters({
+      tags: filters.tags.includes(tag) ? filters.tags.filter((value) => value !== tag) : [...filters.tags, tag],
+    });
+
+  const clearFilters = () => setSearchParams(new URLSearchParams(), { replace: true });
+
+  return (
+    <>
+      <Helmet>
+        <html lang={locale} dir={dir} />
+        <title>{t.customers.metaTitle}</title>
+        <meta name="description" content={t.customers.metaDescription} />
+        <link rel="canonical" href={absoluteUrl(localizedPath('/customers', locale))} />
+        <meta property="og:title" content={t.customers.metaTitle} />
+        <meta property="og:description" content={t.customers.metaDescription} />
+        <meta property="og:type" content="website" />
+      </Helmet>
+
+      <main className="min-h-screen bg-background">
+        <div className="section-container space-y-12">
+          {/* Header */}
+          <header className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <Link
+                to={`${localizedPath('/about', locale)}#testimonials-title`}
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors focus-ring rounded-sm"
+              >
+                <ArrowLeft className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+                {t.customers.back}
+              </Link>
+              <LanguageSwitcher />
+            </div>
+
+            <div className="text-center space-y-3">
+              <h1 className="text-4xl lg:text-6xl font-display font-bold">
+                <Highlighted text={t.customers.title} />
+              </h1>
+              <p className="text-xl text-muted-foreground max-w-2xl mx-auto">{t.customers.subtitle}</p>
+              <Button asChild variant="outline" className="focus-ring">
+                <Link to={localizedPath('/share-your-story', locale)}>
+                  <MessageSquarePlus className="w-4 h-4 me-2" aria-hidden="true" />
+                  {t.shareStory.cta}
+                </Link>
+              </Button>
+            </div>
+          </header>
+
+          {isLoading ? (
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3" aria-busy="true">
+              {[0, 1, 2].map((i) => (
+                <Skeleton key={i} className="h-[480px] rounded-2xl" />
+              ))}
+            </div>
+          ) : (
+            <>
+              {/* Filters */}
+              <section aria-label={t.customers.filtersLabel} className="glass-card p-6 lg:p-8 space-y-6">
+                <div className="relative">
+                  <Search
+                    className="absolute start-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none"
+                    aria-hidden="true"
+                  />
+                  <Input
+                    type="search"
+                    value={filters.query}
+                    onChange={(event) => updateFilters({ query: event.target.value })}
+                    placeholder={t.customers.searchPlaceholder}
+                    aria-label={t.customers.search}
+                    className="ps-9"
+                  />
+                </div>
+
+                <div className="grid gap-6 lg:grid-cols-2">
+                  <div>
+                    <FacetLabel id="facet-industry">{t.customers.industry}</FacetLabel>
+                    <ToggleGroup
+                      type="multiple"
+                      value={filters.industries}
+                      onValueChange={(industries) => updateFilters({ industries })}
+                      aria-labelledby="facet-industry"
+                      variant="outline"
+                      dir={dir}
+                      className="flex-wrap justify-start"
+                    >
+                      {facets.industries.map((option) => (
+                        <ToggleGroupItem key={option.value} value={option.value} className="focus-ring">
+                          {option.value}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+
+                  <div>
+                    <FacetLabel id="facet-size">{t.customers.companySize}</FacetLabel>
+                    <ToggleGroup
+                      type="multiple"
+                      value={filters.sizes}
+                      onValueChange={(sizes) => updateFilters({ sizes: sizes as TestimonialFilters['sizes'] })}
+                      aria-labelledby="facet-size"
+                      variant="outline"
+                      dir={dir}
+                      className="flex-wrap justify-start"
+                    >
+                      {facets.sizes.map((option) => (
+                        <ToggleGroupItem key={option.value} value={option.value} className="focus-ring">
+                          {t.customers.sizes[option.value]}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+                </div>
+
+                <div className="grid gap-6 sm:grid-cols-3">
+                  <FacetSelect
+                    id="facet-region"
+                    label={t.customers.region}
+                    allLabel={t.customers.allRegions}
+                    value={filters.region}
+                    options={facets.regions}
+                    onChange={(region) => updateFilters({ region })}
+                  />
+                  <FacetSelect
+                    id="facet-role"
+                    label={t.customers.role}
+                    allLabel={t.customers.allRoles}
+                    value={filters.role}
+                    options={facets.roles}
+                    onChange={(role) => updateFilters({ role })}
+                  />
+                  <FacetSelect
+                    id="facet-product"
+                    label={t.customers.product}
+                    allLabel={t.customers.allProducts}
+                    value={filters.product}
+                    options={facets.products}
+                    onChange={(product) => updateFilters({ product })}
+                  />
+                </div>
+
+                <div role="group" aria-labelledby="facet-tags">
+                  <FacetLabel id="facet-tags">{t.customers.tags}</FacetLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {facets.tags.map((option) => {
+                      const isSelected = filters.tags.includes(option.value);
+                      return (
+                        <button
+                          key={option.value}
+                          type="button"
+                          onClick={() => toggleTag(option.value)}
+                          aria-pressed={isSelected}
+                          className={cn(
+                            badgeVariants({ variant: isSelected ? 'default' : 'outline' }),
+                            "cursor-pointer focus-ring"
+                          )}
+                        >
+                          {option.value}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              </section>
+
+              {/* Result Count */}
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <p role="status" className="text-muted-foreground">
+                  {t.customers.resultCount(results.length, testimonials.length)}
+                </p>
+                {hasActiveFilters(filters) && (
+                  <Button variant="ghost" onClick={clearFilters} className="focus-ring">
+                    <X className="w-4 h-4 me-2" aria-hidden="true" />
+                    {t.customers.clearFilters}
+                  </Button>
+                )}
+              </div>
+
+              {/* Stories */}
+              {results.length > 0 ? (
+                <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                  {results.map((testimonial) => (
+                    <StoryCard key={testimonial.id} testimonial={testimonial} onOpen={setOpenTestimonial} />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-center text-lg text-muted-foreground py-16">{t.customers.noResults}</p>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* In-page Letter / Media Viewer */}
+        <TestimonialViewer testimonial={openTestimonial} onClose={closeTestimonial} />
+      </main>
+    </>
+  );
+};
+
+export default Customers;
@@ -0,0 +1,388 @@
+/**
+ * Share Your Story Page
+ *
+ * Public testimonial form at /share-your-story (or /:locale/share-your-story):
+ * - Name, contact email, job title, company and the story itself, plus
+ *   optional industry and company size
+ * - Optional PDF letter and headshot uploads, checked for type and size
+ * - Explicit publishing consent, sent with the time it was given
+ * - Submissions go to the configured adapter (see src/lib/submissions)
+ *   and wait for moderation on /admin/testimonials
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { toast } from 'sonner';
+import { ArrowLeft, CheckCircle2, Loader2 } from 'lucide-react';
+import type { CompanySize } from '@/data/aboutData';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { Highlighted } from '@/components/about/Highlighted';
+import { useI18n } from '@/hooks/useI18n';
+import { useSubmitTestimonial } from '@/hooks/useTestimonialSubmissions';
+import { SUBMISSIONS_ENDPOINT, isQuotaExceededError } from '@/lib/submissions';
+import { COMPANY_SIZES } from '@/lib/testimonials';
+import { absoluteUrl, localizedPath } from '@/i18n/config';
+import type { Messages } from '@/i18n/messages/en';
+
+const QUOTE_MIN_LENGTH = 40;
+const QUOTE_MAX_LENGTH = 1000;
+// Without a backend, uploads are kept inline in localStorage, which holds about 5 MB in all
+const LETTER_MAX_MB = SUBMISSIONS_ENDPOINT ? 5 : 2;
+const HEADSHOT_MAX_MB = SUBMISSIONS_ENDPOINT ? 2 : 1;
+const HEADSHOT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+interface StoryValues {
+  name: string;
+  email: string;
+  title: string;
+  company: string;
+  industry: string;
+  companySize?: CompanySize;
+  quote: string;
+  letter?: File;
+  headshot?: File;
+  consent: boolean;
+}
+
+const DEFAULT_VALUES: StoryValues = {
+  name: '',
+  email: '',
+  title: '',
+  company: '',
+  industry: '',
+  quote: '',
+  consent: false,
+};
+
+const fitsSize = (maxMb: number) => (file?: File) => !file || file.size <= maxMb * 1024 * 1024;
+
+/**
+ * Form schema with messages in the current locale
+ */
+const storySchema = (errors: Messages['shareStory']['errors']) => {
+  const required = z.string().trim().min(1, errors.required);
+
+  return z.object({
+    name: required,
+    email: z.string().trim().email(errors.email),
+    title: required,
+    company: required,
+    industry: z.string().trim(),
+    companySize: z.enum(COMPANY_SIZES as [CompanySize, ...CompanySize[]]).optional(),
+    quote: z
+      .string()
+      .trim()
+      .min(QUOTE_MIN_LENGTH, errors.quoteMin(QUOTE_MIN_LENGTH))
+      .max(QUOTE_MAX_LENGTH, errors.quoteMax(QUOTE_MAX_LENGTH)),
+    letter: z
+      .instanceof(File)
+      .optional()
+      .refine((file) => !file || file.type === 'application/pdf', errors.letterType)
+      .refine(fitsSize(LETTER_MAX_MB), errors.fileSize(LETTER_MAX_MB)),
+    headshot: z
+      .instanceof(File)
+      .optional()
+      .refine((file) => !file || HEADSHOT_TYPES.includes(file.type), errors.headshotType)
+      .refine(fitsSize(HEADSHOT_MAX_MB), errors.fileSize(HEADSHOT_MAX_MB)),
+    consent: z.boolean().refine(Boolean, errors.consent),
+  });
+};
+
+const ShareYourStory: React.FC = () => {
+  const { t, locale, dir } = useI18n();
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const submit = useSubmitTestimonial();
+
+  const schema = useMemo(() => storySchema(t.shareStory.errors), [t]);
+  const form = useForm<StoryValues>({ resolver: zodResolver(schema), defaultValues: DEFAULT_VALUES });
+
+  const onSubmit = ({ consent, industry, ...values }: StoryValues) =>
+    submit.mutate(
+      { ...values, industry: industry || undefined, locale, consentedAt: Date.now() },
+      {
+        onSuccess: () => setIsSubmitted(true),
+        onError: (error) => {
+          console.warn('[Submissions] Could not save story:', error);
+          toast.error(isQuotaExceededError(error) ? t.shareStory.storageFull : t.shareStory.submitError);
+        },
+      }
+    );
+
+  const shareAnother = () => {
+    form.reset(DEFAULT_VALUES);
+    setIsSubmitted(false);
+  };
+
+  const optional = <span className="text-muted-foreground font-normal">{t.shareStory.optional}</span>;
+
+  return (
+    <>
+      <Helmet>
+        <html lang={locale} dir={dir} />
+        <title>{t.shareStory.metaTitle}</title>
+        <meta name="description" content={t.shareStory.metaDescription} />
+        <link rel="canonical" href={absoluteUrl(localizedPath('/share-your-story', locale))} />
+        <meta property="og:title" content={t.shareStory.metaTitle} />
+        <meta property="og:description" content={t.shareStory.metaDescription} />
+        <meta property="og:type" content="website" />
+      </Helmet>
+
+      <main className="min-h-screen bg-background">
+        <div className="section-container max-w-3xl space-y-12">
+          {/* Header */}
+          <header className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <Link
+                to={localizedPath('/customers', locale)}
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors focus-ring rounded-sm"
+              >
+                <ArrowLeft className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+                {t.shareStory.back}
+              </Link>
+              <LanguageSwitcher />
+            </div>
+
+            <div className="text-center space-y-3">
+              <h1 className="text-4xl lg:text-6xl font-display font-bold">
+                <Highlighted text={t.shareStory.title} />
+              </h1>
+              <p className="text-xl text-muted-foreground max-w-2xl mx-auto">{t.shareStory.subtitle}</p>
+            </div>
+          </header>
+
+          {isSubmitted ? (
+            <section role="status" className="glass-card p-8 lg:p-12 text-center space-y-4">
+              <CheckCircle2 className="w-12 h-12 mx-auto text-primary" aria-hidden="true" />
+              <h2 className="text-2xl font-display font-bold">{t.shareStory.thanksTitle}</h2>
+              <p className="text-muted-foreground">{t.shareStory.thanksBody}</p>
+              <div className="flex flex-wrap justify-center gap-3 pt-2">
+                <Button variant="outline" onClick={shareAnother} className="focus-ring">
+                  {t.shareStory.shareAnother}
+                </Button>
+                <Button asChild className="focus-ring">
+                  <Link to={localizedPath('/customers', locale)}>{t.shareStory.back}</Link>
+                </Button>
+              </div>
+            </section>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} noValidate className="glass-card p-6 lg:p-8 space-y-6">
+                <div className="grid gap-6 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.shareStory.fields.name}</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.shareStory.fields.email}</FormLabel>
+                        <FormControl>
+                          <Input type="email" autoComplete="email" {...field} />
+                        </FormControl>
+                        <FormDescription>{t.shareStory.fields.emailHint}</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.shareStory.fields.title}</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="organization-title" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="company"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.shareStory.fields.company}</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="organization" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="industry"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {t.shareStory.fields.industry} {optional}
+                        </FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="companySize"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {t.shareStory.fields.companySize} {optional}
+                        </FormLabel>
+                        <Select value={field.value ?? ''} onValueChange={field.onChange} dir={dir}>
+                          <FormControl>
+                            <SelectTrigger ref={field.ref} onBlur={field.onBlur} className="focus-ring">
+                              <SelectValue placeholder={t.shareStory.fields.companySizePlaceholder} />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {COMPANY_SIZES.map((size) => (
+                              <SelectItem key={size} value={size}>
+                                {t.customers.sizes[size]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="quote"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t.shareStory.fields.quote}</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={7}
+                          maxLength={QUOTE_MAX_LENGTH}
+                          placeholder={t.shareStory.fields.quotePlaceholder}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        {t.shareStory.fields.quoteHint(QUOTE_MIN_LENGTH, QUOTE_MAX_LENGTH)}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid gap-6 sm:grid-cols-2">
+                  {/* File inputs cannot be controlled: hand react-hook-form the picked File */}
+                  <FormField
+                    control={form.control}
+                    name="letter"
+                    render={({ field: { value, onChange, ...field } }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {t.shareStory.fields.letter} {optional}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="file"
+                            accept="application/pdf"
+                            onChange={(event) => onChange(event.target.files?.[0])}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>{t.shareStory.fields.letterHint(LETTER_MAX_MB)}</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="headshot"
+                    render={({ field: { value, onChange, ...field } }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {t.shareStory.fields.headshot} {optional}
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="file"
+                            accept={HEADSHOT_TYPES.join(',')}
+                            onChange={(event) => onChange(event.target.files?.[0])}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>{t.shareStory.fields.headshotHint(HEADSHOT_MAX_MB)}</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="consent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-start gap-3">
+                        <FormControl>
+                          <Checkbox
+                            ref={field.ref}
+                            checked={field.value}
+                            onCheckedChange={(checked) => field.onChange(checked === true)}
+                            onBlur={field.onBlur}
+                            className="mt-0.5"
+                          />
+                        </FormControl>
+                        <FormLabel className="font-normal leading-relaxed">{t.shareStory.fields.consent}</FormLabel>
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" size="lg" disabled={submit.isPending} className="w-full sm:w-auto focus-ring">
+                  {submit.isPending && <Loader2 className="w-4 h-4 me-2 animate-spin" aria-hidden="true" />}
+                  {submit.isPending ? t.shareStory.submitting : t.shareStory.submit}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default ShareYourStory;
@@ -0,0 +1,308 @@
+/**
+ * Timeline Compare Page
+ *
+ * Two timeline years side by side at /about/compare/2022...2024
+ * (or /:locale/about/compare/...):
+ * - Year pickers, swap and copy-link controls; every change updates the URL
+ * - Summaries, hero images and galleries per year
+ * - KPIs matched by label with the computed difference and relative change
+ * - /about/compare without a range opens the first and last year;
+ *   unknown years or a malformed range render NotFound
+ */
+
+import React, { useEffect } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, ArrowLeftRight, Link2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { toGalleryImage, type Kpi, type TimelineYear } from '@/data/aboutData';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { useAboutContent } from '@/hooks/useAboutContent';
+import { useI18n } from '@/hooks/useI18n';
+import { compareKpis, type KpiComparison } from '@/lib/kpis';
+import { parseCompareRange, timelineComparePath } from '@/lib/timelineRoutes';
+import { absoluteUrl, localizedPath } from '@/i18n/config';
+import { cn } from '@/lib/utils';
+import NotFound from '@/pages/NotFound';
+
+const YearPicker: React.FC<{
+  label: string;
+  value: number;
+  years: TimelineYear[];
+  onChange: (year: number) => void;
+}> = ({ label, value, years, onChange }) => {
+  const { dir } = useI18n();
+
+  return (
+    <Select value={String(value)} onValueChange={(next) => onChange(Number(next))} dir={dir}>
+      <SelectTrigger className="w-32 glass-card border-border/30 focus-ring" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {years.map((entry) => (
+          <SelectItem key={entry.year} value={String(entry.year)}>
+            {entry.year}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+const YearColumn: React.FC<{ data: TimelineYear; side: 'left' | 'right' }> = ({ data, side }) => {
+  const { locale, t } = useI18n();
+  const gallery = data.gallery.map(toGalleryImage);
+
+  return (
+    <article className="glass-card overflow-hidden" aria-labelledby={`compare-${side}-${data.year}`}>
+      <div className="relative aspect-[16/9]">
+        <img
+          src={data.heroImage}
+          alt={t.timeline.milestoneAlt(data.year)}
+          className="w-full h-full object-cover"
+        />
+        <div className="absolute inset-0 bg-gradient-to-t from-background/90 via-background/20 to-transparent" />
+        <h2
+          id={`compare-${side}-${data.year}`}
+          className="absolute bottom-4 start-6 text-4xl lg:text-5xl font-display font-bold gradient-text"
+        >
+          {data.year}
+        </h2>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <p className="text-lg text-muted-foreground leading-relaxed">{data.summary}</p>
+
+        {gallery.length > 0 && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+              {t.compare.gallery}
+            </h3>
+            <div className="grid grid-cols-3 gap-3">
+              {gallery.map((image, i) => (
+                <figure key={image.src} className="space-y-1">
+                  <img
+                    src={image.src}
+                    alt={image.caption ?? t.timeline.galleryImageAlt(data.year, i + 1)}
+                    loading="lazy"
+                    className="aspect-square w-full rounded-lg object-cover"
+                  />
+                  {image.caption && (
+                    <figcaption className="text-xs text-muted-foreground line-clamp-2">{image.caption}</figcaption>
+                  )}
+                </figure>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <Link
+          to={`${localizedPath('/about', locale)}#timeline-${data.year}`}
+          className="inline-block text-sm text-accent underline-offset-4 hover:underline focus-ring rounded-sm"
+        >
+          {t.compare.viewInTimeline(data.year)}
+        </Link>
+      </div>
+    </article>
+  );
+};
+
+const KpiDifference: React.FC<{ row: KpiComparison }> = ({ row }) => {
+  const { formatKpi, formatChange } = useI18n();
+
+  if (row.difference === null || !row.to) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+
+  // The difference is exact, so the "+" / "~" qualifier does not apply to it
+  const amount = formatKpi({ ...row.to, qualifier: undefined }, row.difference);
+
+  return (
+    <span
+      className={cn(
+        "tabular-nums font-medium",
+        row.difference > 0 && "text-accent",
+        row.difference < 0 && "text-destructive"
+      )}
+    >
+      {row.difference > 0 ? `+${amount}` : amount}
+      {row.change !== null && (
+        <span className="ms-2 text-xs text-muted-foreground">({formatChange(row.change)})</span>
+      )}
+    </span>
+  );
+};
+
+const KpiValue: React.FC<{ kpi?: Kpi }> = ({ kpi }) => {
+  const { t, formatKpi } = useI18n();
+
+  if (!kpi) {
+    return (
+      <span className="text-muted-foreground">
+        <span aria-hidden="true">—</span>
+        <span className="sr-only">{t.compare.notTracked}</span>
+      </span>
+    );
+  }
+  return <span className="tabular-nums">{formatKpi(kpi)}</span>;
+};
+
+const TimelineCompare: React.FC = () => {
+  const { range } = useParams();
+  const navigate = useNavigate();
+  const { locale, t, dir } = useI18n();
+  const { content, isLoading } = useAboutContent(locale);
+  const years = content?.timeline ?? [];
+  const parsed = parseCompareRange(range);
+
+  const first = years[0]?.year;
+  const last = years[years.length - 1]?.year;
+
+  // No range in the URL: open the full span of the timeline
+  useEffect(() => {
+    if (!range && first !== undefined && last !== undefined) {
+      navigate(timelineComparePath(first, last, locale), { replace: true });
+    }
+  }, [range, first, last, locale, navigate]);
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-background section-container" aria-busy="true">
+        <Skeleton className="h-12 w-64 mb-12" />
+        <div className="grid gap-8 md:grid-cols-2">
+          <Skeleton className="h-[480px] rounded-2xl" />
+          <Skeleton className="h-[480px] rounded-2xl" />
+        </div>
+      </main>
+    );
+  }
+
+  const from = years.find((entry) => entry.year === parsed?.from);
+  const to = years.find((entry) => entry.year === parsed?.to);
+
+  if (range && (!from || !to)) return <NotFound />;
+  if (!from || !to) return null;
+
+  const rows = compareKpis(from, to);
+
+  const goTo = (nextFrom: number, nextTo: number) =>
+    navigate(timelineComparePath(nextFrom, nextTo, locale), { replace: true });
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success(t.compare.linkCopied);
+    } catch {
+      toast.error(t.compare.copyFailed);
+    }
+  };
+
+  return (
+    <>
+      <Helmet>
+        <html lang={locale} dir={dir} />
+        <title>{t.compare.metaTitle(from.year, to.year)}</title>
+        <meta name="description" content={t.compare.metaDescription(from.year, to.year)} />
+        <link rel="canonical" href={absoluteUrl(timelineComparePath(from.year, to.year, locale))} />
+        <meta property="og:title" content={t.compare.metaTitle(from.year, to.year)} />
+        <meta property="og:description" content={t.compare.metaDescription(from.year, to.year)} />
+        <meta property="og:type" content="website" />
+      </Helmet>
+
+      <main className="min-h-screen bg-background">
+        <div className="section-container space-y-12">
+          {/* Header */}
+          <header className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <Link
+                to={`${localizedPath('/about', locale)}#timeline-title`}
+                className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors focus-ring rounded-sm"
+              >
+                <ArrowLeft className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+                {t.compare.back}
+              </Link>
+              <LanguageSwitcher />
+            </div>
+
+            <div className="text-center space-y-3">
+              <h1 className="text-4xl lg:text-6xl font-display font-bold gradient-text">
+                {t.compare.heading(from.year, to.year)}
+              </h1>
+              <p className="text-xl text-muted-foreground">{t.compare.subtitle}</p>
+            </div>
+
+            {/* Controls */}
+            <div className="flex flex-wrap items-center justify-center gap-3">
+              <YearPicker
+                label={t.compare.fromLabel}
+                value={from.year}
+                years={years}
+                onChange={(year) => goTo(year, to.year)}
+              />
+              <button
+                type="button"
+                onClick={() => goTo(to.year, from.year)}
+                className="glass-card p-2.5 rounded-full hover:text-accent transition-colors focus-ring"
+                aria-label={t.compare.swap}
+              >
+                <ArrowLeftRight className="w-4 h-4" aria-hidden="true" />
+              </button>
+              <YearPicker
+                label={t.compare.toLabel}
+                value={to.year}
+                years={years}
+                onChange={(year) => goTo(from.year, year)}
+              />
+              <button
+                type="button"
+                onClick={copyLink}
+                className="inline-flex items-center gap-2 glass-card px-4 py-2 rounded-lg hover:text-accent transition-colors focus-ring"
+              >
+                <Link2 className="w-4 h-4" aria-hidden="true" />
+                {t.compare.copyLink}
+              </button>
+            </div>
+          </header>
+
+          {/* Key Figures */}
+          <section aria-labelledby="compare-kpis-title" className="glass-card p-6 lg:p-8">
+            <h2 id="compare-kpis-title" className="text-2xl font-display font-bold mb-4">
+              {t.compare.kpisTitle}
+            </h2>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t.compare.metric}</TableHead>
+                  <TableHead className="text-end">{from.year}</TableHead>
+                  <TableHead className="text-end">{to.year}</TableHead>
+                  <TableHead className="text-end">{t.compare.difference}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell className="font-medium">{row.label}</TableCell>
+                    <TableCell className="text-end"><KpiValue kpi={row.from} /></TableCell>
+                    <TableCell className="text-end"><KpiValue kpi={row.to} /></TableCell>
+                    <TableCell className="text-end"><KpiDifference row={row} /></TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </section>
+
+          {/* Side by side */}
+          <div className="grid gap-8 md:grid-cols-2">
+            <YearColumn data={from} side="left" />
+            <YearColumn data={to} side="right" />
+          </div>
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default TimelineCompare;
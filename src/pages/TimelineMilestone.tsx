@@ -0,0 +1,267 @@
+/**
+ * Timeline Milestone Page
+ *
+ * Full page for one timeline year at /about/timeline/:year
+ * (or /:locale/about/timeline/:year):
+ * - Hero image or media, summary and KPIs with year-over-year deltas
+ * - The companyHistory entry of the same year, when there is one
+ * - Gallery opening the shared TimelineLightbox, also from a
+ *   #timeline-{year}/photo/{n} deep link
+ * - Previous / next year navigation and a compare link
+ * - Per-year Helmet title, description and Open Graph tags
+ * - Unknown years render NotFound
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Helmet } from 'react-helmet-async';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, ArrowLeftRight, ArrowRight } from 'lucide-react';
+import { toGalleryImage } from '@/data/aboutData';
+import { Skeleton } from '@/components/ui/skeleton';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { HistoryEntryExtras } from '@/components/about/HistoryEntryExtras';
+import { KpiBadge } from '@/components/about/KpiBadge';
+import { TimelineLightbox } from '@/components/about/TimelineLightbox';
+import { TimelineMedia } from '@/components/about/TimelineMedia';
+import { useAboutContent } from '@/hooks/useAboutContent';
+import { useI18n } from '@/hooks/useI18n';
+import { useReducedMotion } from '@/hooks/useReducedMotion';
+import { timelineKpiDeltas } from '@/lib/kpis';
+import { PHOTO_HASH, timelineComparePath, timelineYearPath } from '@/lib/timelineRoutes';
+import { absoluteUrl, localizedPath } from '@/i18n/config';
+import NotFound from '@/pages/NotFound';
+
+const TimelineMilestone: React.FC = () => {
+  const { year: yearParam } = useParams();
+  const { locale, t, dir } = useI18n();
+  const { content, isLoading } = useAboutContent(locale);
+  const reducedMotion = useReducedMotion();
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  const years = useMemo(() => content?.timeline ?? [], [content]);
+  const kpiDeltas = useMemo(() => timelineKpiDeltas(years), [years]);
+
+  // Previous / next links keep this component mounted; start each year at the top
+  useEffect(() => {
+    window.scrollTo(0, 0);
+    setLightboxIndex(null);
+  }, [yearParam]);
+
+  // Open the lightbox from a #timeline-{year}/photo/{n} deep link, which the lightbox keeps current
+  useEffect(() => {
+    const entry = years.find((item) => String(item.year) === yearParam);
+    if (!entry) return;
+
+    const openFromHash = () => {
+      const match = PHOTO_HASH.exec(window.location.hash);
+      if (!match || match[1] !== yearParam) return;
+      const photoCount = entry.gallery.length + 1;
+      setLightboxIndex(Math.min(Math.max(Number(match[2]), 1), photoCount) - 1);
+    };
+
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, [years, yearParam]);
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-background section-container" aria-busy="true">
+        <Skeleton className="h-6 w-48 mb-12" />
+        <div className="grid gap-8 lg:grid-cols-[1fr,1.2fr]">
+          <Skeleton className="aspect-[4/3] rounded-2xl" />
+          <div className="space-y-6">
+            <Skeleton className="h-16 w-1/2" />
+            <Skeleton className="h-24 w-full" />
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const index = years.findIndex((entry) => String(entry.year) === yearParam);
+  if (index < 0) return <NotFound />;
+
+  const data = years[index];
+  const history = (content?.history ?? []).find((entry) => entry.year === data.year);
+  const previous = years[index - 1];
+  const next = years[index + 1];
+  const photos = [{ src: data.heroImage }, ...data.gallery.map(toGalleryImage)];
+  const title = t.milestone.metaTitle(data.year, history?.title);
+
+  return (
+    <>
+      <Helmet>
+        <html lang={locale} dir={dir} />
+        <title>{title}</title>
+        <meta name="description" content={data.summary} />
+        <link rel="canonical" href={absoluteUrl(timelineYearPath(data.year, locale))} />
+        <meta property="og:title" content={title} />
+        <meta property="og:description" content={data.summary} />
+        <meta property="og:image" content={data.heroImage} />
+        <meta property="og:type" content="article" />
+      </Helmet>
+
+      <main className="min-h-screen bg-background">
+        <article className="section-container space-y-16">
+          {/* Header */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <Link
+              to={`${localizedPath('/about', locale)}#timeline-${data.year}`}
+              className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors focus-ring rounded-sm"
+            >
+              <ArrowLeft className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+              {t.milestone.back}
+            </Link>
+            <LanguageSwitcher />
+          </div>
+
+          {/* Hero */}
+          <header className="grid gap-8 lg:gap-12 lg:grid-cols-[1fr,1.2fr] items-center">
+            <div className="relative overflow-hidden rounded-2xl aspect-[4/3]">
+              {data.mediaUrl && data.mediaType ? (
+                <TimelineMedia
+                  src={data.mediaUrl}
+                  type={data.mediaType}
+                  poster={data.mediaPoster ?? data.heroImage}
+                  year={data.year}
+                  alt={t.timeline.milestoneAlt(data.year)}
+                  reducedMotion={reducedMotion}
+                />
+              ) : (
+                <img
+                  src={data.heroImage}
+                  alt={t.timeline.milestoneAlt(data.year)}
+                  className="w-full h-full object-cover"
+                />
+              )}
+            </div>
+            <div className="space-y-6">
+              <p className="text-sm font-mono uppercase tracking-widest text-accent">
+                {t.milestone.eyebrow(data.year)}
+              </p>
+              <h1 className="text-5xl lg:text-7xl font-display font-bold gradient-text">
+                {history?.title ?? data.year}
+              </h1>
+              <p className="text-lg lg:text-xl text-muted-foreground leading-relaxed">{data.summary}</p>
+            </div>
+          </header>
+
+          {/* Company history of the same year */}
+          {history && (
+            <section
+              className="max-w-3xl ps-8 lg:ps-16 border-s-2"
+              style={{ borderColor: `hsl(${history.accentColor} / 0.4)` }}
+            >
+              <p className="text-lg lg:text-xl text-foreground/80 leading-relaxed">{history.blurb}</p>
+              <HistoryEntryExtras entry={history} />
+            </section>
+          )}
+
+          {/* Key Figures */}
+          <section aria-labelledby="milestone-kpis" className="space-y-6">
+            <h2 id="milestone-kpis" className="text-2xl font-display font-bold">
+              {t.milestone.keyFigures}
+            </h2>
+            <div className="flex flex-wrap gap-4">
+              {data.kpis.map((kpi, i) => (
+                <KpiBadge
+                  key={kpi.label}
+                  kpi={kpi}
+                  delta={kpiDeltas[index][i]}
+                  isActive
+                  reducedMotion={reducedMotion}
+                />
+              ))}
+            </div>
+          </section>
+
+          {/* Gallery */}
+          {data.gallery.length > 0 && (
+            <section aria-labelledby="milestone-gallery" className="space-y-6">
+              <h2 id="milestone-gallery" className="text-2xl font-display font-bold">
+                {t.milestone.gallery}
+              </h2>
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {photos.slice(1).map((photo, i) => (
+                  <figure key={photo.src} className="space-y-2">
+                    <button
+                      type="button"
+                      onClick={() => setLightboxIndex(i + 1)}
+                      className="block w-full overflow-hidden rounded-xl focus-ring"
+                      aria-label={t.milestone.openPhoto(i + 2)}
+                    >
+                      <img
+                        src={photo.src}
+                        alt={photo.caption ?? t.timeline.galleryImageAlt(data.year, i + 1)}
+                        loading="lazy"
+                        className="aspect-[4/3] w-full object-cover transition-transform duration-500 hover:scale-105"
+                      />
+                    </button>
+                    {photo.caption && (
+                      <figcaption className="text-sm text-muted-foreground">{photo.caption}</figcaption>
+                    )}
+                  </figure>
+                ))}
+              </div>
+              <TimelineLightbox
+                year={data.year}
+                images={photos}
+                openIndex={lightboxIndex}
+                onClose={() => setLightboxIndex(null)}
+              />
+            </section>
+          )}
+
+          {/* Previous / Next */}
+          <nav aria-label={t.milestone.navLabel} className="grid gap-4 sm:grid-cols-2 pt-8 border-t border-border/30">
+            {previous ? (
+              <Link
+                to={timelineYearPath(previous.year, locale)}
+                className="glass-card p-6 flex items-center gap-4 hover:shadow-lg hover:shadow-accent/20 transition-shadow focus-ring"
+              >
+                <ArrowLeft className="w-5 h-5 text-accent rtl:rotate-180" aria-hidden="true" />
+                <span>
+                  <span className="block text-xs text-muted-foreground uppercase tracking-wider">
+                    {t.milestone.previous}
+                  </span>
+                  <span className="text-2xl font-display font-bold">{previous.year}</span>
+                </span>
+              </Link>
+            ) : (
+              <span />
+            )}
+            {next && (
+              <Link
+                to={timelineYearPath(next.year, locale)}
+                className="glass-card p-6 flex items-center justify-end gap-4 text-end hover:shadow-lg hover:shadow-accent/20 transition-shadow focus-ring"
+              >
+                <span>
+                  <span className="block text-xs text-muted-foreground uppercase tracking-wider">
+                    {t.milestone.next}
+                  </span>
+                  <span className="text-2xl font-display font-bold">{next.year}</span>
+                </span>
+                <ArrowRight className="w-5 h-5 text-accent rtl:rotate-180" aria-hidden="true" />
+              </Link>
+            )}
+          </nav>
+
+          {previous && (
+            <div className="text-center">
+              <Link
+                to={timelineComparePath(previous.year, data.year, locale)}
+                className="inline-flex items-center gap-2 text-accent underline-offset-4 hover:underline focus-ring rounded-sm"
+              >
+                <ArrowLeftRight className="w-4 h-4" aria-hidden="true" />
+                {t.milestone.compareWithPrevious(previous.year)}
+              </Link>
+            </div>
+          )}
+        </article>
+      </main>
+    </>
+  );
+};
+
+export default TimelineMilestone;
@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the About page content directory (defaults to `${BASE_URL}content/`) */
+  readonly VITE_CONTENT_BASE_URL?: string;
+  /** Endpoint receiving batched analytics events; beacon delivery is off when unset */
+  readonly VITE_ANALYTICS_ENDPOINT?: string;
+  /** JSON endpoint the /admin/analytics dashboard can read recorded events from */
+  readonly VITE_ANALYTICS_EVENTS_URL?: string;
+  /** "horizontal" pins the company timeline into a sideways-scrolling track; vertical otherwise */
+  readonly VITE_TIMELINE_LAYOUT?: 'vertical' | 'horizontal';
+  /** "typewriter" types out the company history blurbs; they blur in word by word otherwise */
+  readonly VITE_HISTORY_NARRATION?: 'words' | 'typewriter';
+  /** JSON API storing testimonial submissions; this browser's localStorage is used when unset */
+  readonly VITE_SUBMISSIONS_ENDPOINT?: string;
+  /** Public endpoint returning published testimonials only (defaults to `${VITE_SUBMISSIONS_ENDPOINT}/published`) */
+  readonly VITE_PUBLISHED_TESTIMONIALS_URL?: string;
+  /** Credentials mode of the moderation calls to VITE_SUBMISSIONS_ENDPOINT, e.g. "include" for a session cookie */
+  readonly VITE_SUBMISSIONS_CREDENTIALS?: RequestCredentials;
+}